@@ -10,7 +10,9 @@ module.exports = {
     "^main$": "<rootDir>/src/main.ts",
     "^AudioRecorder$": "<rootDir>/src/AudioRecorder",
     "^AudioProcessor$": "<rootDir>/src/AudioProcessor",
+    "^AudioProcessor/(.*)$": "<rootDir>/src/AudioProcessor/$1",
     "^MarkdownProcessor$": "<rootDir>/src/MarkdownProcessor",
+    "^MarkdownProcessor/(.*)$": "<rootDir>/src/MarkdownProcessor/$1",
     "^TranscriptionProcessor$": "<rootDir>/src/TranscriptionProcessor",
     "^types$": "<rootDir>/src/types.ts",
     "^settings$": "<rootDir>/src/settings",
@@ -3,8 +3,8 @@
 /**
  * Mock Whisper.cpp Server
  * 
- * This is a simple HTTP server that simulates the whisper.cpp server /inference endpoint
- * for testing purposes. It returns realistic mock data without requiring an actual
+ * This is a simple HTTP server that simulates the whisper.cpp server /inference endpoint,
+ * as well as the OpenAI-compatible /v1/audio/transcriptions and /v1/audio/translations endpoints, for testing purposes. It returns realistic mock data without requiring an actual
  * whisper.cpp installation.
  * 
  * Usage:
@@ -303,6 +303,37 @@ const mockTranscription = {
   }
 };
 
+// Mock transcription in the OpenAI `verbose_json` format - words are a flat list rather than nested in segments
+const mockOpenAITranscription = {
+  task: mockTranscription.task,
+  language: "en",
+  duration: mockTranscription.duration,
+  text: mockTranscription.text,
+  segments: mockTranscription.segments.map(({ words, ...segment }) => ({
+    ...segment,
+    seek: 0,
+    compression_ratio: 1.2,
+  })),
+  words: mockTranscription.segments.flatMap((segment) =>
+    segment.words.map(({ word, start, end }) => ({ word, start, end }))
+  ),
+};
+
+// Mock translation in the OpenAI `verbose_json` format - the translations endpoint gives no word timings
+const mockOpenAITranslation = {
+  task: "translate",
+  language: mockOpenAITranscription.language,
+  duration: mockOpenAITranscription.duration,
+  text: mockOpenAITranscription.text,
+  segments: mockOpenAITranscription.segments,
+};
+
+const ENDPOINT_RESPONSES = {
+  '/inference': mockTranscription,
+  '/v1/audio/transcriptions': mockOpenAITranscription,
+  '/v1/audio/translations': mockOpenAITranslation,
+};
+
 // Parse multipart form data to extract filename (simple implementation)
 function parseMultipartFormData(buffer, boundary) {
   const parts = buffer.toString().split(boundary);
@@ -335,8 +366,8 @@ const server = http.createServer((req, res) => {
     return;
   }
 
-  // Handle /inference endpoint
-  if (req.url === '/inference' && req.method === 'POST') {
+  // Handle /inference and the /v1/audio endpoints
+  if (ENDPOINT_RESPONSES[req.url] && req.method === 'POST') {
     let body = [];
     
     req.on('data', chunk => {
@@ -358,7 +389,7 @@ const server = http.createServer((req, res) => {
       }
       
       // Log the request
-      console.log(`[${new Date().toISOString()}] POST /inference`);
+      console.log(`[${new Date().toISOString()}] POST ${req.url}`);
       console.log(`  File: ${filename}`);
       console.log(`  Size: ${buffer.length} bytes`);
       
@@ -368,7 +399,7 @@ const server = http.createServer((req, res) => {
       setTimeout(() => {
         // Return mock transcription
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(mockTranscription, null, 2));
+        res.end(JSON.stringify(ENDPOINT_RESPONSES[req.url], null, 2));
         console.log(`  Status: 200 OK (${delay.toFixed(0)}ms)`);
       }, delay);
     });
@@ -384,7 +415,7 @@ const server = http.createServer((req, res) => {
     res.writeHead(404, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ 
       error: 'Not found',
-      message: 'Only /inference endpoint is supported'
+      message: `Supported endpoints: ${Object.keys(ENDPOINT_RESPONSES).join(', ')}`
     }));
   }
 });
@@ -397,6 +428,8 @@ server.listen(PORT, '127.0.0.1', () => {
   console.log('');
   console.log(`🚀 Server running at: http://127.0.0.1:${PORT}`);
   console.log(`📡 Endpoint: http://127.0.0.1:${PORT}/inference`);
+  console.log(`📡 Endpoint: http://127.0.0.1:${PORT}/v1/audio/transcriptions`);
+  console.log(`📡 Endpoint: http://127.0.0.1:${PORT}/v1/audio/translations`);
   console.log('');
   console.log('Configuration for Obsidian Vox:');
   console.log(`  1. Enable "Use Self-Hosted Backend"`);
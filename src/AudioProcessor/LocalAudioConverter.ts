@@ -1,8 +1,15 @@
 import { MPEGDecoder } from "mpg123-decoder";
 import { OggVorbisDecoder } from "@wasm-audio-decoders/ogg-vorbis";
 import { FLACDecoder } from "@wasm-audio-decoders/flac";
+import { OpusDecoder } from "opus-decoder";
+import { OggOpusDecoder } from "ogg-opus-decoder";
 import * as WavEncoder from "wav-encoder";
+import { DecodedAudio, ResampleQuality } from "types";
 import { Logger } from "utils/log";
+import { WHISPER_SAMPLE_RATE } from "../constants";
+import { toMono } from "./resample";
+import { decodeWav, readWavFormat } from "./wav";
+import { demuxWebmOpus } from "./webm";
 
 /**
  * LocalAudioConverter handles client-side audio transcoding using WASM decoders.
@@ -13,37 +20,60 @@ export class LocalAudioConverter {
   constructor(private readonly logger: Logger) {}
 
   /**
-   * Convert an audio file to WAV format required by whisper.cpp server.
-   * Supports MP3, OGG, FLAC, M4A, AAC, and WAV (pass-through) formats.
+   * Convert an audio file to the 16 kHz mono WAV format used by whisper.
+   * Supports MP3, OGG (Vorbis or Opus), Opus, WebM, FLAC, M4A, AAC, and WAV formats;
+   * WAV files which are already 16 kHz mono pass through.
    *
    * @param audioBinary - The input audio file as an ArrayBuffer
    * @param extension - The file extension (e.g., ".mp3", ".ogg", ".m4a")
+   * @param quality - How carefully to resample audio recorded at other sample rates
    * @returns ArrayBuffer containing the WAV file data
    */
-  async convertToWav(audioBinary: ArrayBuffer, extension: string): Promise<ArrayBuffer> {
+  async convertToWav(
+    audioBinary: ArrayBuffer,
+    extension: string,
+    quality: ResampleQuality = ResampleQuality.HIGH,
+  ): Promise<ArrayBuffer> {
     const normalizedExt = extension.toLowerCase().replace(".", "");
 
-    // If already WAV, return as-is
+    // If already WAV in the right shape (or not a WAV we can read), return as-is
     if (normalizedExt === "wav") {
-      this.logger.log("Audio is already in WAV format, skipping conversion");
-      return audioBinary;
+      const format = readWavFormat(audioBinary);
+
+      if (!format || (format.sampleRate === WHISPER_SAMPLE_RATE && format.numberOfChannels === 1)) {
+        this.logger.log("Audio is already in WAV format, skipping conversion");
+        return audioBinary;
+      }
     }
 
     this.logger.log(
       `Starting local conversion: ${normalizedExt.toUpperCase()} -> WAV (${(audioBinary.byteLength / 1024 / 1024).toFixed(2)} MB)`,
     );
 
-    let audioData: AudioData;
+    let audioData: DecodedAudio;
 
     try {
       switch (normalizedExt) {
+        case "wav":
+          audioData = decodeWav(audioBinary);
+          break;
         case "mp3":
         case "mp2":
         case "mp1":
           audioData = await this.decodeMp3(audioBinary);
           break;
         case "ogg":
-          audioData = await this.decodeOgg(audioBinary);
+          // Messengers (e.g. Telegram) send Opus voice messages with an .ogg extension.
+          audioData = isOggOpus(audioBinary)
+            ? await this.decodeOggOpus(audioBinary)
+            : await this.decodeOgg(audioBinary);
+          break;
+        case "opus":
+          audioData = await this.decodeOggOpus(audioBinary);
+          break;
+        case "webm":
+          // The built-in recorder produces WebM with Opus audio.
+          audioData = await this.decodeWebm(audioBinary);
           break;
         case "flac":
           audioData = await this.decodeFlac(audioBinary);
@@ -62,8 +92,14 @@ export class LocalAudioConverter {
         `Decoded ${normalizedExt.toUpperCase()}: ${audioData.channelData.length} channels, ${audioData.sampleRate} Hz`,
       );
 
+      // Whisper only listens to 16 kHz mono; anything more just makes the upload bigger.
+      const resampled = await toMono(audioData, WHISPER_SAMPLE_RATE, quality);
+      if (resampled !== audioData) {
+        this.logger.log(`Resampled to ${WHISPER_SAMPLE_RATE} Hz mono (${quality} quality)`);
+      }
+
       // Encode to WAV
-      const wavData = await this.encodeToWav(audioData);
+      const wavData = await this.encodeToWav(resampled);
       this.logger.log(`Successfully converted to WAV (${(wavData.byteLength / 1024 / 1024).toFixed(2)} MB)`);
 
       return wavData;
@@ -77,7 +113,7 @@ export class LocalAudioConverter {
   /**
    * Decode MP3 audio to PCM data using mpg123-decoder
    */
-  private async decodeMp3(audioBinary: ArrayBuffer): Promise<AudioData> {
+  private async decodeMp3(audioBinary: ArrayBuffer): Promise<DecodedAudio> {
     const decoder = new MPEGDecoder();
     await decoder.ready;
 
@@ -100,7 +136,7 @@ export class LocalAudioConverter {
   /**
    * Decode OGG Vorbis audio to PCM data using ogg-vorbis decoder
    */
-  private async decodeOgg(audioBinary: ArrayBuffer): Promise<AudioData> {
+  private async decodeOgg(audioBinary: ArrayBuffer): Promise<DecodedAudio> {
     const decoder = new OggVorbisDecoder();
     await decoder.ready;
 
@@ -120,10 +156,61 @@ export class LocalAudioConverter {
     };
   }
 
+  /**
+   * Decode Ogg Opus audio (.opus, and .ogg voice messages) to PCM data using the ogg-opus decoder
+   */
+  private async decodeOggOpus(audioBinary: ArrayBuffer): Promise<DecodedAudio> {
+    const decoder = new OggOpusDecoder();
+    await decoder.ready;
+
+    const uint8Array = new Uint8Array(audioBinary);
+    const result = await decoder.decodeFile(uint8Array);
+
+    // Free decoder resources
+    decoder.free();
+
+    if (!result || !result.channelData || result.channelData.length === 0 || result.samplesDecoded === 0) {
+      throw new Error("Failed to decode Opus: no audio data returned");
+    }
+
+    return {
+      sampleRate: result.sampleRate,
+      channelData: result.channelData,
+    };
+  }
+
+  /**
+   * Decode WebM/Opus audio; the container is demuxed here and the Opus packets handed to the opus decoder
+   */
+  private async decodeWebm(audioBinary: ArrayBuffer): Promise<DecodedAudio> {
+    const { frames, ...options } = demuxWebmOpus(audioBinary);
+
+    if (frames.length === 0) {
+      throw new Error("Failed to decode WebM: no audio frames found");
+    }
+
+    const decoder = new OpusDecoder(options);
+    await decoder.ready;
+
+    const result = decoder.decodeFrames(frames);
+
+    // Free decoder resources
+    decoder.free();
+
+    if (!result || !result.channelData || result.channelData.length === 0 || result.samplesDecoded === 0) {
+      throw new Error("Failed to decode WebM: no audio data returned");
+    }
+
+    return {
+      sampleRate: result.sampleRate,
+      channelData: result.channelData,
+    };
+  }
+
   /**
    * Decode FLAC audio to PCM data using FLAC decoder
    */
-  private async decodeFlac(audioBinary: ArrayBuffer): Promise<AudioData> {
+  private async decodeFlac(audioBinary: ArrayBuffer): Promise<DecodedAudio> {
     const decoder = new FLACDecoder();
     await decoder.ready;
 
@@ -147,7 +234,7 @@ export class LocalAudioConverter {
    * Decode M4A/AAC audio using Web Audio API (native browser support)
    * This leverages the browser's built-in audio codecs, avoiding the need for additional WASM libraries.
    */
-  private async decodeWithWebAudio(audioBinary: ArrayBuffer): Promise<AudioData> {
+  private async decodeWithWebAudio(audioBinary: ArrayBuffer): Promise<DecodedAudio> {
     // Create an offline audio context for decoding
     // We use a dummy sample rate as it will be overridden by the actual audio data
     const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -181,7 +268,7 @@ export class LocalAudioConverter {
   /**
    * Encode PCM audio data to WAV format
    */
-  private async encodeToWav(audioData: AudioData): Promise<ArrayBuffer> {
+  private async encodeToWav(audioData: DecodedAudio): Promise<ArrayBuffer> {
     const wavData = await WavEncoder.encode({
       sampleRate: audioData.sampleRate,
       channelData: audioData.channelData,
@@ -192,9 +279,9 @@ export class LocalAudioConverter {
 }
 
 /**
- * Internal type for decoded audio data
+ * Ogg files can carry Vorbis or Opus; an Opus stream announces itself with an `OpusHead` packet on the first page.
  */
-interface AudioData {
-  sampleRate: number;
-  channelData: Float32Array[];
-}
+const isOggOpus = (audioBinary: ArrayBuffer) => {
+  const firstPage = new Uint8Array(audioBinary, 0, Math.min(audioBinary.byteLength, 64));
+  return String.fromCharCode(...firstPage).includes("OpusHead");
+};
@@ -0,0 +1,60 @@
+import { DecodedAudio } from "types";
+
+/**
+ * A window of audio, in seconds.
+ */
+export type ChunkWindow = {
+  index: number;
+  start: number;
+  end: number;
+};
+
+/**
+ * Plan fixed-length windows over a recording, each overlapping the previous one by `overlap` seconds so
+ * that words falling on a boundary are heard in full by at least one chunk.
+ *
+ * @note
+ * A recording no longer than `chunkLength` (or a `chunkLength` of zero) is returned as a single window.
+ * A trailing window which would add no more than the overlap in new audio is folded into the one before it.
+ */
+export const planChunks = (duration: number, chunkLength: number, overlap: number): ChunkWindow[] => {
+  if (chunkLength <= 0 || duration <= chunkLength) {
+    return [{ index: 0, start: 0, end: duration }];
+  }
+
+  // Overlapping by more than half a window would transcribe most of the audio twice.
+  const clampedOverlap = Math.min(Math.max(overlap, 0), chunkLength / 2);
+  const step = chunkLength - clampedOverlap;
+  const windows: ChunkWindow[] = [];
+
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(start + chunkLength, duration);
+    const isTrailingSliver = windows.length > 0 && end - windows[windows.length - 1].end <= clampedOverlap;
+
+    if (isTrailingSliver) {
+      windows[windows.length - 1].end = end;
+      break;
+    }
+
+    windows.push({ index: windows.length, start, end });
+
+    if (end >= duration) {
+      break;
+    }
+  }
+
+  return windows;
+};
+
+/**
+ * Cut a window out of decoded audio. The samples are views onto the original buffers; nothing is copied.
+ */
+export const sliceAudio = (audio: DecodedAudio, window: ChunkWindow): DecodedAudio => {
+  const from = Math.floor(window.start * audio.sampleRate);
+  const to = Math.ceil(window.end * audio.sampleRate);
+
+  return {
+    sampleRate: audio.sampleRate,
+    channelData: audio.channelData.map((channel) => channel.subarray(from, to)),
+  };
+};
@@ -1,11 +1,16 @@
+import { sha1 } from "hash-wasm";
 import { Notice, Vault } from "obsidian";
 import path from "path";
 import { Settings } from "settings";
-import { FileDetail } from "types";
+import { AudioChunkFile, FileDetail, TrimmedAudioFile } from "types";
+import { buildFilenameContext, renderFilenameTemplate } from "utils/filename";
 import { extractFileDetail, getFileCreationDateTime } from "utils/format";
 import { Logger } from "utils/log";
-import { CACHE_DIRECTORY, CATEGORY_REGEX_LEGACY, FILENAME_DATE_FORMAT, generateCategoryRegex } from "../constants";
+import { AUDIO_FILE_EXTENSIONS, CACHE_DIRECTORY } from "../constants";
 import { LocalAudioConverter } from "./LocalAudioConverter";
+import { planChunks, sliceAudio } from "./chunking";
+import { trimSilence } from "./silence";
+import { decodeWav, encodeWav, getDuration } from "./wav";
 
 export class AudioProcessor {
   private localConverter: LocalAudioConverter;
@@ -28,22 +33,23 @@ export class AudioProcessor {
    * ensuring that with filename changes, we can still determine its status.
    *
    * Audio conversion is now handled locally using WASM decoders for privacy and performance.
+   *
+   * The converted audio is cached in a folder of its own for each original, by its hash; it's reused on retries, but
+   * never for another memo whose name renders the same.
    */
-  public async transformAudio(audioFile: FileDetail): Promise<FileDetail> {
-    // Is this actually an audio file?
-    const validInputExtensions = [".wav", ".mp3", ".m4a", ".aac", ".ogg", ".flac"];
-
-    // For whisper.cpp, we always need WAV format
+  public async transformAudio(audioFile: FileDetail, hash: string): Promise<FileDetail> {
+    // For whisper, we always need WAV format
     const desiredExtension = ".wav";
 
-    if (!audioFile.extension || !validInputExtensions.includes(audioFile.extension)) {
+    // Is this actually an audio file?
+    if (!audioFile.extension || !AUDIO_FILE_EXTENSIONS.includes(audioFile.extension)) {
       throw new Error("Error: Not an audio file or unacceptable format");
     }
 
     // Move file into the processing directory.
     const outputName = await this.cleanAudioFilename(audioFile);
     const outputFilename = `${outputName}${desiredExtension}`;
-    const outputCachedFileDetail = extractFileDetail(path.join(CACHE_DIRECTORY, outputFilename));
+    const outputCachedFileDetail = extractFileDetail(path.join(CACHE_DIRECTORY, hash, outputFilename));
 
     // Check if already processed
     const exists = await this.vault.exists(outputCachedFileDetail.filepath);
@@ -54,57 +60,147 @@ export class AudioProcessor {
 
     const audioBinary = await this.vault.adapter.readBinary(audioFile.filepath);
 
-    // Convert the file to WAV format using local WASM decoders
-    const shouldConvertFile = audioFile.extension !== desiredExtension;
+    // Convert the file to 16 kHz mono WAV using local WASM decoders; WAV files may need resampling too.
+    this.logger.log(`Converting audio file locally: "${audioFile.filename}" to WAV`);
+
+    try {
+      const convertedAudio = await this.localConverter.convertToWav(
+        audioBinary,
+        audioFile.extension,
+        this.settings.resampleQuality,
+      );
+
+      await this.vault.adapter.mkdir(outputCachedFileDetail.directory);
+      await this.vault.adapter.writeBinary(outputCachedFileDetail.filepath, convertedAudio);
+
+      this.logger.log(`Successfully converted "${audioFile.filename}" to WAV`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const userError = `Failed to convert audio file: ${errorMsg}`;
+
+      this.logger.log(userError);
+      new Notice(userError);
+      throw new Error(userError);
+    }
+
+    return outputCachedFileDetail;
+  }
+
+  /**
+   * Write a copy of the processed WAV with long silences removed, when enabled in the settings.
+   * Whisper tends to hallucinate over silence; trimming it also shortens the upload.
+   *
+   * @returns `null` when trimming is disabled or there was no silence worth removing;
+   * the processed audio should then be transcribed as is.
+   */
+  public async removeSilence(processedAudio: FileDetail): Promise<TrimmedAudioFile | null> {
+    if (!this.settings.shouldTrimSilence) {
+      return null;
+    }
 
-    if (shouldConvertFile) {
-      this.logger.log(`Converting audio file locally: "${audioFile.filename}" to WAV`);
+    const audio = decodeWav(await this.vault.adapter.readBinary(processedAudio.filepath));
+    const result = trimSilence(audio, {
+      thresholdDb: this.settings.silenceThresholdDb,
+      minSilenceSeconds: this.settings.minSilenceSeconds,
+      paddingSeconds: this.settings.silencePaddingSeconds,
+    });
 
-      try {
-        const convertedAudio = await this.localConverter.convertToWav(audioBinary, audioFile.extension);
+    if (!result) {
+      return null;
+    }
 
-        await this.vault.adapter.mkdir(outputCachedFileDetail.directory);
-        await this.vault.adapter.writeBinary(outputCachedFileDetail.filepath, convertedAudio);
+    const originalDuration = getDuration(audio);
+    const trimmedDuration = getDuration(result.audio);
+    this.logger.log(
+      `Trimmed ${Math.round(originalDuration - trimmedDuration)}s of silence from "${processedAudio.filename}"`,
+    );
 
-        this.logger.log(`Successfully converted "${audioFile.filename}" to WAV`);
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const userError = `Failed to convert audio file: ${errorMsg}`;
+    const file = extractFileDetail(path.join(processedAudio.directory, `${processedAudio.name}.trimmed.wav`));
+    await this.vault.adapter.writeBinary(file.filepath, await encodeWav(result.audio));
 
-        this.logger.log(userError);
-        new Notice(userError);
-        throw new Error(userError);
+    return { file, timeMap: result.timeMap, originalDuration };
+  }
+
+  public async removeTrimmedAudio(trimmed: TrimmedAudioFile) {
+    if (await this.vault.adapter.exists(trimmed.file.filepath)) {
+      await this.vault.adapter.remove(trimmed.file.filepath);
+    }
+  }
+
+  /**
+   * Split a processed WAV into overlapping windows, as configured in the settings, so that long recordings
+   * are transcribed piece by piece. Each chunk is written next to the processed audio in the cache directory.
+   *
+   * @note
+   * Recordings which fit into a single window are returned as one chunk pointing at the processed file itself.
+   * Chunk files from a previous attempt are reused, but only for the same audio split the same way; they're named
+   * after a hash of both, so neither a change to the chunk settings nor another memo processed under the same name
+   * can be mistaken for them.
+   */
+  public async splitIntoChunks(processedAudio: FileDetail): Promise<AudioChunkFile[]> {
+    const { chunkLengthSeconds, chunkOverlapSeconds } = this.settings;
+    const audioBinary = await this.vault.adapter.readBinary(processedAudio.filepath);
+    const audio = decodeWav(audioBinary);
+    const duration = getDuration(audio);
+
+    const windows = planChunks(duration, chunkLengthSeconds, chunkOverlapSeconds);
+
+    if (windows.length === 1) {
+      return [{ index: 0, start: 0, end: duration, file: processedAudio }];
+    }
+
+    this.logger.log(`Splitting "${processedAudio.filename}" (${Math.round(duration)}s) into ${windows.length} chunks`);
+
+    const audioHash = await sha1(new Uint8Array(audioBinary));
+    const chunkKey = (await sha1(`${audioHash}:${chunkLengthSeconds}:${chunkOverlapSeconds}`)).slice(0, 12);
+    const chunks: AudioChunkFile[] = [];
+
+    for (const window of windows) {
+      const chunkNumber = String(window.index + 1).padStart(3, "0");
+      const file = extractFileDetail(
+        path.join(processedAudio.directory, `${processedAudio.name}.chunk-${chunkKey}-${chunkNumber}.wav`),
+      );
+
+      if (!(await this.vault.adapter.exists(file.filepath))) {
+        await this.vault.adapter.writeBinary(file.filepath, await encodeWav(sliceAudio(audio, window)));
       }
-    } else {
-      // Already WAV, just copy it
-      await this.vault.adapter.mkdir(outputCachedFileDetail.directory);
-      await this.vault.adapter.copy(audioFile.filepath, outputCachedFileDetail.filepath);
-      this.logger.log(`Audio already in WAV format, copied to cache`);
+
+      chunks.push({ ...window, file });
     }
 
-    return outputCachedFileDetail;
+    return chunks;
   }
 
   /**
-   * Formats an audio file name to a standardized format.
-   * @example "AAAA i caught a BIG fish.m4a" -> "20210715-02:02-i-caught-a-big-fish.m4a"
+   * Remove the chunk files written by `splitIntoChunks`; the processed audio itself is left alone.
    */
-  private cleanAudioFilename = async (file: FileDetail) => {
-    const fileBirthTime = await getFileCreationDateTime(file, this.vault.adapter);
+  public async removeChunks(processedAudio: FileDetail, chunks: AudioChunkFile[]) {
+    for (const chunk of chunks) {
+      if (chunk.file.filepath !== processedAudio.filepath && (await this.vault.adapter.exists(chunk.file.filepath))) {
+        await this.vault.adapter.remove(chunk.file.filepath);
+      }
+    }
+  }
 
-    const datetimePrefix = fileBirthTime.toFormat(FILENAME_DATE_FORMAT);
+  /**
+   * Remove the cache folder `transformAudio` converted an original into, along with anything left in it.
+   */
+  public async removeCachedAudio(hash: string) {
+    const directory = path.join(CACHE_DIRECTORY, hash);
 
-    const categoryRegex = generateCategoryRegex(this.settings);
+    if (await this.vault.adapter.exists(directory)) {
+      await this.vault.adapter.rmdir(directory, true);
+    }
+  }
 
-    // The order here is important; do not re-order.
-    const cleanFilename = file.name
-      .replace(categoryRegex, "")
-      .replace(CATEGORY_REGEX_LEGACY, "")
-      .replace(/[\s,]/g, "-")
-      .replace(/[-]{3}/gm, "-")
-      .trim()
-      .toLowerCase();
+  /**
+   * Names the processed audio file from the audio filename template.
+   * @example "AAAA i caught a BIG fish.m4a" -> "20210715-1402-i-caught-a-big-fish"
+   */
+  private cleanAudioFilename = async (file: FileDetail) => {
+    const fileBirthTime = await getFileCreationDateTime(file, this.vault.adapter);
+    const context = buildFilenameContext(file, fileBirthTime, this.settings);
 
-    return `${datetimePrefix}-${cleanFilename}`;
+    return renderFilenameTemplate(this.settings.audioFilenameTemplate, context);
   };
 }
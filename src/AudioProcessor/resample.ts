@@ -0,0 +1,159 @@
+import { DecodedAudio, ResampleQuality } from "types";
+
+/** Zero crossings of the sinc kernel on either side of each output sample */
+const SINC_ZERO_CROSSINGS = 8;
+/** Kernel table entries per zero crossing; values in between are linearly interpolated */
+const SINC_TABLE_RESOLUTION = 512;
+/** Keep the cutoff slightly below Nyquist so the transition band doesn't alias */
+const SINC_CUTOFF = 0.95;
+/** Output samples filtered before handing the thread back, so the app stays responsive; a second at 16 kHz */
+const SINC_BLOCK_LENGTH = 16_000;
+
+/**
+ * Downmix to mono and resample to the requested rate; the format whisper expects.
+ * Audio which already matches is returned untouched.
+ */
+export const toMono = async (
+  audio: DecodedAudio,
+  sampleRate: number,
+  quality: ResampleQuality,
+): Promise<DecodedAudio> => {
+  if (audio.sampleRate === sampleRate && audio.channelData.length === 1) {
+    return audio;
+  }
+
+  const mono = downmix(audio.channelData);
+
+  return {
+    sampleRate,
+    channelData: [await resample(mono, audio.sampleRate, sampleRate, quality)],
+  };
+};
+
+/**
+ * Average all channels into one.
+ */
+export const downmix = (channelData: Float32Array[]): Float32Array => {
+  if (channelData.length === 1) {
+    return channelData[0];
+  }
+
+  const length = Math.min(...channelData.map((channel) => channel.length));
+  const mono = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (const channel of channelData) {
+      sum += channel[i];
+    }
+    mono[i] = sum / channelData.length;
+  }
+
+  return mono;
+};
+
+/**
+ * Convert samples from one rate to another. The output always lasts as long as the input.
+ *
+ * @note
+ * `FAST` linearly interpolates between neighbouring samples, which is quick but lets some high frequencies alias.
+ * `HIGH` uses a windowed-sinc low-pass filter; slower, but what you'd get from a dedicated audio tool. It runs on
+ * the UI thread, so it's filtered a block at a time, yielding in between; long memos would freeze the app otherwise.
+ */
+export const resample = async (
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+  quality: ResampleQuality,
+): Promise<Float32Array> => {
+  if (fromRate === toRate) {
+    return samples;
+  }
+
+  const outputLength = Math.round((samples.length * toRate) / fromRate);
+
+  return quality === ResampleQuality.FAST
+    ? resampleLinear(samples, fromRate / toRate, outputLength)
+    : resampleSinc(samples, fromRate / toRate, outputLength);
+};
+
+const resampleLinear = (samples: Float32Array, step: number, outputLength: number) => {
+  const output = new Float32Array(outputLength);
+  const last = samples.length - 1;
+
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * step;
+    const index = Math.min(Math.floor(position), last);
+    const fraction = position - index;
+
+    output[i] = samples[index] + (samples[Math.min(index + 1, last)] - samples[index]) * fraction;
+  }
+
+  return output;
+};
+
+const resampleSinc = async (samples: Float32Array, step: number, outputLength: number) => {
+  const output = new Float32Array(outputLength);
+  const kernel = getSincTable();
+
+  // When downsampling the filter is stretched, lowering its cutoff to the new Nyquist frequency.
+  const scale = Math.min(1, 1 / step) * SINC_CUTOFF;
+  const halfWidth = SINC_ZERO_CROSSINGS / scale;
+  const last = samples.length - 1;
+
+  for (let i = 0; i < outputLength; i++) {
+    if (i > 0 && i % SINC_BLOCK_LENGTH === 0) {
+      await yieldToEventLoop();
+    }
+
+    const center = i * step;
+    const from = Math.max(0, Math.ceil(center - halfWidth));
+    const to = Math.min(last, Math.floor(center + halfWidth));
+
+    let sum = 0;
+    let weights = 0;
+
+    for (let j = from; j <= to; j++) {
+      const tablePosition = Math.abs(center - j) * scale * SINC_TABLE_RESOLUTION;
+      const tableIndex = Math.floor(tablePosition);
+      const weight = kernel[tableIndex] + (kernel[tableIndex + 1] - kernel[tableIndex]) * (tablePosition - tableIndex);
+
+      sum += samples[j] * weight;
+      weights += weight;
+    }
+
+    // Normalizing by the summed weights keeps unity gain, including at the edges where the kernel is cut off.
+    output[i] = weights !== 0 ? sum / weights : 0;
+  }
+
+  return output;
+};
+
+const yieldToEventLoop = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+let sincTable: Float32Array | null = null;
+
+/**
+ * A Blackman-windowed sinc, sampled from 0 to `SINC_ZERO_CROSSINGS`; the kernel is symmetric.
+ */
+const getSincTable = () => {
+  if (sincTable) {
+    return sincTable;
+  }
+
+  const size = SINC_ZERO_CROSSINGS * SINC_TABLE_RESOLUTION;
+  sincTable = new Float32Array(size + 2);
+
+  for (let i = 0; i <= size; i++) {
+    const x = i / SINC_TABLE_RESOLUTION;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window =
+      0.42 +
+      0.5 * Math.cos((Math.PI * x) / SINC_ZERO_CROSSINGS) +
+      0.08 * Math.cos((2 * Math.PI * x) / SINC_ZERO_CROSSINGS);
+
+    sincTable[i] = sinc * window;
+  }
+
+  return sincTable;
+};
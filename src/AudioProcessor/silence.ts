@@ -0,0 +1,159 @@
+import { DecodedAudio, TimeMap, TranscriptionResponse } from "types";
+
+/** Audio is measured in frames of this length when looking for silence */
+const FRAME_SECONDS = 0.03;
+
+export type SilenceTrimOptions = {
+  /** Frames quieter than this (in dBFS) count as silence */
+  thresholdDb: number;
+  /** Only silences at least this long (in seconds) are trimmed */
+  minSilenceSeconds: number;
+  /** Silence kept either side of speech (in seconds), so words aren't clipped */
+  paddingSeconds: number;
+};
+
+export type SilenceTrimResult = {
+  audio: DecodedAudio;
+  timeMap: TimeMap;
+};
+
+/**
+ * Cut long silent stretches out of mono audio, keeping a little padding around the speech either side.
+ * Whisper tends to hallucinate text over silence, and there is no sense in uploading it.
+ *
+ * @returns The trimmed audio and a time map from the trimmed audio back to the original,
+ * or `null` when there was nothing worth trimming (or nothing but silence).
+ */
+export const trimSilence = (audio: DecodedAudio, options: SilenceTrimOptions): SilenceTrimResult | null => {
+  const samples = audio.channelData[0];
+  const { sampleRate } = audio;
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const frameCount = Math.ceil(samples.length / frameLength);
+
+  const voiced = Array.from({ length: frameCount }, (_, frame) =>
+    isVoiced(samples.subarray(frame * frameLength, (frame + 1) * frameLength), options.thresholdDb),
+  );
+
+  if (!voiced.includes(true)) {
+    return null;
+  }
+
+  const minSilenceFrames = Math.ceil(options.minSilenceSeconds / FRAME_SECONDS);
+  const padding = Math.round(options.paddingSeconds * sampleRate);
+  const cuts: Array<[number, number]> = [];
+
+  // Find each run of silent frames which is long enough to trim.
+  for (let frame = 0; frame < frameCount;) {
+    if (voiced[frame]) {
+      frame++;
+      continue;
+    }
+
+    const runStart = frame;
+    while (frame < frameCount && !voiced[frame]) {
+      frame++;
+    }
+
+    if (frame - runStart >= minSilenceFrames) {
+      // Leading and trailing silence only needs padding on the side with speech.
+      const from = runStart === 0 ? 0 : runStart * frameLength + padding;
+      const to = frame === frameCount ? samples.length : frame * frameLength - padding;
+
+      if (to > from) {
+        cuts.push([from, Math.min(to, samples.length)]);
+      }
+    }
+  }
+
+  if (cuts.length === 0) {
+    return null;
+  }
+
+  // Everything between the cuts is kept.
+  const kept: Array<[number, number]> = [];
+  let position = 0;
+
+  cuts.forEach(([from, to]) => {
+    if (from > position) {
+      kept.push([position, from]);
+    }
+    position = to;
+  });
+
+  if (position < samples.length) {
+    kept.push([position, samples.length]);
+  }
+
+  const trimmed = new Float32Array(kept.reduce((sum, [from, to]) => sum + (to - from), 0));
+  const timeMap: TimeMap = [];
+  let offset = 0;
+
+  kept.forEach(([from, to]) => {
+    trimmed.set(samples.subarray(from, to), offset);
+    timeMap.push({
+      trimmedStart: offset / sampleRate,
+      originalStart: from / sampleRate,
+      duration: (to - from) / sampleRate,
+    });
+
+    offset += to - from;
+  });
+
+  return { audio: { sampleRate, channelData: [trimmed] }, timeMap };
+};
+
+/**
+ * Convert a time in the trimmed audio back to the matching time in the original recording.
+ * An end which falls exactly where silence was cut belongs to the stretch before it, not after the silence.
+ */
+export const toOriginalTime = (time: number, timeMap: TimeMap, isEnd = false): number => {
+  const entry = timeMap.find((item, i) => {
+    const end = item.trimmedStart + item.duration;
+
+    return (isEnd ? time <= end : time < end) || i === timeMap.length - 1;
+  });
+
+  if (!entry) {
+    return time;
+  }
+
+  return entry.originalStart + Math.max(0, time - entry.trimmedStart);
+};
+
+/**
+ * Shift every segment and word timestamp back onto the original recording's timeline.
+ */
+export const restoreOriginalTimestamps = (
+  response: TranscriptionResponse,
+  timeMap: TimeMap,
+  originalDuration: number,
+): TranscriptionResponse => {
+  return {
+    ...response,
+    duration: originalDuration,
+    segments: response.segments.map((segment) => ({
+      ...segment,
+      start: toOriginalTime(segment.start, timeMap),
+      end: toOriginalTime(segment.end, timeMap, true),
+      ...(segment.words && {
+        words: segment.words.map((word) => ({
+          ...word,
+          start: toOriginalTime(word.start, timeMap),
+          end: toOriginalTime(word.end, timeMap, true),
+        })),
+      }),
+    })),
+  };
+};
+
+const isVoiced = (frame: Float32Array, thresholdDb: number) => {
+  let sumOfSquares = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sumOfSquares += frame[i] * frame[i];
+  }
+
+  const rms = Math.sqrt(sumOfSquares / frame.length);
+  const decibels = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+
+  return decibels > thresholdDb;
+};
@@ -0,0 +1,148 @@
+import { DecodedAudio } from "types";
+import * as WavEncoder from "wav-encoder";
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+type WavFormat = {
+  formatId: number;
+  numberOfChannels: number;
+  sampleRate: number;
+  bitDepth: number;
+};
+
+/**
+ * Decode a RIFF/WAVE file into PCM samples.
+ * Supports 8, 16, 24 and 32 bit integer PCM as well as 32 bit float; which covers
+ * everything produced by `wav-encoder` and the common recorders.
+ */
+export const decodeWav = (buffer: ArrayBuffer): DecodedAudio => {
+  const view = new DataView(buffer);
+  const { format, dataStart, dataSize } = parseWav(view);
+
+  return readSamples(view, dataStart, dataSize, format);
+};
+
+/**
+ * Read just the format of a WAV file, without decoding its samples.
+ * @returns `null` when the buffer is not a readable WAV file.
+ */
+export const readWavFormat = (buffer: ArrayBuffer): WavFormat | null => {
+  try {
+    return parseWav(new DataView(buffer)).format;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Encode PCM samples as a 16 bit WAV file.
+ */
+export const encodeWav = (audio: DecodedAudio): Promise<ArrayBuffer> => {
+  return WavEncoder.encode({ sampleRate: audio.sampleRate, channelData: audio.channelData });
+};
+
+/**
+ * The length of the audio in seconds.
+ */
+export const getDuration = (audio: DecodedAudio) => {
+  return (audio.channelData[0]?.length ?? 0) / audio.sampleRate;
+};
+
+const parseWav = (view: DataView) => {
+  if (view.byteLength < 12 || readFourCC(view, 0) !== "RIFF" || readFourCC(view, 8) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+
+  // Walk the chunks until we reach the sample data; the `fmt ` chunk always comes first.
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readFourCC(view, offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const chunkStart = offset + 8;
+
+    if (chunkId === "fmt ") {
+      const formatId = view.getUint16(chunkStart, true);
+
+      format = {
+        // The extensible format stores the real format in the first two bytes of its sub-format GUID.
+        formatId: formatId === WAVE_FORMAT_EXTENSIBLE ? view.getUint16(chunkStart + 24, true) : formatId,
+        numberOfChannels: view.getUint16(chunkStart + 2, true),
+        sampleRate: view.getUint32(chunkStart + 4, true),
+        bitDepth: view.getUint16(chunkStart + 14, true),
+      };
+    }
+
+    if (chunkId === "data") {
+      if (!format) {
+        throw new Error("WAV file is missing its format chunk");
+      }
+
+      // Recorders which were interrupted can leave a size larger than the file itself.
+      return { format, dataStart: chunkStart, dataSize: Math.min(chunkSize, view.byteLength - chunkStart) };
+    }
+
+    // Chunks are padded to an even number of bytes.
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error("WAV file contains no audio data");
+};
+
+const readSamples = (view: DataView, start: number, size: number, format: WavFormat): DecodedAudio => {
+  const { formatId, numberOfChannels, sampleRate, bitDepth } = format;
+  const bytesPerSample = bitDepth / 8;
+  const isFloat = formatId === WAVE_FORMAT_IEEE_FLOAT;
+
+  if (
+    (formatId !== WAVE_FORMAT_PCM && !isFloat) ||
+    (isFloat && bitDepth !== 32) ||
+    ![8, 16, 24, 32].includes(bitDepth)
+  ) {
+    throw new Error(`Unsupported WAV encoding: format ${formatId}, ${bitDepth} bit`);
+  }
+
+  const length = Math.floor(size / (bytesPerSample * numberOfChannels));
+  const channelData = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const position = start + (i * numberOfChannels + channel) * bytesPerSample;
+      channelData[channel][i] = readSample(view, position, bitDepth, isFloat);
+    }
+  }
+
+  return { sampleRate, channelData };
+};
+
+const readSample = (view: DataView, position: number, bitDepth: number, isFloat: boolean) => {
+  if (isFloat) {
+    return view.getFloat32(position, true);
+  }
+
+  switch (bitDepth) {
+    case 8:
+      // 8 bit WAV is the only unsigned format.
+      return (view.getUint8(position) - 128) / 128;
+    case 16:
+      return view.getInt16(position, true) / 32768;
+    case 24: {
+      const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(position, true) / 2147483648;
+  }
+};
+
+const readFourCC = (view: DataView, offset: number) => {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+};
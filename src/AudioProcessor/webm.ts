@@ -0,0 +1,280 @@
+/**
+ * Element IDs we care about; see https://www.matroska.org/technical/elements.html
+ */
+const EBML_ID = {
+  SEGMENT: 0x18538067,
+  CLUSTER: 0x1f43b675,
+  TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae,
+  TRACK_NUMBER: 0xd7,
+  CODEC_ID: 0x86,
+  CODEC_PRIVATE: 0x63a2,
+  AUDIO: 0xe1,
+  CHANNELS: 0x9f,
+  BLOCK_GROUP: 0xa0,
+  BLOCK: 0xa1,
+  SIMPLE_BLOCK: 0xa3,
+};
+
+/** Elements whose children we step into rather than skip over */
+const MASTER_ELEMENTS = new Set([
+  EBML_ID.SEGMENT,
+  EBML_ID.CLUSTER,
+  EBML_ID.TRACKS,
+  EBML_ID.TRACK_ENTRY,
+  EBML_ID.AUDIO,
+  EBML_ID.BLOCK_GROUP,
+]);
+
+const OPUS_CODEC_ID = "A_OPUS";
+
+/**
+ * The Opus stream of a WebM file; everything needed to configure an Opus decoder.
+ */
+export type WebmOpusStream = {
+  channels: number;
+  /** Samples (at 48 kHz) to discard from the start of the decoded audio */
+  preSkip: number;
+  streamCount?: number;
+  coupledStreamCount?: number;
+  channelMappingTable?: number[];
+  frames: Uint8Array[];
+};
+
+type WebmTrack = {
+  number: number;
+  codecId: string;
+  codecPrivate: Uint8Array | null;
+  channels: number;
+};
+
+/**
+ * Pull the Opus packets out of a WebM (Matroska) file, such as those written by `MediaRecorder`.
+ *
+ * @note
+ * Elements are read in a single flat pass, stepping into container elements instead of measuring them.
+ * This copes with the "unknown size" segments and clusters which `MediaRecorder` streams out,
+ * and with files that were cut off mid-recording.
+ */
+export const demuxWebmOpus = (buffer: ArrayBuffer): WebmOpusStream => {
+  const bytes = new Uint8Array(buffer);
+  const tracks: WebmTrack[] = [];
+  const blocks: Uint8Array[] = [];
+
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = id && readVint(bytes, offset + id.length);
+
+    if (!id || !size) {
+      break;
+    }
+
+    const dataStart = offset + id.length + size.length;
+    const isTruncated = size.isUnknown || dataStart + size.value > bytes.length;
+    const dataEnd = isTruncated ? bytes.length : dataStart + size.value;
+
+    if (MASTER_ELEMENTS.has(id.value)) {
+      if (id.value === EBML_ID.TRACK_ENTRY) {
+        tracks.push({ number: 0, codecId: "", codecPrivate: null, channels: 1 });
+      }
+
+      offset = dataStart;
+      continue;
+    }
+
+    const data = bytes.subarray(dataStart, dataEnd);
+    const track = tracks[tracks.length - 1];
+
+    if (id.value === EBML_ID.SIMPLE_BLOCK || id.value === EBML_ID.BLOCK) {
+      // A block cut off by the end of the file can't be decoded.
+      if (!isTruncated) {
+        blocks.push(data);
+      }
+    } else if (track) {
+      readTrackElement(track, id.value, data);
+    }
+
+    offset = dataEnd;
+  }
+
+  const opusTrack = tracks.find((track) => track.codecId === OPUS_CODEC_ID);
+
+  if (!opusTrack) {
+    throw new Error("WebM file does not contain an Opus audio track");
+  }
+
+  const frames = blocks.flatMap((block) => readBlockFrames(block, opusTrack.number));
+
+  return { ...readOpusHead(opusTrack), frames };
+};
+
+const readTrackElement = (track: WebmTrack, id: number, data: Uint8Array) => {
+  switch (id) {
+    case EBML_ID.TRACK_NUMBER:
+      track.number = readUint(data);
+      break;
+    case EBML_ID.CODEC_ID:
+      track.codecId = String.fromCharCode(...data).replace(/\0+$/, "");
+      break;
+    case EBML_ID.CODEC_PRIVATE:
+      track.codecPrivate = data;
+      break;
+    case EBML_ID.CHANNELS:
+      track.channels = readUint(data);
+      break;
+  }
+};
+
+/**
+ * Read the frames from a (Simple)Block, if it belongs to the given track.
+ */
+const readBlockFrames = (block: Uint8Array, trackNumber: number): Uint8Array[] => {
+  const track = readVint(block, 0);
+
+  if (!track || track.value !== trackNumber) {
+    return [];
+  }
+
+  // Track number, then a 16 bit relative timecode, then the flags.
+  const flagsOffset = track.length + 2;
+  const lacing = (block[flagsOffset] >> 1) & 0x03;
+  const payload = block.subarray(flagsOffset + 1);
+
+  switch (lacing) {
+    case 0:
+      return [payload];
+    case 1:
+      return readXiphLacedFrames(payload);
+    case 2:
+      return readFixedLacedFrames(payload);
+    default:
+      return readEbmlLacedFrames(payload);
+  }
+};
+
+const readXiphLacedFrames = (payload: Uint8Array) => {
+  const frameCount = payload[0] + 1;
+  const sizes: number[] = [];
+  let offset = 1;
+
+  for (let i = 0; i < frameCount - 1; i++) {
+    let frameSize = 0;
+    while (payload[offset] === 0xff) {
+      frameSize += 0xff;
+      offset++;
+    }
+    sizes.push(frameSize + payload[offset++]);
+  }
+
+  return splitFrames(payload, offset, sizes);
+};
+
+const readFixedLacedFrames = (payload: Uint8Array) => {
+  const frameCount = payload[0] + 1;
+  const frameSize = (payload.length - 1) / frameCount;
+
+  return splitFrames(payload, 1, Array(frameCount - 1).fill(frameSize));
+};
+
+const readEbmlLacedFrames = (payload: Uint8Array) => {
+  const frameCount = payload[0] + 1;
+  const first = readVint(payload, 1);
+
+  if (!first) {
+    return [];
+  }
+
+  const sizes = [first.value];
+  let offset = 1 + first.length;
+
+  // Following sizes are stored as signed differences from the previous size.
+  for (let i = 1; i < frameCount - 1; i++) {
+    const difference = readVint(payload, offset);
+    if (!difference) {
+      return [];
+    }
+
+    const bias = 2 ** (7 * difference.length - 1) - 1;
+    sizes.push(sizes[i - 1] + difference.value - bias);
+    offset += difference.length;
+  }
+
+  return splitFrames(payload, offset, sizes);
+};
+
+/**
+ * Split laced frames; the last frame takes whatever is left.
+ */
+const splitFrames = (payload: Uint8Array, offset: number, sizes: number[]) => {
+  const frames: Uint8Array[] = [];
+
+  sizes.forEach((size) => {
+    frames.push(payload.subarray(offset, offset + size));
+    offset += size;
+  });
+
+  frames.push(payload.subarray(offset));
+  return frames;
+};
+
+/**
+ * Decoder settings from the track's `OpusHead`; https://www.rfc-editor.org/rfc/rfc7845#section-5.1
+ */
+const readOpusHead = (track: WebmTrack): Omit<WebmOpusStream, "frames"> => {
+  const head = track.codecPrivate;
+
+  if (!head || head.length < 19 || String.fromCharCode(...head.subarray(0, 8)) !== "OpusHead") {
+    return { channels: track.channels, preSkip: 0 };
+  }
+
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const channels = head[9];
+  const preSkip = view.getUint16(10, true);
+  const mappingFamily = head[18];
+
+  if (mappingFamily === 0 || head.length < 21 + channels) {
+    return { channels, preSkip };
+  }
+
+  return {
+    channels,
+    preSkip,
+    streamCount: head[19],
+    coupledStreamCount: head[20],
+    channelMappingTable: Array.from(head.subarray(21, 21 + channels)),
+  };
+};
+
+/**
+ * Read an EBML variable length integer. Element IDs keep their length marker; sizes and numbers drop it.
+ * A size with every bit set means "unknown"; the element runs until its parent ends.
+ * @returns `null` when the integer runs past the end of the data.
+ */
+const readVint = (bytes: Uint8Array, offset: number, keepMarker = false) => {
+  const first = bytes[offset];
+
+  if (first === undefined || first === 0) {
+    return null;
+  }
+
+  const length = Math.clz32(first) - 23;
+
+  if (offset + length > bytes.length) {
+    return null;
+  }
+
+  const firstValue = first & (0xff >> length);
+  let value = keepMarker ? first : firstValue;
+  let isUnknown = firstValue === 0xff >> length;
+
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    isUnknown = isUnknown && bytes[offset + i] === 0xff;
+  }
+
+  return { length, value, isUnknown };
+};
+
+const readUint = (data: Uint8Array) => data.reduce((value, byte) => value * 256 + byte, 0);
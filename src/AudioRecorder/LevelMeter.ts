@@ -0,0 +1,89 @@
+/** Input quieter than this (in dBFS) counts as silence; a working microphone picks up more than this from a quiet room */
+const SILENCE_THRESHOLD_DB = -55;
+const ANALYSER_FFT_SIZE = 2048;
+
+/**
+ * How loud the microphone is, and whether it has gone quiet for suspiciously long.
+ */
+export type InputLevel = {
+  /** Loudness of the latest moment of input, in dBFS */
+  levelDb: number;
+  /** How long the input has been continuously silent, in seconds */
+  silentSeconds: number;
+  /** The input has been silent for longer than the warning period */
+  isSilent: boolean;
+};
+
+export const INITIAL_INPUT_LEVEL: InputLevel = { levelDb: -Infinity, silentSeconds: 0, isSilent: false };
+
+/**
+ * Measures the level of a microphone stream with an `AnalyserNode`, without touching the recording itself.
+ *
+ * @note
+ * The meter has no timer of its own; the recorder samples it while recording, so pauses don't count as silence.
+ */
+export class LevelMeter {
+  private readonly context: AudioContext;
+  private readonly source: MediaStreamAudioSourceNode;
+  private readonly analyser: AnalyserNode;
+  private readonly samples: Float32Array;
+
+  private silentSince: number | null = null;
+
+  /**
+   * @param silenceWarningSeconds Warn after this long without sound; 0 never warns.
+   * @param createContext Makes the audio context to analyse in; swapped out in tests.
+   */
+  constructor(
+    stream: MediaStream,
+    private readonly silenceWarningSeconds: number,
+    createContext: () => AudioContext = () => new AudioContext(),
+  ) {
+    this.context = createContext();
+    this.source = this.context.createMediaStreamSource(stream);
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = ANALYSER_FFT_SIZE;
+    this.samples = new Float32Array(this.analyser.fftSize);
+
+    // The analyser is a dead end; nothing is played back through the speakers.
+    this.source.connect(this.analyser);
+  }
+
+  /**
+   * Measure the input as it is right now.
+   */
+  public sample(now = Date.now()): InputLevel {
+    this.analyser.getFloatTimeDomainData(this.samples);
+
+    let sumOfSquares = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      sumOfSquares += this.samples[i] * this.samples[i];
+    }
+
+    const rms = Math.sqrt(sumOfSquares / this.samples.length);
+    const levelDb = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+
+    if (levelDb > SILENCE_THRESHOLD_DB) {
+      this.silentSince = null;
+    } else if (this.silentSince === null) {
+      this.silentSince = now;
+    }
+
+    const silentSeconds = this.silentSince === null ? 0 : (now - this.silentSince) / 1000;
+    const isSilent = this.silenceWarningSeconds > 0 && silentSeconds >= this.silenceWarningSeconds;
+
+    return { levelDb, silentSeconds, isSilent };
+  }
+
+  /**
+   * Forget how long the input has been silent; such as when a paused recording resumes.
+   */
+  public reset() {
+    this.silentSince = null;
+  }
+
+  public close() {
+    this.source.disconnect();
+    this.context.close();
+  }
+}
@@ -0,0 +1,167 @@
+import { DataAdapter } from "obsidian";
+import { RecordingMarker } from "types";
+
+const MANIFEST_FILENAME = "recording.json";
+const MARKERS_FILENAME = "markers.json";
+const PART_EXTENSION = ".part";
+
+type PartialRecordingManifest = {
+  startedAt: number;
+  mimeType: string;
+};
+
+/**
+ * A recording whose data reached the disk but which was never saved; usually left behind by a crash.
+ */
+export type PartialRecording = PartialRecordingManifest & {
+  id: string;
+  /** Part files in the order they were recorded */
+  parts: string[];
+  markers: RecordingMarker[];
+};
+
+/**
+ * Streams a recording to the cache as it happens, one part file per `MediaRecorder` timeslice,
+ * so that a crash or a closed pane doesn't lose it.
+ *
+ * @note
+ * The vault adapter can't append binary data, so each slice is written as its own part rather than
+ * rewriting an ever growing file. `MediaRecorder` slices are consecutive pieces of one WebM stream;
+ * concatenated in order they make up the whole recording.
+ */
+export class PartialRecordingStore {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly adapter: DataAdapter,
+    private readonly directory: string,
+  ) {}
+
+  /**
+   * Make room for a new recording, recording when it started so it can be named on recovery.
+   */
+  public begin(id: string, manifest: PartialRecordingManifest): Promise<void> {
+    return this.enqueue(async () => {
+      await this.adapter.mkdir(this.getRecordingDirectory(id));
+      await this.adapter.write(this.getManifestPath(id), JSON.stringify(manifest));
+    });
+  }
+
+  /**
+   * Write the next slice of a recording. Writes are chained so parts land in order,
+   * and a `flush` straight afterwards waits for this one.
+   */
+  public appendPart(id: string, index: number, data: Blob): Promise<void> {
+    const partName = `${String(index).padStart(5, "0")}${PART_EXTENSION}`;
+    const partPath = `${this.getRecordingDirectory(id)}/${partName}`;
+
+    return this.enqueue(async () => this.adapter.writeBinary(partPath, await data.arrayBuffer()));
+  }
+
+  /**
+   * Keep the markers dropped so far, so they are recovered along with the audio.
+   */
+  public saveMarkers(id: string, markers: RecordingMarker[]): Promise<void> {
+    return this.enqueue(() => this.adapter.write(this.getMarkersPath(id), JSON.stringify(markers)));
+  }
+
+  /**
+   * Wait for every write queued so far to reach the disk.
+   */
+  public flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  /**
+   * Find recordings left behind by a previous session.
+   */
+  public async list(): Promise<PartialRecording[]> {
+    if (!(await this.adapter.exists(this.directory))) {
+      return [];
+    }
+
+    const { folders } = await this.adapter.list(this.directory);
+    const recordings: PartialRecording[] = [];
+
+    for (const folder of folders) {
+      const id = folder.split("/").pop() ?? folder;
+      const { files } = await this.adapter.list(folder);
+      const parts = files.filter((file) => file.endsWith(PART_EXTENSION)).sort();
+
+      // Nothing was captured before the app went away; there is nothing to recover.
+      if (parts.length === 0) {
+        await this.remove(id);
+        continue;
+      }
+
+      recordings.push({ id, ...(await this.readManifest(id)), parts, markers: await this.readMarkers(id) });
+    }
+
+    return recordings.sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  /**
+   * Join a recording's parts back into a single file.
+   */
+  public async read(recording: PartialRecording): Promise<ArrayBuffer> {
+    const parts = await Promise.all(recording.parts.map((part) => this.adapter.readBinary(part)));
+    const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+
+    let offset = 0;
+    parts.forEach((part) => {
+      joined.set(new Uint8Array(part), offset);
+      offset += part.byteLength;
+    });
+
+    return joined.buffer;
+  }
+
+  public async remove(id: string): Promise<void> {
+    await this.flush();
+
+    const directory = this.getRecordingDirectory(id);
+    if (await this.adapter.exists(directory)) {
+      await this.adapter.rmdir(directory, true);
+    }
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.pendingWrite = this.pendingWrite
+      .then(write)
+      .catch((error) => console.warn(`[PartialRecordingStore] Failed to write to ${this.directory}:`, error));
+
+    return this.pendingWrite;
+  }
+
+  private async readManifest(id: string): Promise<PartialRecordingManifest> {
+    const fallback = { startedAt: Date.now(), mimeType: "" };
+
+    try {
+      const raw = await this.adapter.read(this.getManifestPath(id));
+      return { ...fallback, ...JSON.parse(raw) };
+    } catch {
+      return fallback;
+    }
+  }
+
+  private async readMarkers(id: string): Promise<RecordingMarker[]> {
+    try {
+      const markersPath = this.getMarkersPath(id);
+      return (await this.adapter.exists(markersPath)) ? JSON.parse(await this.adapter.read(markersPath)) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private getRecordingDirectory(id: string) {
+    return `${this.directory}/${id}`;
+  }
+
+  private getManifestPath(id: string) {
+    return `${this.getRecordingDirectory(id)}/${MANIFEST_FILENAME}`;
+  }
+
+  private getMarkersPath(id: string) {
+    return `${this.getRecordingDirectory(id)}/${MARKERS_FILENAME}`;
+  }
+}
@@ -0,0 +1,142 @@
+import { DecodedAudio } from "types";
+import { WHISPER_SAMPLE_RATE } from "../constants";
+
+/** Samples handed over by the audio graph at a time; about a quarter of a second at 16 kHz */
+const CAPTURE_BUFFER_SIZE = 4096;
+
+/**
+ * A stretch of the recording's raw audio, for transcribing while still recording.
+ */
+export type PcmWindow = {
+  /** Counts up from 0 for each window of a recording */
+  index: number;
+  /** Seconds into the captured audio where the window starts */
+  start: number;
+  audio: DecodedAudio;
+  /** The window is full; the next window starts where this one ends and it won't change again */
+  isComplete: boolean;
+};
+
+/**
+ * Collects captured samples into consecutive windows of a fixed length.
+ *
+ * @note
+ * The current window can be taken at any time while it grows; each take returns everything from the start
+ * of the window so far, so its transcript can be replaced as more is said. Once full, it is taken one last
+ * time as complete and the next window begins.
+ */
+export class PcmWindowBuffer {
+  private readonly windowLength: number;
+  private chunks: Float32Array[] = [];
+  private length = 0;
+  private index = 0;
+  private isTaken = true;
+
+  constructor(
+    private readonly sampleRate: number,
+    windowSeconds: number,
+  ) {
+    this.windowLength = Math.round(sampleRate * windowSeconds);
+  }
+
+  public append(samples: Float32Array) {
+    // The audio graph reuses its buffers, so keep a copy.
+    this.chunks.push(samples.slice());
+    this.length += samples.length;
+    this.isTaken = false;
+  }
+
+  /**
+   * The current window as recorded so far.
+   * @returns `null` when nothing new has been captured since the last take.
+   */
+  public take(): PcmWindow | null {
+    if (this.isTaken) {
+      return null;
+    }
+
+    const samples = this.join();
+    const isComplete = samples.length >= this.windowLength;
+    const window: PcmWindow = {
+      index: this.index,
+      start: (this.index * this.windowLength) / this.sampleRate,
+      audio: { sampleRate: this.sampleRate, channelData: [samples.slice(0, this.windowLength)] },
+      isComplete,
+    };
+
+    if (isComplete) {
+      // Whatever spilled past the end of this window begins the next one.
+      const overflow = samples.slice(this.windowLength);
+      this.chunks = overflow.length > 0 ? [overflow] : [];
+      this.length = overflow.length;
+      this.index += 1;
+      this.isTaken = overflow.length === 0;
+    } else {
+      this.chunks = [samples];
+      this.isTaken = true;
+    }
+
+    return window;
+  }
+
+  private join() {
+    if (this.chunks.length === 1) {
+      return this.chunks[0];
+    }
+
+    const samples = new Float32Array(this.length);
+    let offset = 0;
+
+    this.chunks.forEach((chunk) => {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    });
+
+    return samples;
+  }
+}
+
+/**
+ * Taps the raw samples of a microphone stream, alongside the `MediaRecorder` which encodes it.
+ * The audio is captured at the rate whisper listens to, so windows can be sent off as they are.
+ */
+export class PcmCapture {
+  private readonly context: AudioContext;
+  private readonly source: MediaStreamAudioSourceNode;
+  private readonly processor: ScriptProcessorNode;
+  public readonly buffer: PcmWindowBuffer;
+
+  /**
+   * @param isCapturing Whether to keep the samples coming in right now; a paused recording shouldn't be transcribed.
+   * @param createContext Makes the audio context to capture in; swapped out in tests.
+   */
+  constructor(
+    stream: MediaStream,
+    windowSeconds: number,
+    private readonly isCapturing: () => boolean,
+    createContext: () => AudioContext = () => new AudioContext({ sampleRate: WHISPER_SAMPLE_RATE }),
+  ) {
+    this.context = createContext();
+    this.buffer = new PcmWindowBuffer(this.context.sampleRate, windowSeconds);
+    this.source = this.context.createMediaStreamSource(stream);
+
+    // `ScriptProcessorNode` is deprecated in favour of worklets, but needs no separate module to load.
+    this.processor = this.context.createScriptProcessor(CAPTURE_BUFFER_SIZE, 1, 1);
+    this.processor.onaudioprocess = (event) => {
+      if (this.isCapturing()) {
+        this.buffer.append(event.inputBuffer.getChannelData(0));
+      }
+    };
+
+    // The processor only runs while connected to an output; it writes nothing, so nothing is heard.
+    this.source.connect(this.processor);
+    this.processor.connect(this.context.destination);
+  }
+
+  public close() {
+    this.processor.onaudioprocess = null;
+    this.source.disconnect();
+    this.processor.disconnect();
+    this.context.close();
+  }
+}
@@ -1,5 +1,27 @@
 import { randomUUID } from "crypto";
-import { AudioChunk } from "types";
+import { Notice, Vault } from "obsidian";
+import { AudioChunk, RecordingDetails, RecordingMarker, RecordingMarkerType } from "types";
+import { extractFileDetail } from "utils/format";
+import { PARTIAL_RECORDINGS_DIRECTORY } from "../constants";
+import { INITIAL_INPUT_LEVEL, InputLevel, LevelMeter } from "./LevelMeter";
+import { PartialRecordingStore } from "./PartialRecordingStore";
+import { PcmCapture, PcmWindow } from "./PcmCapture";
+
+/** `MediaRecorder` writes Opus audio into a WebM container */
+const RECORDING_MIME_TYPE = "audio/webm;codecs=opus";
+export const RECORDING_EXTENSION = ".webm";
+
+/** How often `MediaRecorder` hands over its data, which is then written to disk */
+const RECORDING_TIMESLICE_MS = 5_000;
+const LIMIT_CHECK_INTERVAL_MS = 1_000;
+const LEVEL_SAMPLE_INTERVAL_MS = 100;
+
+/** Live transcription works on windows of this length; the same window whisper itself transcribes in */
+const LIVE_WINDOW_SECONDS = 30;
+/** How often the window being recorded is handed over for live transcription */
+const LIVE_WINDOW_INTERVAL_MS = 5_000;
+
+export const DEFAULT_RECORDING_DETAILS: RecordingDetails = { title: "", categoryKey: null, importance: 1 };
 
 type RecordingState = "idle" | "recording" | "paused";
 
@@ -12,11 +34,57 @@ type AudioData = {
    * The timestamp of the start of the current chunk
    */
   currentChunkStart: number | null;
+
+  /**
+   * How much of the recording has been written to the cache so far, in bytes
+   */
+  bytesPersisted: number;
+
+  /**
+   * Moments flagged while recording, in seconds from the start of the file
+   */
+  markers: RecordingMarker[];
 };
 
 export type AudioRecorderState = {
   recordingState: RecordingState;
   audio: AudioData;
+  details: RecordingDetails;
+  input: InputLevel;
+
+  /**
+   * When the first part of the recording started; split recordings share it
+   */
+  startedAt: number | null;
+
+  /**
+   * Which file of a split recording is being recorded, counting from 1
+   */
+  part: number;
+};
+
+/**
+ * Options for a recording.
+ */
+export type RecordingOptions = {
+  /** `onLimitReached` is called once the current file is this long; 0 for no limit */
+  maxDurationSeconds: number;
+  onLimitReached: () => void;
+  /** Warn when the microphone has picked up nothing for this long; 0 never warns */
+  silenceWarningSeconds: number;
+  /** Called every few seconds with the raw audio of the window being recorded, for live transcription */
+  onPcmWindow?: (window: PcmWindow) => void;
+};
+
+/**
+ * A finished file of a recording.
+ */
+export type RecordedFile = {
+  blob: Blob;
+  /** The id its on-disk copy is kept under, until it has been saved */
+  recordingId: string;
+  part: number;
+  markers: RecordingMarker[];
 };
 
 type StateSubscriberMap = Record<string, (state: AudioRecorderState) => void>;
@@ -28,11 +96,26 @@ export default class AudioRecorder {
   private mediaRecorder!: MediaRecorder;
   private audioBlobPromise!: Promise<Blob>;
   private stream!: MediaStream;
+  private recordingId: string | null = null;
+  private options: RecordingOptions | null = null;
+  private limitTimer: number | null = null;
+  private isLimitReached = false;
+
+  private levelMeter: LevelMeter | null = null;
+  private levelTimer: number | null = null;
+
+  private pcmCapture: PcmCapture | null = null;
+  private pcmTimer: number | null = null;
+
+  /** Where recordings are streamed while in progress; also used to recover them after a crash */
+  public readonly partialRecordings: PartialRecordingStore;
 
   private subscribers: StateSubscriberMap = {};
   public state: AudioRecorderState;
 
-  constructor() {
+  constructor(private readonly vault: Vault) {
+    this.partialRecordings = new PartialRecordingStore(vault.adapter, PARTIAL_RECORDINGS_DIRECTORY);
+
     this.state = {
       recordingState: "idle",
       audio: {
@@ -40,7 +123,13 @@ export default class AudioRecorder {
         currentChunkStart: null,
         duration: 0,
         blob: null,
+        bytesPersisted: 0,
+        markers: [],
       },
+      details: DEFAULT_RECORDING_DETAILS,
+      input: INITIAL_INPUT_LEVEL,
+      startedAt: null,
+      part: 1,
     };
   }
 
@@ -56,16 +145,10 @@ export default class AudioRecorder {
   /**
    * Requests access to the microphone of the selected device and starts recording.
    * @param deviceId The device ID of the selected input device.
+   * @param options An optional maximum length for each recorded file, and when to warn about silence.
    * @returns A promise that resolves when recording starts.
    */
-  public async record(preferredDeviceId?: string | null): Promise<void> {
-    this.state.audio = {
-      currentChunkStart: null,
-      duration: 0,
-      chunks: [],
-      blob: null,
-    };
-
+  public async record(preferredDeviceId?: string | null, options?: RecordingOptions): Promise<void> {
     const devices = await this.getInputDevices();
     const isPreferredDeviceAvailable = preferredDeviceId && devices.map((s) => s.deviceId).includes(preferredDeviceId);
 
@@ -76,78 +159,93 @@ export default class AudioRecorder {
       },
     });
 
-    // Initialize MediaRecorder and audio chunks array
-    this.mediaRecorder = new MediaRecorder(this.stream);
+    this.state.startedAt = Date.now();
+    this.state.part = 1;
+    this.state.input = INITIAL_INPUT_LEVEL;
+    this.options = options ?? null;
 
-    const syncCurrentStart = () => {
-      this.state.audio.currentChunkStart = Date.now();
-      this.notifySubscribers();
-    };
+    await this.startFile(await this.beginPersisting());
 
-    // Sync audio data on each start, resume, pause & error event.
-    this.mediaRecorder.onstart = syncCurrentStart;
-    this.mediaRecorder.onresume = syncCurrentStart;
-    this.mediaRecorder.onpause = () => this.mediaRecorder.requestData();
-    this.mediaRecorder.onerror = () => this.mediaRecorder.requestData();
+    this.levelMeter = new LevelMeter(this.stream, this.options?.silenceWarningSeconds ?? 0);
+    this.levelTimer = window.setInterval(() => this.sampleLevel(), LEVEL_SAMPLE_INTERVAL_MS);
+    this.limitTimer = window.setInterval(() => this.checkLimit(), LIMIT_CHECK_INTERVAL_MS);
 
-    // Capture audio data on pause or stop.
-    this.mediaRecorder.ondataavailable = async (event: BlobEvent) => {
-      if (event.data.size === 0 || this.state.audio.currentChunkStart === null) {
-        return;
-      }
+    if (this.options?.onPcmWindow) {
+      this.pcmCapture = new PcmCapture(this.stream, LIVE_WINDOW_SECONDS, () => this.isRecording());
+      this.pcmTimer = window.setInterval(() => this.emitPcmWindow(), LIVE_WINDOW_INTERVAL_MS);
+    }
 
-      const dataToThisPoint = this.state.audio.chunks.map((c) => c.blob).filter(Boolean) as Blob[];
-      const blobToThisPoint = new Blob([...dataToThisPoint, event.data], { type: "audio/webm;codecs=opus" });
-      const duration = await this.getBlobDuration(blobToThisPoint);
+    this.state.recordingState = "recording";
+    this.notifySubscribers();
+  }
 
-      this.state.audio.chunks.push({
-        start: this.state.audio.currentChunkStart,
-        stop: Date.now(),
-        blob: event.data,
-      });
+  /**
+   * Stops the recording and returns the recorded audio.
+   * @returns A promise that resolves to the last file of the recording.
+   */
+  public async stop(): Promise<RecordedFile> {
+    this.clearTimers();
 
-      this.state.audio.duration = duration;
-      this.state.audio.currentChunkStart = null;
+    this.levelMeter?.close();
+    this.levelMeter = null;
+    this.state.input = INITIAL_INPUT_LEVEL;
 
-      this.notifySubscribers();
-    };
+    // Hand over the last few seconds too, so the live transcript isn't cut short while the final one is made.
+    this.emitPcmWindow();
+    this.pcmCapture?.close();
+    this.pcmCapture = null;
 
-    // Create a promise that resolves with the audio blob when recording is stopped
-    this.audioBlobPromise = new Promise<Blob>((resolve) => {
-      this.mediaRecorder.onstop = () => {
-        const data = this.state.audio.chunks.map((chunk) => chunk.blob);
-        const audioBlob = new Blob(data, { type: "audio/webm;codecs=opus" });
+    // Stop the MediaRecorder
+    const finishing = this.finishFile();
+    this.state.recordingState = "idle";
 
-        this.notifySubscribers();
-        resolve(audioBlob);
-      };
-    });
+    // Stop all media tracks to release the microphone
+    this.stream.getTracks().forEach((track) => track.stop());
 
-    // Start recording
-    this.mediaRecorder.start();
+    const recorded = await finishing;
+    this.state.audio.blob = recorded.blob;
 
-    this.state.recordingState = "recording";
     this.notifySubscribers();
+
+    return recorded;
   }
 
   /**
-   * Stops the recording and returns the recorded audio blob.
-   * @returns A promise that resolves to the Blob containing the recorded audio data.
+   * Let go of the microphone, its audio graphs and the recorder's timers, without saving the recording; what was
+   * recorded so far is already on disk, and is offered for recovery next time. Used when the plugin is unloaded.
    */
-  public async stop(): Promise<Blob> {
-    // Stop the MediaRecorder
-    this.mediaRecorder.stop();
+  public dispose() {
+    this.clearTimers();
+
+    this.levelMeter?.close();
+    this.levelMeter = null;
+    this.pcmCapture?.close();
+    this.pcmCapture = null;
+
+    if (this.mediaRecorder && this.mediaRecorder.state !== "inactive") {
+      this.mediaRecorder.stop();
+    }
+
+    this.stream?.getTracks().forEach((track) => track.stop());
     this.state.recordingState = "idle";
+  }
 
-    // Stop all media tracks to release the microphone
-    this.stream.getTracks().forEach((track) => track.stop());
+  /**
+   * Finish the current file and carry straight on recording the next part into a new one,
+   * from the same microphone stream.
+   * @returns A promise that resolves to the finished file.
+   */
+  public async split(): Promise<RecordedFile> {
+    // Prepare the next file on disk first, so that the gap between the two is as short as possible.
+    const nextRecordingId = await this.beginPersisting();
+    const recorded = await this.finishFile();
 
-    // Return the promise with the recorded audio blob
-    this.state.audio.blob = await this.audioBlobPromise;
+    this.state.part += 1;
+    await this.startFile(nextRecordingId);
 
     this.notifySubscribers();
 
-    return this.state.audio.blob;
+    return recorded;
   }
 
   /**
@@ -157,6 +255,10 @@ export default class AudioRecorder {
     if (this.isRecording()) {
       this.state.recordingState = "paused";
       this.mediaRecorder.pause();
+
+      // Time spent paused isn't silence from the microphone.
+      this.levelMeter?.reset();
+      this.state.input = INITIAL_INPUT_LEVEL;
       this.notifySubscribers();
     }
   }
@@ -181,14 +283,64 @@ export default class AudioRecorder {
   }
 
   /**
-   * Saves the audio blob as a file on the disk.
+   * Saves the audio blob as a file in the vault, creating its folder if needed.
    * @param blob The recorded audio Blob.
-   * @param filePath The path where the file should be saved.
+   * @param filePath The vault path where the file should be saved.
    * @returns A promise that resolves when the file is saved.
    */
   public async saveBlobAsFile(blob: Blob, filePath: string): Promise<void> {
-    // const buffer = Buffer.from(await blob.arrayBuffer());
-    // await writeFile(filePath, buffer);
+    const { directory } = extractFileDetail(filePath);
+
+    if (directory && !(await this.vault.adapter.exists(directory))) {
+      await this.vault.adapter.mkdir(directory);
+    }
+
+    await this.vault.adapter.writeBinary(filePath, await blob.arrayBuffer());
+  }
+
+  /**
+   * Remove the on-disk copy of a recorded file, once it has been saved for good.
+   */
+  public async discardPersistedRecording(recordingId: string): Promise<void> {
+    await this.partialRecordings.remove(recordingId);
+  }
+
+  /**
+   * Set the title, category and importance the recording will be saved with.
+   */
+  public setDetails(details: RecordingDetails) {
+    this.state.details = details;
+    this.notifySubscribers();
+  }
+
+  /**
+   * Flag a moment of the recording, so it is called out in the transcript.
+   * @param time Seconds into the current file; defaults to now.
+   * @returns The marker, or null when nothing is being recorded.
+   */
+  public addMarker(type: RecordingMarkerType, text?: string, time = this.getElapsedSeconds()): RecordingMarker | null {
+    if (this.state.recordingState === "idle" || this.recordingId === null) {
+      return null;
+    }
+
+    const marker: RecordingMarker = { time: Math.round(time * 10) / 10, type };
+    if (text?.trim()) {
+      marker.text = text.trim();
+    }
+
+    this.state.audio.markers = [...this.state.audio.markers, marker];
+    this.partialRecordings.saveMarkers(this.recordingId, this.state.audio.markers);
+    this.notifySubscribers();
+
+    return marker;
+  }
+
+  /**
+   * How long the current file has been recording for, in seconds; pauses don't count.
+   */
+  public getElapsedSeconds(): number {
+    const { duration, currentChunkStart } = this.state.audio;
+    return duration + (currentChunkStart ? (Date.now() - currentChunkStart) / 1000 : 0);
   }
 
   /**
@@ -213,12 +365,159 @@ export default class AudioRecorder {
     Object.values(this.subscribers).forEach((fn) => fn?.(this.state));
   }
 
-  private async getBlobDuration(blob: Blob) {
-    const context = new AudioContext();
-    const buffer = await blob.arrayBuffer();
-    const audio = await context.decodeAudioData(buffer);
-    context.close();
+  private async beginPersisting() {
+    const recordingId = randomUUID();
+    await this.partialRecordings.begin(recordingId, { startedAt: Date.now(), mimeType: RECORDING_MIME_TYPE });
+
+    return recordingId;
+  }
+
+  /**
+   * Start a new `MediaRecorder` on the open stream, recording into a new file.
+   */
+  private async startFile(recordingId: string) {
+    this.recordingId = recordingId;
+    this.isLimitReached = false;
+
+    this.state.audio = {
+      currentChunkStart: null,
+      duration: 0,
+      chunks: [],
+      blob: null,
+      bytesPersisted: 0,
+      markers: [],
+    };
+
+    // Initialize MediaRecorder and audio chunks array
+    this.mediaRecorder = new MediaRecorder(this.stream);
+
+    const syncCurrentStart = () => {
+      this.state.audio.currentChunkStart = Date.now();
+      this.notifySubscribers();
+    };
+
+    // Sync audio data on each start, resume, pause & error event.
+    this.mediaRecorder.onstart = syncCurrentStart;
+    this.mediaRecorder.onresume = syncCurrentStart;
+    this.mediaRecorder.onpause = () => this.mediaRecorder.requestData();
+    this.mediaRecorder.onerror = () => this.mediaRecorder.requestData();
+
+    // Capture audio data on each timeslice, pause or stop.
+    this.mediaRecorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data.size === 0) {
+        return;
+      }
+
+      // Every slice is kept, even one without a start time; dropping bytes would corrupt the WebM stream.
+      const stop = Date.now();
+      const index = this.state.audio.chunks.length;
+
+      this.state.audio.chunks.push({
+        start: this.state.audio.currentChunkStart ?? stop,
+        stop,
+        blob: event.data,
+      });
+
+      this.state.audio.duration =
+        this.state.audio.chunks.reduce((sum, chunk) => sum + chunk.stop - chunk.start, 0) / 1000;
+      this.state.audio.currentChunkStart = this.mediaRecorder.state === "recording" ? stop : null;
+
+      this.notifySubscribers();
+      this.persistChunk(recordingId, index, event.data);
+    };
+
+    // Create a promise that resolves with the audio blob when recording is stopped
+    this.audioBlobPromise = new Promise<Blob>((resolve) => {
+      this.mediaRecorder.onstop = () => {
+        const data = this.state.audio.chunks.map((chunk) => chunk.blob);
+        const audioBlob = new Blob(data, { type: RECORDING_MIME_TYPE });
+
+        this.notifySubscribers();
+        resolve(audioBlob);
+      };
+    });
+
+    // Record in timeslices, so that the recording is streamed to disk as it goes.
+    this.mediaRecorder.start(RECORDING_TIMESLICE_MS);
+  }
+
+  /**
+   * Stop the current `MediaRecorder`, leaving the stream open.
+   * Resolves once the whole file has also reached the disk.
+   */
+  private async finishFile(): Promise<RecordedFile> {
+    const recordingId = this.recordingId ?? "";
+    const { part } = this.state;
+    const { markers } = this.state.audio;
+
+    this.mediaRecorder.stop();
+
+    const blob = await this.audioBlobPromise;
+    await this.partialRecordings.flush();
+
+    return { blob, recordingId, part, markers };
+  }
+
+  private checkLimit() {
+    if (!this.options || this.options.maxDurationSeconds <= 0 || this.isLimitReached || !this.isRecording()) {
+      return;
+    }
+
+    if (this.getElapsedSeconds() >= this.options.maxDurationSeconds) {
+      // Only once per file; the handler stops or splits the recording.
+      this.isLimitReached = true;
+      this.options.onLimitReached();
+    }
+  }
+
+  private sampleLevel() {
+    if (!this.levelMeter || !this.isRecording()) {
+      return;
+    }
+
+    const wasSilent = this.state.input.isSilent;
+    this.state.input = this.levelMeter.sample();
+
+    if (this.state.input.isSilent && !wasSilent) {
+      new Notice(
+        `VOX hasn't heard anything from the microphone for ${Math.round(this.state.input.silentSeconds)} seconds. Check your recording device.`,
+      );
+    }
+
+    this.notifySubscribers();
+  }
+
+  private emitPcmWindow() {
+    const pcmWindow = this.pcmCapture?.buffer.take();
+
+    if (pcmWindow) {
+      this.options?.onPcmWindow?.(pcmWindow);
+    }
+  }
+
+  private clearTimers() {
+    if (this.limitTimer !== null) {
+      window.clearInterval(this.limitTimer);
+      this.limitTimer = null;
+    }
+
+    if (this.levelTimer !== null) {
+      window.clearInterval(this.levelTimer);
+      this.levelTimer = null;
+    }
+
+    if (this.pcmTimer !== null) {
+      window.clearInterval(this.pcmTimer);
+      this.pcmTimer = null;
+    }
+  }
+
+  private async persistChunk(recordingId: string, index: number, data: Blob) {
+    await this.partialRecordings.appendPart(recordingId, index, data);
 
-    return audio.duration;
+    if (recordingId === this.recordingId) {
+      this.state.audio.bytesPersisted += data.size;
+      this.notifySubscribers();
+    }
   }
 }
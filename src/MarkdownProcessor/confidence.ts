@@ -0,0 +1,105 @@
+import { LowConfidenceStyle, NoSpeechAction, TranscriptionSegment } from "types";
+
+export const LOW_CONFIDENCE_CLASS = "vox-low-confidence";
+
+export type ConfidenceOptions = {
+  lowConfidenceStyle: LowConfidenceStyle;
+  /** Words whisper gave a lower probability than this are marked */
+  lowConfidenceThreshold: number;
+  noSpeechAction: NoSpeechAction;
+  /** Segments at least this likely to be no speech are flagged or dropped */
+  noSpeechThreshold: number;
+};
+
+export const isLikelyNoSpeech = (segment: TranscriptionSegment, { noSpeechThreshold }: ConfidenceOptions) => {
+  return segment.no_speech_prob >= noSpeechThreshold;
+};
+
+/**
+ * Leave out the segments which are probably not speech, when they're to be dropped.
+ */
+export const removeNoSpeech = (segments: TranscriptionSegment[], options: ConfidenceOptions) => {
+  if (options.noSpeechAction !== NoSpeechAction.DROP) {
+    return segments;
+  }
+
+  return segments.filter((segment) => !isLikelyNoSpeech(segment, options));
+};
+
+/**
+ * A segment's text, with the words whisper wasn't sure of marked, or struck through altogether when it's probably
+ * not speech.
+ *
+ * @note
+ * Words are found in the segment's text rather than the text rebuilt from them, as some backends leave the
+ * punctuation out of their words.
+ *
+ * @example " I caught a big fish." -> "I caught a ==big== fish."
+ */
+export const formatSegmentText = (segment: TranscriptionSegment, options: ConfidenceOptions) => {
+  const text = segment.text.trim();
+
+  if (options.noSpeechAction === NoSpeechAction.FLAG && isLikelyNoSpeech(segment, options)) {
+    return text ? `~~${text}~~` : text;
+  }
+
+  if (options.lowConfidenceStyle === LowConfidenceStyle.NONE || !segment.words?.length) {
+    return text;
+  }
+
+  let marked = "";
+  let cursor = 0;
+
+  segment.words.forEach((word) => {
+    const spoken = word.word.trim();
+    const at = spoken ? text.indexOf(spoken, cursor) : -1;
+
+    if (at < 0) {
+      return;
+    }
+
+    const isLowConfidence = word.probability !== undefined && word.probability < options.lowConfidenceThreshold;
+    marked += text.slice(cursor, at) + (isLowConfidence ? markWord(spoken, options.lowConfidenceStyle) : spoken);
+    cursor = at + spoken.length;
+  });
+
+  return marked + text.slice(cursor);
+};
+
+/**
+ * How sure whisper was of the transcript overall, from 0 to 1: the mean probability of its words, or where its
+ * words weren't scored, of its segments weighted by their length.
+ * @returns `null` when the backend gave nothing to judge by.
+ */
+export const getTranscriptConfidence = (segments: TranscriptionSegment[]): number | null => {
+  const probabilities = segments
+    .flatMap((segment) => segment.words ?? [])
+    .flatMap((word) => (word.probability === undefined ? [] : [word.probability]));
+
+  if (probabilities.length > 0) {
+    return round(probabilities.reduce((sum, probability) => sum + probability, 0) / probabilities.length);
+  }
+
+  // Backends which don't report a log probability leave it at 0; a real one is always below.
+  const scored = segments.filter((segment) => segment.avg_logprob < 0 && segment.end > segment.start);
+  const duration = scored.reduce((sum, segment) => sum + (segment.end - segment.start), 0);
+
+  if (duration === 0) {
+    return null;
+  }
+
+  const weighted = scored.reduce(
+    (sum, segment) => sum + Math.exp(segment.avg_logprob) * (segment.end - segment.start),
+    0,
+  );
+
+  return round(weighted / duration);
+};
+
+const markWord = (word: string, style: LowConfidenceStyle) => {
+  return style === LowConfidenceStyle.HIGHLIGHT
+    ? `==${word}==`
+    : `<span class="${LOW_CONFIDENCE_CLASS}">${word}</span>`;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
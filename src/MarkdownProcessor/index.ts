@@ -1,5 +1,4 @@
 import matter from "gray-matter";
-import startCase from "lodash/startCase";
 import { DateTime } from "luxon";
 import VoxPlugin from "main";
 import { Vault } from "obsidian";
@@ -8,19 +7,34 @@ import {
   FileDetail,
   MarkdownOutput,
   RawTranscriptionSegment,
+  RecordingMarker,
   TranscriptionResponse,
   TranscriptionSegment,
 } from "types";
 import { categorizeVoiceMemo } from "utils/categorize";
-import { getFileCreationDateTime } from "utils/format";
+import { buildFilenameContext, renderFilenameTemplate } from "utils/filename";
+import { formatAudioEmbed, formatTimestamp, getFileCreationDateTime } from "utils/format";
+import { toLanguageCode } from "utils/language";
 import { Logger } from "utils/log";
+import { parseRecordingSeriesPart } from "utils/recording";
 import { extractTags } from "utils/tags";
-import {
-  CATEGORY_REGEX_LEGACY,
-  MARKDOWN_DATE_FORMAT,
-  RELATIVE_AUDIO_FILE_LOCATION,
-  generateCategoryRegex,
-} from "../constants";
+import { formatSeekTimestamp } from "utils/timestamps";
+import { MARKDOWN_DATE_FORMAT } from "../constants";
+import { formatSegmentText, getTranscriptConfidence, removeNoSpeech } from "./confidence";
+import { wrapTranscript } from "./revisions";
+import { DEFAULT_NOTE_TEMPLATE, TemplateContext, markSegmentsSections, renderTemplate } from "./template";
+import { TranscriptOptions, buildTranscript } from "./transcript";
+
+export type GenerateOptions = {
+  /** When the audio was recorded, if known; otherwise taken from the original file */
+  recordedAt?: DateTime | null;
+  /** When the audio was transcribed; now, unless the note is being rebuilt from an earlier transcription */
+  transcribedAt?: DateTime;
+  /** Markers dropped while recording, to call out in the transcript */
+  markers?: RecordingMarker[];
+  /** The title of the note for the part before, for a file of a split recording */
+  previousPart?: string | null;
+};
 
 export class MarkdownProcessor {
   constructor(
@@ -38,46 +52,74 @@ export class MarkdownProcessor {
     processedAudio: FileDetail,
     originalAudioFileHash: string,
     transcription: TranscriptionResponse,
+    { recordedAt = null, transcribedAt = DateTime.now(), markers = [], previousPart = null }: GenerateOptions = {},
   ): Promise<MarkdownOutput> {
     this.logger.log(`Generating markdown content: ${originalFile.filename}`);
 
-    const fileCreationTime = await getFileCreationDateTime(originalFile, this.vault.adapter);
+    const fileCreationTime = recordedAt ?? (await getFileCreationDateTime(originalFile, this.vault.adapter));
 
     const title = this.generateMarkdownTitle(originalFile, fileCreationTime, this.settings);
 
-    const transcribedAtDate = DateTime.now().toFormat(MARKDOWN_DATE_FORMAT);
+    const transcribedAtDate = transcribedAt.toFormat(MARKDOWN_DATE_FORMAT);
     const recordedAtDate = fileCreationTime.toFormat(MARKDOWN_DATE_FORMAT);
 
-    const markdownContent = [];
-
-    // Add our title & tags
-    markdownContent.push(`\n# ${title}\n\n`);
-
     // Pull out tags
-    if (this.settings.shouldExtractTags) {
-      const extractedTags = await extractTags(transcription.text, this.settings);
-
-      const tags = ["#transcribed", ...extractedTags];
-      markdownContent.push(`${tags.join(" ")}\n\n`);
-    }
+    const tags = this.settings.shouldExtractTags
+      ? ["#transcribed", ...(await extractTags(transcription.text, this.settings))].join(" ")
+      : "";
+
+    // Parts of a split recording link back to the part before; Obsidian's backlinks lead the other way.
+    const seriesPart = parseRecordingSeriesPart(originalFile.name);
+
+    const transcriptOptions: TranscriptOptions = {
+      layout: this.settings.transcriptLayout,
+      pauseSeconds: this.settings.paragraphPauseSeconds,
+      targetWords: this.settings.paragraphTargetWords,
+      lowConfidenceStyle: this.settings.lowConfidenceStyle,
+      lowConfidenceThreshold: this.settings.lowConfidenceThreshold,
+      noSpeechAction: this.settings.noSpeechAction,
+      noSpeechThreshold: this.settings.noSpeechThreshold,
+    };
 
-    // Embed a link to the transcription as it will be in Obsidian:
-    // `<obsidian>/voice/audio/<audio-file>
-    markdownContent.push(`![](${RELATIVE_AUDIO_FILE_LOCATION}/${processedAudio.filename})\n\n`);
+    const allSegments = transcription.segments.map(this.objectifySegment);
+    const segments = removeNoSpeech(allSegments, transcriptOptions);
+    const confidence = getTranscriptConfidence(segments);
+    // The language spoken, even when the transcript was translated into English.
+    const language = toLanguageCode(transcription.detected_language || transcription.language);
 
-    const segments = transcription.segments.map(this.objectifySegment);
+    const categorization = this.settings.shouldUseCategoryMaps
+      ? categorizeVoiceMemo(originalFile.name, this.settings)
+      : null;
 
-    // Every four segments, create a new paragraph.
-    segments.forEach((segment, i) => {
-      markdownContent.push(`${segment.text.trim()} `);
+    const context: TemplateContext = {
+      title,
+      recorded_at: recordedAtDate,
+      transcribed_at: transcribedAtDate,
+      duration: formatTimestamp(transcription.duration ?? allSegments[allSegments.length - 1]?.end ?? 0),
+      language,
+      confidence: confidence ?? "",
+      tags,
+      // Embed a link to the transcription as it will be in Obsidian:
+      // `<obsidian>/voice/audio/<audio-file>
+      audio_embed: formatAudioEmbed(processedAudio.filename),
+      // Only the transcript is replaced when the note is re-transcribed; anything added around it stays.
+      transcript: wrapTranscript(buildTranscript(segments, markers, transcriptOptions)),
+      segments: segments.map((segment) => ({
+        start: formatTimestamp(segment.start),
+        end: formatTimestamp(segment.end),
+        text: formatSegmentText(segment, transcriptOptions),
+        timestamp: formatSeekTimestamp(segment.start),
+      })),
+      category: categorization?.category?.label ?? "",
+      importance: categorization?.importance ?? "",
+      part: seriesPart?.part ?? "",
+      previous_part: previousPart ?? "",
+      original_file_name: originalFile.filename,
+    };
 
-      // Sensible new paragraph spacing
-      if (segment.text.trim().endsWith(".") && i % 8 === 0) {
-        markdownContent.push("\n\n");
-      }
-    });
+    const template = matter(markSegmentsSections(await this.readTemplate()), {});
 
-    const frontmatter: Record<string, string | number> = {
+    const frontmatter: Record<string, string | number | boolean> = {
       title,
       type: "transcribed",
       recorded_at: recordedAtDate,
@@ -87,15 +129,37 @@ export class MarkdownProcessor {
       original_file_hash: originalAudioFileHash,
     };
 
-    // Get categorization and importance ranking
-    if (this.settings.shouldUseCategoryMaps) {
-      const categorization = categorizeVoiceMemo(originalFile.name, this.settings);
+    if (language) {
+      frontmatter.language = language;
+    }
+
+    // Only reported when whisper detected the language itself.
+    if (typeof transcription.detected_language_probability === "number") {
+      frontmatter.language_probability = Math.round(transcription.detected_language_probability * 100) / 100;
+    }
+
+    if (transcription.task === "translate") {
+      frontmatter.translated = true;
+    }
+
+    // How sure whisper was of the transcript; low scores are worth proofreading.
+    if (confidence !== null) {
+      frontmatter.transcription_confidence = confidence;
+    }
+
+    if (seriesPart) {
+      frontmatter.recording_series = seriesPart.series;
+      frontmatter.recording_part = seriesPart.part;
+    }
 
+    // Get categorization and importance ranking
+    if (categorization) {
       frontmatter.importance = categorization.importance;
       frontmatter.voice_memo_category = categorization.category?.label ?? "none";
     }
 
-    const markdown = matter.stringify(markdownContent.join(""), frontmatter);
+    // The template may bring frontmatter of its own; ours wins, as it's how transcribed audio is recognised.
+    const markdown = matter.stringify(renderTemplate(template.content, context), { ...template.data, ...frontmatter });
 
     return {
       title,
@@ -103,20 +167,33 @@ export class MarkdownProcessor {
     };
   }
 
-  public generateMarkdownTitle(file: FileDetail, fileCreationTime: DateTime, settings: Settings) {
-    const categoryRegex = generateCategoryRegex(settings);
+  /**
+   * The user's note template, if they have one; a template which can't be read is skipped rather than failing the
+   * transcription.
+   */
+  private async readTemplate() {
+    const templatePath = this.settings.noteTemplatePath.trim();
+
+    if (!templatePath) {
+      return DEFAULT_NOTE_TEMPLATE;
+    }
 
-    // Remove categorization prefix from title
-    const tidyTitle = file.name
-      .replace(categoryRegex, "")
-      .replace(CATEGORY_REGEX_LEGACY, "")
-      .replace(/[-]g/, "")
-      .trim();
+    try {
+      return await this.vault.adapter.read(templatePath.endsWith(".md") ? templatePath : `${templatePath}.md`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.logger.log(`Failed to read the note template "${templatePath}", using the default: ${errorMsg}`);
 
-    const titlePrefix = `TXC - ${fileCreationTime.toFormat("yyyy-MM-dd")}`;
-    const title = `${titlePrefix} ${startCase(tidyTitle)}`;
+      return DEFAULT_NOTE_TEMPLATE;
+    }
+  }
 
-    return title;
+  /**
+   * The note's title, from the title template; it's also the note's filename.
+   * @example "R4LN Big fish.m4a" -> "TXC - 2021-07-15 Big Fish"
+   */
+  public generateMarkdownTitle(file: FileDetail, fileCreationTime: DateTime, settings: Settings) {
+    return renderFilenameTemplate(settings.titleTemplate, buildFilenameContext(file, fileCreationTime, settings));
   }
 
   private objectifySegment(segment: RawTranscriptionSegment | TranscriptionSegment): TranscriptionSegment {
@@ -0,0 +1,58 @@
+import { RecordingMarker, RecordingMarkerType, TranscriptionSegment } from "types";
+import { formatTimestamp } from "utils/format";
+
+const MARKER_CALLOUTS: Record<RecordingMarkerType, { callout: string; label: string }> = {
+  [RecordingMarkerType.IMPORTANT]: { callout: "important", label: "Important" },
+  [RecordingMarkerType.ACTION_ITEM]: { callout: "todo", label: "Action item" },
+  [RecordingMarkerType.NOTE]: { callout: "note", label: "Note" },
+};
+
+/**
+ * Decide where each marker is called out: at the segment boundary nearest to when it was dropped,
+ * so a callout never splits a sentence in half.
+ *
+ * @returns Markers keyed by the index of the segment they come before; `segments.length` is after the last one.
+ */
+export const placeMarkers = (
+  segments: TranscriptionSegment[],
+  markers: RecordingMarker[],
+): Map<number, RecordingMarker[]> => {
+  const placements = new Map<number, RecordingMarker[]>();
+
+  if (markers.length === 0) {
+    return placements;
+  }
+
+  const boundaries = [...segments.map((segment) => segment.start), segments[segments.length - 1]?.end ?? 0];
+
+  markers.forEach((marker) => {
+    let nearest = 0;
+
+    boundaries.forEach((boundary, i) => {
+      if (Math.abs(boundary - marker.time) < Math.abs(boundaries[nearest] - marker.time)) {
+        nearest = i;
+      }
+    });
+
+    placements.set(nearest, [...(placements.get(nearest) ?? []), marker]);
+  });
+
+  return placements;
+};
+
+/**
+ * Render a marker as an Obsidian callout.
+ * @example { time: 95, type: "action-item", text: "Email Sam" } -> "> [!todo] Action item · 1:35\n> Email Sam"
+ */
+export const formatMarkerCallout = (marker: RecordingMarker) => {
+  const { callout, label } = MARKER_CALLOUTS[marker.type];
+  const lines = [`> [!${callout}] ${label} · ${formatTimestamp(marker.time)}`];
+
+  marker.text
+    ?.trim()
+    .split("\n")
+    .filter(Boolean)
+    .forEach((line) => lines.push(`> ${line}`));
+
+  return lines.join("\n");
+};
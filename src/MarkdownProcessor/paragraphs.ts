@@ -0,0 +1,70 @@
+import { TranscriptionSegment } from "types";
+
+/** Ends a sentence: `.`, `?`, `!` or `…`, perhaps followed by a closing quote or bracket */
+const SENTENCE_END_REGEX = /[.?!…]["'”’)\]]*$/;
+
+export type ParagraphOptions = {
+  /** A pause of at least this many seconds after a sentence starts a new paragraph */
+  pauseSeconds: number;
+  /** Paragraphs are ended at the first sentence end after this many words */
+  targetWords: number;
+};
+
+/**
+ * Group the transcript's segments into paragraphs, the way someone listening back would:
+ * at a pause between sentences, or at the end of a sentence once the paragraph has grown long enough.
+ *
+ * @note
+ * Whisper's segments often butt up against each other, hiding the pause between them, so the pause is measured
+ * between the spoken words when there are word timings. Some backends leave out punctuation altogether, so a pause
+ * twice as long, or a paragraph twice the target length, is broken even mid-sentence.
+ */
+export const buildParagraphs = (
+  segments: TranscriptionSegment[],
+  { pauseSeconds, targetWords }: ParagraphOptions,
+): TranscriptionSegment[][] => {
+  const paragraphs: TranscriptionSegment[][] = [];
+  let paragraph: TranscriptionSegment[] = [];
+  let wordCount = 0;
+
+  segments.forEach((segment, i) => {
+    paragraph.push(segment);
+    wordCount += countWords(segment.text);
+
+    const next = segments[i + 1];
+    if (!next) {
+      return;
+    }
+
+    const pause = getPause(segment, next);
+    const isSentenceEnd = SENTENCE_END_REGEX.test(segment.text.trim());
+    const isBreak =
+      (isSentenceEnd && (pause >= pauseSeconds || wordCount >= targetWords)) ||
+      pause >= pauseSeconds * 2 ||
+      wordCount >= targetWords * 2;
+
+    if (isBreak) {
+      paragraphs.push(paragraph);
+      paragraph = [];
+      wordCount = 0;
+    }
+  });
+
+  if (paragraph.length > 0) {
+    paragraphs.push(paragraph);
+  }
+
+  return paragraphs;
+};
+
+/**
+ * The silence between two segments, in seconds; from the last word of one to the first word of the next.
+ */
+export const getPause = (previous: TranscriptionSegment, next: TranscriptionSegment) => {
+  const spokenEnd = previous.words?.length ? previous.words[previous.words.length - 1].end : previous.end;
+  const spokenStart = next.words?.length ? next.words[0].start : next.start;
+
+  return Math.max(0, spokenStart - spokenEnd);
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
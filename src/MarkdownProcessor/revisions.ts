@@ -0,0 +1,100 @@
+import matter from "gray-matter";
+
+/** The transcript sits between these comments; everything else in the note is the user's and is left alone */
+export const TRANSCRIPT_BLOCK_START = "%%VOX transcript start%%";
+export const TRANSCRIPT_BLOCK_END = "%%VOX transcript end%%";
+
+/** Before transcripts were marked out, the transcript was everything after the audio embed */
+const LEGACY_AUDIO_EMBED_REGEX = /!\[\]\(\.\/audio\/[^)]+\)\n*/;
+
+/**
+ * Mark out the transcript, so it can be replaced by a later transcription without touching anything around it.
+ */
+export const wrapTranscript = (transcript: string) => {
+  return `${TRANSCRIPT_BLOCK_START}\n${transcript.trim()}\n${TRANSCRIPT_BLOCK_END}`;
+};
+
+/**
+ * Keep a replaced transcript as a collapsed callout.
+ * @example ("Hello there.", "2024-03-09 02:05") -> "> [!quote]- Previous transcript · 2024-03-09 02:05\n> Hello there."
+ */
+export const formatRevision = (transcript: string, transcribedAt: string | null) => {
+  const heading = transcribedAt ? `Previous transcript · ${transcribedAt}` : "Previous transcript";
+  const lines = transcript
+    .trim()
+    .split("\n")
+    .map((line) => (line.trim() ? `> ${line}` : ">"));
+
+  return [`> [!quote]- ${heading}`, ...lines].join("\n");
+};
+
+/**
+ * Bring a fresh transcription into an existing note. The transcript block is replaced and the old transcript kept
+ * as a collapsed revision just below it, newest first; frontmatter written by VOX is updated and the rest is kept.
+ *
+ * @note
+ * Notes from before the transcript was marked out are rebuilt from the fresh transcription, keeping whatever
+ * followed their audio embed as the revision. When the template has no transcript to mark out, there's nowhere to
+ * put the fresh one; only the frontmatter is updated, rather than writing over the note.
+ *
+ * @param existing The note as it is now.
+ * @param generated The note as it would be written for the fresh transcription.
+ * @param shouldKeepRevision Whether to keep the old transcript; not worth it when only its layout has changed.
+ */
+export const mergeRetranscription = (existing: string, generated: string, shouldKeepRevision = true) => {
+  // Fresh options, so neither result is shared through gray-matter's cache.
+  const previous = matter(existing, {});
+  const next = matter(generated, {});
+
+  const data = { ...previous.data, ...next.data };
+  const transcribedAt = typeof previous.data.transcribed_at === "string" ? previous.data.transcribed_at : null;
+
+  const nextTranscript = extractTranscript(next.content);
+  const previousTranscript = extractTranscript(previous.content);
+
+  if (nextTranscript === null) {
+    return matter.stringify(previous.content, data);
+  }
+
+  if (previousTranscript === null && shouldKeepRevision) {
+    const legacyTranscript = previous.content.split(LEGACY_AUDIO_EMBED_REGEX).slice(-1)[0];
+    const content = insertRevision(next.content, formatRevision(legacyTranscript, transcribedAt));
+
+    return matter.stringify(content, data);
+  }
+
+  if (previousTranscript === null) {
+    return matter.stringify(next.content, data);
+  }
+
+  const content = previous.content.replace(
+    `${TRANSCRIPT_BLOCK_START}\n${previousTranscript}\n${TRANSCRIPT_BLOCK_END}`,
+    () => wrapTranscript(nextTranscript),
+  );
+
+  return matter.stringify(
+    shouldKeepRevision && previousTranscript.trim()
+      ? insertRevision(content, formatRevision(previousTranscript, transcribedAt))
+      : content,
+    data,
+  );
+};
+
+const extractTranscript = (content: string) => {
+  const start = content.indexOf(`${TRANSCRIPT_BLOCK_START}\n`);
+  const end = content.indexOf(`\n${TRANSCRIPT_BLOCK_END}`, start);
+
+  if (start < 0 || end < 0) {
+    return null;
+  }
+
+  return content.slice(start + TRANSCRIPT_BLOCK_START.length + 1, end);
+};
+
+const insertRevision = (content: string, revision: string) => {
+  const end = content.indexOf(TRANSCRIPT_BLOCK_END) + TRANSCRIPT_BLOCK_END.length;
+  const rest = content.slice(end).replace(/^\n*/, "");
+
+  // A blank line either side, so the callout doesn't run into what follows.
+  return `${content.slice(0, end)}\n\n${revision}\n${rest ? `\n${rest}` : ""}`;
+};
@@ -0,0 +1,59 @@
+import { TRANSCRIPT_BLOCK_END, TRANSCRIPT_BLOCK_START } from "./revisions";
+
+export type TemplateValue = string | number | TemplateContext[];
+export type TemplateContext = { [key: string]: TemplateValue | undefined };
+
+/** The layout of a transcript note, when no template of the user's own is set */
+export const DEFAULT_NOTE_TEMPLATE = `
+# {{title}}
+
+{{#tags}}{{tags}}
+
+{{/tags}}{{audio_embed}}
+
+{{#previous_part}}Part {{part}}, continued from [[{{previous_part}}]]
+
+{{/previous_part}}{{transcript}}
+`;
+
+/** `{{#key}}...{{/key}}` sections, or `{{key}}` placeholders */
+const TEMPLATE_TAG_REGEX = /{{#(\w+)}}([\s\S]*?){{\/\1}}|{{(\w+)}}/g;
+const SEGMENTS_SECTION_REGEX = /{{#segments}}[\s\S]*?{{\/segments}}/g;
+
+/**
+ * Fill in a note template.
+ *
+ * @note
+ * A section repeats for every item of a list, with the item's values added to what's in scope; for any other value
+ * it is shown once if the value is set, and left out if not. Placeholders we don't know are left as they are,
+ * so the template can still be used with other template plugins.
+ *
+ * @example ("{{#segments}}[{{start}}] {{text}}\n{{/segments}}", { segments: [{ start: "0:00", text: "Hi" }] }) -> "[0:00] Hi\n"
+ */
+export const renderTemplate = (template: string, context: TemplateContext): string => {
+  return template.replace(TEMPLATE_TAG_REGEX, (tag, sectionKey?: string, section?: string, key?: string) => {
+    if (sectionKey !== undefined) {
+      const value = context[sectionKey];
+
+      if (Array.isArray(value)) {
+        return value.map((item) => renderTemplate(section ?? "", { ...context, ...item })).join("");
+      }
+
+      return value ? renderTemplate(section ?? "", context) : "";
+    }
+
+    const value = context[key ?? ""];
+    return value === undefined || Array.isArray(value) ? tag : String(value);
+  });
+};
+
+/**
+ * A segments loop is the transcript, laid out by the user; mark it out like `{{transcript}}` is,
+ * so that re-transcribing replaces it.
+ */
+export const markSegmentsSections = (template: string) => {
+  return template.replace(
+    SEGMENTS_SECTION_REGEX,
+    (section) => `${TRANSCRIPT_BLOCK_START}\n${section}\n${TRANSCRIPT_BLOCK_END}`,
+  );
+};
@@ -0,0 +1,79 @@
+import { RecordingMarker, TranscriptLayout, TranscriptionSegment } from "types";
+import { formatSeekTimestamp } from "utils/timestamps";
+import { ConfidenceOptions, formatSegmentText } from "./confidence";
+import { formatMarkerCallout, placeMarkers } from "./markers";
+import { ParagraphOptions, buildParagraphs } from "./paragraphs";
+
+export type TranscriptOptions = ParagraphOptions &
+  ConfidenceOptions & {
+    layout: TranscriptLayout;
+  };
+
+/**
+ * Lay out the transcript's segments in paragraphs, with markers dropped while recording called out between
+ * the segments they fell nearest to.
+ */
+export const buildTranscript = (
+  segments: TranscriptionSegment[],
+  markers: RecordingMarker[],
+  options: TranscriptOptions,
+) => {
+  const markerPlacements = placeMarkers(segments, markers);
+  const blocks: string[] = [];
+  let index = 0;
+
+  const pushParagraph = (paragraph: TranscriptionSegment[]) => {
+    const text = formatParagraph(paragraph, options);
+
+    if (text) {
+      blocks.push(text);
+    }
+  };
+
+  const pushMarkers = (index: number) => {
+    markerPlacements.get(index)?.forEach((marker) => blocks.push(formatMarkerCallout(marker)));
+  };
+
+  buildParagraphs(segments, options).forEach((paragraph) => {
+    let part: TranscriptionSegment[] = [];
+
+    // A callout never sits in the middle of a paragraph; it splits the paragraph where the marker was dropped.
+    paragraph.forEach((segment) => {
+      if (markerPlacements.has(index)) {
+        pushParagraph(part);
+        pushMarkers(index);
+        part = [];
+      }
+
+      part.push(segment);
+      index += 1;
+    });
+
+    pushParagraph(part);
+  });
+
+  pushMarkers(segments.length);
+
+  return blocks.join("\n\n");
+};
+
+const formatParagraph = (paragraph: TranscriptionSegment[], options: TranscriptOptions) => {
+  const spoken = paragraph
+    .map((segment) => ({ start: segment.start, text: formatSegmentText(segment, options) }))
+    .filter((segment) => segment.text);
+
+  if (spoken.length === 0) {
+    return "";
+  }
+
+  const joined = spoken.map((segment) => segment.text).join(" ");
+
+  switch (options.layout) {
+    case TranscriptLayout.SEGMENT_TIMESTAMPS:
+      return spoken.map((segment) => `${formatSeekTimestamp(segment.start)} ${segment.text}`).join("\n");
+    case TranscriptLayout.PARAGRAPH_TIMESTAMPS:
+      return `${formatSeekTimestamp(spoken[0].start)} ${joined}`;
+    default:
+      return joined;
+  }
+};
@@ -0,0 +1,151 @@
+import { PcmWindow } from "AudioRecorder/PcmCapture";
+import { TranscriptionResponse } from "types";
+
+export type LiveTranscriptionStatus = "listening" | "finalizing" | "final";
+
+/**
+ * The transcript of a recording while it is being made, and once it has been saved.
+ */
+export type LiveTranscriptionState = {
+  status: LiveTranscriptionStatus;
+  /** Text of the windows which are finished; it won't change until the final transcript replaces it */
+  committed: string;
+  /** Text of the window still being recorded; replaced as the window grows */
+  pending: string;
+  /** The full transcription of the saved recording, which replaces the provisional text */
+  final: string | null;
+};
+
+/**
+ * A saved file of the recording, and its transcript once the queue has got to it.
+ */
+type LiveTranscriptionFile = {
+  hash: string;
+  text: string | null;
+};
+
+export const INITIAL_LIVE_TRANSCRIPTION: LiveTranscriptionState = {
+  status: "listening",
+  committed: "",
+  pending: "",
+  final: null,
+};
+
+/**
+ * Keeps a provisional transcript of the recording in progress, by transcribing the window being recorded
+ * every time it is handed over, then swaps it for the full transcription of the saved recording.
+ *
+ * @note
+ * Windows are transcribed one at a time. A window still growing is superseded by the next take of it, so if
+ * the backend falls behind only the newest one is sent; complete windows are always transcribed, in order.
+ */
+export class LiveTranscriber {
+  public state: LiveTranscriptionState = INITIAL_LIVE_TRANSCRIPTION;
+
+  private waiting: PcmWindow[] = [];
+  private isTranscribing = false;
+  private hasWarned = false;
+  private files: LiveTranscriptionFile[] = [];
+
+  constructor(
+    private readonly transcribeWindow: (window: PcmWindow) => Promise<TranscriptionResponse>,
+    private readonly onChange: (state: LiveTranscriptionState) => void,
+  ) {}
+
+  /**
+   * Transcribe the latest take of a window, once the ones before it are done.
+   */
+  public push(window: PcmWindow) {
+    if (this.state.status !== "listening") {
+      return;
+    }
+
+    this.waiting = [...this.waiting.filter((waiting) => waiting.isComplete), window];
+    this.transcribeWaiting();
+  }
+
+  /**
+   * A file of the recording was saved and queued; its transcript will become part of the final text.
+   */
+  public addFile(hash: string) {
+    this.files.push({ hash, text: null });
+  }
+
+  /**
+   * The recording has stopped; no more windows will come.
+   */
+  public finish() {
+    this.setState({ status: "finalizing" });
+    this.replaceWhenTranscribed();
+  }
+
+  /**
+   * Take in the full transcription of a saved file. The provisional text is replaced once every file is done.
+   * @returns Whether the file belongs to this recording.
+   */
+  public complete(hash: string, text: string): boolean {
+    const file = this.files.find((file) => file.hash === hash);
+
+    if (!file) {
+      return false;
+    }
+
+    file.text = text.trim();
+    this.replaceWhenTranscribed();
+
+    return true;
+  }
+
+  private async transcribeWaiting() {
+    if (this.isTranscribing) {
+      return;
+    }
+
+    this.isTranscribing = true;
+
+    for (let window = this.waiting.shift(); window; window = this.waiting.shift()) {
+      try {
+        const response = await this.transcribeWindow(window);
+        this.applyWindow(window, response.text.trim());
+      } catch (error) {
+        // The live transcript is a nicety; keep recording and try again with the next window.
+        if (!this.hasWarned) {
+          console.warn("[LiveTranscriber] Failed to transcribe a live window:", error);
+          this.hasWarned = true;
+        }
+
+        // Keep what was heard of a finished window, rather than losing it to the next one.
+        if (window.isComplete) {
+          this.applyWindow(window, this.state.pending);
+        }
+      }
+    }
+
+    this.isTranscribing = false;
+  }
+
+  private replaceWhenTranscribed() {
+    const isTranscribed = this.files.length > 0 && this.files.every((file) => file.text !== null);
+
+    if (this.state.status === "finalizing" && isTranscribed) {
+      this.setState({ status: "final", final: this.files.map((file) => file.text).join("\n\n") });
+    }
+  }
+
+  private applyWindow(window: PcmWindow, text: string) {
+    if (this.state.status === "final") {
+      return;
+    }
+
+    if (window.isComplete) {
+      this.setState({ committed: [this.state.committed, text].filter(Boolean).join(" "), pending: "" });
+    } else {
+      this.setState({ pending: text });
+    }
+  }
+
+  private setState(state: Partial<LiveTranscriptionState>) {
+    this.state = { ...this.state, ...state };
+    this.onChange(this.state);
+  }
+}
@@ -0,0 +1,112 @@
+import { DataAdapter } from "obsidian";
+import { VoxStatusItem, VoxStatusItemStatus, VoxStatusMap } from "types";
+
+const JOURNAL_VERSION = 1;
+
+/**
+ * A status item as it is written to disk; dates are stored as ISO strings.
+ */
+type JournalledStatusItem = Omit<VoxStatusItem, "addedAt" | "finalizedAt" | "lastRetryAt" | "progress" | "chunk"> & {
+  addedAt: string;
+  finalizedAt: string | null;
+  lastRetryAt: string | null;
+};
+
+type QueueJournalData = {
+  version: number;
+  items: JournalledStatusItem[];
+};
+
+/**
+ * Convert the processor's status map into its on-disk representation.
+ *
+ * @note
+ * Completed items are not journalled; their transcripts already record them via frontmatter.
+ */
+export const serializeStatusMap = (items: VoxStatusMap): QueueJournalData => {
+  const journalled = Object.values(items)
+    .filter((item) => item.status !== VoxStatusItemStatus.COMPLETE)
+    .map(({ progress, chunk, ...item }) => ({
+      ...item,
+      addedAt: item.addedAt.toISOString(),
+      finalizedAt: item.finalizedAt?.toISOString() ?? null,
+      lastRetryAt: item.lastRetryAt?.toISOString() ?? null,
+    }));
+
+  return { version: JOURNAL_VERSION, items: journalled };
+};
+
+/**
+ * Rebuild a status map from the journal.
+ * Items which were mid-flight when the app closed are moved back into the queue.
+ */
+export const deserializeStatusMap = (data: Partial<QueueJournalData> | null): VoxStatusMap => {
+  const items: VoxStatusMap = {};
+
+  if (!data || data.version !== JOURNAL_VERSION || !Array.isArray(data.items)) {
+    return items;
+  }
+
+  data.items.forEach((item) => {
+    if (!item?.hash || !item.details) {
+      return;
+    }
+
+    const wasInterrupted =
+      item.status === VoxStatusItemStatus.PROCESSING_AUDIO || item.status === VoxStatusItemStatus.TRANSCRIBING;
+
+    items[item.hash] = {
+      ...item,
+      status: wasInterrupted ? VoxStatusItemStatus.QUEUED : item.status,
+      addedAt: new Date(item.addedAt),
+      finalizedAt: item.finalizedAt ? new Date(item.finalizedAt) : null,
+      lastRetryAt: item.lastRetryAt ? new Date(item.lastRetryAt) : null,
+      retryCount: item.retryCount ?? 0,
+      lastError: item.lastError ?? null,
+      progress: null,
+      chunk: null,
+    };
+  });
+
+  return items;
+};
+
+/**
+ * Persists the transcription queue's status items to a JSON file so that
+ * retry counts, failures and pending work survive restarts.
+ */
+export class QueueJournal {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly adapter: DataAdapter,
+    private readonly filepath: string,
+  ) {}
+
+  public async load(): Promise<VoxStatusMap> {
+    try {
+      if (!(await this.adapter.exists(this.filepath))) {
+        return {};
+      }
+
+      const raw = await this.adapter.read(this.filepath);
+      return deserializeStatusMap(JSON.parse(raw));
+    } catch (error) {
+      console.warn(`[QueueJournal] Failed to read journal at ${this.filepath}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Write the current items to disk. Writes are chained so they never interleave.
+   */
+  public save(items: VoxStatusMap): Promise<void> {
+    const contents = JSON.stringify(serializeStatusMap(items), null, 2);
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.adapter.write(this.filepath, contents))
+      .catch((error) => console.warn(`[QueueJournal] Failed to write journal at ${this.filepath}:`, error));
+
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,128 @@
+import axios from "axios";
+import { Settings } from "settings";
+import { TranscriptionResponse, TranscriptionSegment, TranscriptionWord } from "types";
+import { AUTO_DETECT_LANGUAGE } from "utils/language";
+import { TranscriptionBackend, TranscriptionRequest } from "./TranscriptionBackend";
+import { assignWordsToSegments, normalizeTranscriptionResponse } from "./normalize";
+
+const ONE_MINUTE_IN_MS = 60_000;
+
+/**
+ * The `verbose_json` response format of `/v1/audio/transcriptions`.
+ */
+type OpenAIVerboseTranscription = {
+  task?: string;
+  language?: string;
+  duration?: number;
+  text: string;
+  segments?: Array<Partial<TranscriptionSegment> & { start: number; end: number; text: string }>;
+  words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+};
+
+/**
+ * Transcribe via an OpenAI-compatible `/v1/audio/transcriptions` endpoint,
+ * as served by faster-whisper-server, LocalAI, speaches and OpenAI itself.
+ */
+export class OpenAICompatibleBackend implements TranscriptionBackend {
+  public readonly name = "OpenAI-compatible";
+
+  constructor(private readonly settings: Settings) {}
+
+  public async transcribe({
+    audioFile,
+    audio,
+    language = AUTO_DETECT_LANGUAGE,
+    shouldTranslate = false,
+  }: TranscriptionRequest): Promise<TranscriptionResponse> {
+    // Translation has an endpoint of its own, which always translates into English.
+    const url = `${this.getBaseUrl()}/v1/audio/${shouldTranslate ? "translations" : "transcriptions"}`;
+
+    console.debug(`[Transcription] Using OpenAI-compatible endpoint: ${url}`);
+
+    const mimetype = `audio/${audioFile.extension.replace(".", "")}`;
+    const audioBlob = new Blob([audio], { type: mimetype });
+
+    const formData = new FormData();
+    formData.append("file", audioBlob, audioFile.filename);
+    formData.append("model", this.settings.openAICompatibleModel);
+    formData.append("response_format", "verbose_json");
+    formData.append("temperature", this.settings.temperature ?? "0.0");
+
+    if (!shouldTranslate) {
+      formData.append("timestamp_granularities[]", "segment");
+      formData.append("timestamp_granularities[]", "word");
+
+      // The language is detected when left out.
+      if (language !== AUTO_DETECT_LANGUAGE) {
+        formData.append("language", language);
+      }
+    }
+
+    const headers: Record<string, string> = {};
+
+    if (this.settings.openAICompatibleApiKey) {
+      headers["Authorization"] = `Bearer ${this.settings.openAICompatibleApiKey}`;
+    }
+
+    console.debug(`[Transcription] Sending request to: ${url}`);
+
+    const response = await axios.post<OpenAIVerboseTranscription>(url, formData, {
+      headers,
+      timeout: 20 * ONE_MINUTE_IN_MS,
+      responseType: "json",
+    });
+
+    console.debug(`[Transcription] Response status: ${response.status}`);
+
+    if (!response.data || response.status !== 200) {
+      console.warn("[Transcription] Invalid response status or missing data");
+      console.warn("[Transcription] Status:", response.status);
+      throw new Error(`Invalid response status: ${response.status}`);
+    }
+
+    return normalizeTranscriptionResponse(toTranscriptionResponse(response.data));
+  }
+
+  /**
+   * Accept endpoints entered with or without a trailing slash or `/v1` suffix.
+   */
+  private getBaseUrl() {
+    return this.settings.openAICompatibleEndpoint.trim().replace(/\/+$/, "").replace(/\/v1$/, "");
+  }
+}
+
+/**
+ * Map an OpenAI `verbose_json` transcription onto the whisper.cpp-shaped `TranscriptionResponse`.
+ */
+export const toTranscriptionResponse = (data: OpenAIVerboseTranscription): Partial<TranscriptionResponse> => {
+  const segments: TranscriptionSegment[] | undefined = data.segments?.map((segment, i) => ({
+    id: segment.id ?? i,
+    seek: segment.seek,
+    start: segment.start,
+    end: segment.end,
+    text: segment.text,
+    tokens: segment.tokens ?? [],
+    temperature: segment.temperature ?? 0,
+    avg_logprob: segment.avg_logprob ?? 0,
+    compression_ratio: segment.compression_ratio,
+    no_speech_prob: segment.no_speech_prob ?? 0,
+  }));
+
+  // OpenAI returns words as a flat list; whisper.cpp nests them within segments.
+  const words: TranscriptionWord[] = (data.words ?? []).map((word) => ({
+    word: word.word,
+    start: word.start,
+    end: word.end,
+    t_dtw: -1,
+    probability: word.probability,
+  }));
+
+  return {
+    task: data.task,
+    text: data.text,
+    language: data.language ?? "",
+    duration: data.duration,
+    detected_language: data.language,
+    segments: segments && words.length ? assignWordsToSegments(segments, words) : segments,
+  };
+};
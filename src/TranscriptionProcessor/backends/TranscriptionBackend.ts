@@ -0,0 +1,28 @@
+import { FileDetail, TranscriptionResponse } from "types";
+
+export type TranscriptionRequest = {
+  /** The processed (WAV) audio file, as it sits in the cache directory */
+  audioFile: FileDetail;
+  audio: ArrayBuffer;
+
+  /** A language code; whisper detects the language when it's `auto` or left out */
+  language?: string;
+  /** Translate the speech into English rather than transcribe it */
+  shouldTranslate?: boolean;
+
+  /** Called with a percentage (0-100) by backends which can report their progress */
+  onProgress?: (percent: number) => void;
+};
+
+/**
+ * A service capable of turning audio into a `TranscriptionResponse`.
+ *
+ * Every backend normalizes its own response format into `TranscriptionResponse`,
+ * so the markdown generation step never needs to know which backend was used.
+ */
+export interface TranscriptionBackend {
+  /** Human readable name, used in logs and notices */
+  readonly name: string;
+
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse>;
+}
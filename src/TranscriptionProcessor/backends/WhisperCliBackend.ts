@@ -0,0 +1,181 @@
+import { spawn } from "child_process";
+import { readFile, unlink } from "fs/promises";
+import path from "path";
+import { Settings } from "settings";
+import { TranscriptionResponse, TranscriptionSegment, TranscriptionWord } from "types";
+import { AUTO_DETECT_LANGUAGE } from "utils/language";
+import { TranscriptionBackend, TranscriptionRequest } from "./TranscriptionBackend";
+import { normalizeTranscriptionResponse } from "./normalize";
+
+const PROGRESS_REGEX = /progress\s*=\s*(\d{1,3})%/g;
+
+/**
+ * The JSON written by `whisper-cli -oj`. Tokens are only present in newer builds.
+ */
+export type WhisperCliOutput = {
+  params?: { language?: string; translate?: boolean };
+  result?: { language?: string };
+  transcription: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: Array<{
+      text: string;
+      offsets?: { from: number; to: number };
+      id?: number;
+      p?: number;
+      t_dtw?: number;
+    }>;
+  }>;
+};
+
+/**
+ * Transcribe by spawning a local whisper.cpp binary (`whisper-cli`, or `main` in older builds);
+ * no server required.
+ */
+export class WhisperCliBackend implements TranscriptionBackend {
+  public readonly name = "whisper.cpp CLI";
+
+  constructor(
+    private readonly settings: Settings,
+    private readonly vaultBasePath: string,
+  ) {}
+
+  public async transcribe({
+    audioFile,
+    language = AUTO_DETECT_LANGUAGE,
+    shouldTranslate = false,
+    onProgress,
+  }: TranscriptionRequest): Promise<TranscriptionResponse> {
+    const binary = this.settings.whisperCliBinaryPath.trim();
+    const model = this.settings.whisperCliModelPath.trim();
+
+    if (!binary || !model) {
+      throw new Error("The whisper.cpp binary and model paths must be set to use the CLI backend.");
+    }
+
+    // The CLI reads the WAV which the AudioProcessor already placed in the cache directory.
+    const inputFilepath = path.join(this.vaultBasePath, audioFile.filepath);
+    const outputBasePath = path.join(this.vaultBasePath, audioFile.directory, `${audioFile.name}.whisper`);
+    const outputFilepath = `${outputBasePath}.json`;
+
+    const args = [
+      ["--model", model],
+      ["--file", inputFilepath],
+      ["--language", language],
+      shouldTranslate ? ["--translate"] : [],
+      ["--temperature", this.settings.temperature ?? "0.0"],
+      ["--temperature-inc", this.settings.temperatureInc ?? "0.2"],
+      ["--output-json"],
+      ["--output-file", outputBasePath],
+      ["--print-progress"],
+    ].flat();
+
+    console.debug(`[Transcription] Spawning: ${binary} ${args.join(" ")}`);
+
+    await this.run(binary, args, onProgress);
+
+    try {
+      const output: WhisperCliOutput = JSON.parse(await readFile(outputFilepath, { encoding: "utf8" }));
+      return normalizeTranscriptionResponse(parseWhisperCliOutput(output));
+    } finally {
+      await unlink(outputFilepath).catch(() => null);
+    }
+  }
+
+  private run(binary: string, args: string[], onProgress?: (percent: number) => void) {
+    return new Promise<void>((resolve, reject) => {
+      const child = spawn(binary, args, { windowsHide: true });
+      let stderrTail = "";
+
+      // whisper.cpp reports progress on stderr; `whisper_print_progress_callback: progress =  40%`
+      child.stderr.on("data", (data: Buffer) => {
+        const text = data.toString();
+        stderrTail = (stderrTail + text).slice(-2000);
+
+        for (const match of text.matchAll(PROGRESS_REGEX)) {
+          onProgress?.(Math.min(100, Number(match[1])));
+        }
+      });
+
+      child.on("error", (error) => reject(new Error(`Failed to start whisper.cpp binary: ${error.message}`)));
+      child.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`whisper.cpp exited with code ${code}: ${stderrTail.trim().split("\n").pop()}`));
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Map the CLI's JSON output onto `TranscriptionResponse`.
+ * Offsets are in milliseconds; special tokens such as `[_BEG_]` are skipped when building words.
+ */
+export const parseWhisperCliOutput = (output: WhisperCliOutput): Partial<TranscriptionResponse> => {
+  const segments: TranscriptionSegment[] = output.transcription.map((item, i) => {
+    const tokens = (item.tokens ?? []).filter((token) => !token.text.startsWith("[_"));
+    const probabilities = tokens.map((token) => token.p).filter((p): p is number => typeof p === "number");
+    const meanProbability = probabilities.length
+      ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+      : null;
+
+    const segment: TranscriptionSegment = {
+      id: i,
+      start: item.offsets.from / 1000,
+      end: item.offsets.to / 1000,
+      text: item.text,
+      tokens: tokens.map((token) => token.id).filter((id): id is number => typeof id === "number"),
+      temperature: 0,
+      avg_logprob: meanProbability ? Math.log(meanProbability) : 0,
+      no_speech_prob: 0,
+    };
+
+    const words = tokensToWords(tokens);
+    return words.length ? { ...segment, words } : segment;
+  });
+
+  const language = output.result?.language ?? output.params?.language ?? "";
+
+  return {
+    task: output.params?.translate ? "translate" : "transcribe",
+    text: segments.map((segment) => segment.text).join(""),
+    language,
+    detected_language: language,
+    duration: segments.length ? segments[segments.length - 1].end : 0,
+    segments,
+  };
+};
+
+/**
+ * Tokens are sub-word pieces; a token starting with a space begins a new word.
+ */
+const tokensToWords = (tokens: NonNullable<WhisperCliOutput["transcription"][number]["tokens"]>) => {
+  const words: TranscriptionWord[] = [];
+
+  tokens.forEach((token) => {
+    if (!token.offsets) {
+      return;
+    }
+
+    const previous = words[words.length - 1];
+    const startsWord = !previous || /^\s/.test(token.text);
+
+    if (startsWord) {
+      words.push({
+        word: token.text.trim(),
+        start: token.offsets.from / 1000,
+        end: token.offsets.to / 1000,
+        t_dtw: token.t_dtw ?? -1,
+        probability: token.p ?? 1,
+      });
+    } else {
+      previous.word += token.text;
+      previous.end = token.offsets.to / 1000;
+      previous.probability = Math.min(previous.probability ?? 1, token.p ?? 1);
+    }
+  });
+
+  return words.filter((word) => word.word.length > 0);
+};
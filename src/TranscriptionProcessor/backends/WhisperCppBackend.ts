@@ -0,0 +1,84 @@
+import axios from "axios";
+import { Settings } from "settings";
+import { TranscriptionResponse } from "types";
+import { AUTO_DETECT_LANGUAGE } from "utils/language";
+import { OBSIDIAN_API_KEY_HEADER_KEY, OBSIDIAN_VAULT_ID_HEADER_KEY, PUBLIC_API_ENDPOINT } from "../../constants";
+import { TranscriptionBackend, TranscriptionRequest } from "./TranscriptionBackend";
+import { normalizeTranscriptionResponse } from "./normalize";
+
+const ONE_MINUTE_IN_MS = 60_000;
+
+/**
+ * Transcribe via a whisper.cpp server's `/inference` endpoint;
+ * either self-hosted or the public VOX API.
+ */
+export class WhisperCppBackend implements TranscriptionBackend {
+  public readonly name = "whisper.cpp";
+
+  constructor(
+    private readonly settings: Settings,
+    private readonly appId: string,
+  ) {}
+
+  public async transcribe({
+    audioFile,
+    audio,
+    language = AUTO_DETECT_LANGUAGE,
+    shouldTranslate = false,
+  }: TranscriptionRequest): Promise<TranscriptionResponse> {
+    const host = this.settings.isSelfHosted ? this.settings.selfHostedEndpoint : PUBLIC_API_ENDPOINT;
+    const url = `${host}/inference`;
+
+    console.debug(`[Transcription] Using ${this.settings.isSelfHosted ? "self-hosted" : "public"} endpoint: ${url}`);
+
+    const mimetype = `audio/${audioFile.extension.replace(".", "")}`;
+    const audioBlob = new Blob([audio], { type: mimetype });
+
+    const temperature = this.settings.temperature ?? "0.0";
+    const temperatureInc = this.settings.temperatureInc ?? "0.2";
+
+    const formData = new FormData();
+    formData.append("file", audioBlob, audioFile.filename);
+    formData.append("temperature", temperature);
+    formData.append("temperature_inc", temperatureInc);
+    formData.append("response_format", "json");
+    formData.append("language", language);
+    formData.append("translate", String(shouldTranslate));
+
+    const headers: Record<string, string> = {};
+
+    // Only add API keys if using the public endpoint
+    if (!this.settings.isSelfHosted) {
+      headers[OBSIDIAN_VAULT_ID_HEADER_KEY] = this.appId;
+      headers[OBSIDIAN_API_KEY_HEADER_KEY] = this.settings.apiKey;
+    }
+
+    console.debug(`[Transcription] Sending request to: ${url}`);
+    console.debug(`[Transcription] Request payload:`, {
+      filename: audioFile.filename,
+      temperature,
+      temperature_inc: temperatureInc,
+      response_format: "json",
+      language,
+      translate: shouldTranslate,
+    });
+
+    const response = await axios.post<TranscriptionResponse>(url, formData, {
+      headers,
+      timeout: 20 * ONE_MINUTE_IN_MS,
+      responseType: "json",
+    });
+
+    console.debug(`[Transcription] Response status: ${response.status}`);
+    console.debug(`[Transcription] Response data keys:`, Object.keys(response.data || {}));
+
+    if (!response.data || response.status !== 200) {
+      console.warn("[Transcription] Invalid response status or missing data");
+      console.warn("[Transcription] Status:", response.status);
+      console.warn("[Transcription] Data:", response.data);
+      throw new Error(`Invalid response status: ${response.status}`);
+    }
+
+    return normalizeTranscriptionResponse(response.data);
+  }
+}
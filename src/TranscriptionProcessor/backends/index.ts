@@ -0,0 +1,32 @@
+import { Settings } from "settings";
+import { TranscriptionBackendType } from "types";
+import { OpenAICompatibleBackend } from "./OpenAICompatibleBackend";
+import { TranscriptionBackend } from "./TranscriptionBackend";
+import { WhisperCliBackend } from "./WhisperCliBackend";
+import { WhisperCppBackend } from "./WhisperCppBackend";
+
+export type { TranscriptionBackend, TranscriptionRequest } from "./TranscriptionBackend";
+
+export type TranscriptionBackendContext = {
+  appId: string;
+  /** Absolute path of the vault on disk; needed by backends which run outside Obsidian */
+  vaultBasePath: string;
+};
+
+/**
+ * Build the transcription backend selected in the user's settings.
+ */
+export const createTranscriptionBackend = (
+  settings: Settings,
+  context: TranscriptionBackendContext,
+): TranscriptionBackend => {
+  switch (settings.transcriptionBackend) {
+    case TranscriptionBackendType.OPENAI_COMPATIBLE:
+      return new OpenAICompatibleBackend(settings);
+    case TranscriptionBackendType.WHISPER_CLI:
+      return new WhisperCliBackend(settings, context.vaultBasePath);
+    case TranscriptionBackendType.WHISPER_CPP:
+    default:
+      return new WhisperCppBackend(settings, context.appId);
+  }
+};
@@ -0,0 +1,92 @@
+import { TranscriptionResponse, TranscriptionSegment, TranscriptionWord } from "types";
+
+/**
+ * Validate a backend's response and fill in anything the rest of the pipeline relies upon.
+ * Throws when the response cannot be used to generate a transcript.
+ */
+export const normalizeTranscriptionResponse = (
+  data: Partial<TranscriptionResponse> | null | undefined,
+): TranscriptionResponse => {
+  if (!data) {
+    throw new Error("Invalid transcription response: no data received");
+  }
+
+  // Validate response has required text field
+  if (typeof data.text !== "string" || !data.text) {
+    console.warn("[Transcription] Missing 'text' field in response");
+    console.warn("[Transcription] Response structure:", data);
+    throw new Error("Invalid transcription response: missing 'text' field");
+  }
+
+  console.debug(`[Transcription] Text field present, length: ${data.text.length}`);
+  console.debug(`[Transcription] Text preview: ${data.text.substring(0, 100)}...`);
+
+  let segments: TranscriptionSegment[];
+
+  // Check if segments field exists
+  if (!data.segments) {
+    console.warn(
+      "[Transcription] Response missing 'segments' field - this may be expected for some whisper.cpp configurations",
+    );
+    console.warn("[Transcription] Available fields:", Object.keys(data));
+    console.warn("[Transcription] Will create segments from text field");
+
+    // Create a single segment from the text if segments are missing
+    segments = [
+      {
+        id: 0,
+        start: 0,
+        end: 0,
+        text: data.text,
+        tokens: [],
+        temperature: 0,
+        avg_logprob: 0,
+        no_speech_prob: 0,
+      },
+    ];
+
+    console.debug("[Transcription] Created synthetic segment from text field");
+  } else if (!Array.isArray(data.segments)) {
+    console.warn("[Transcription] Segments field is not an array");
+    console.warn("[Transcription] Segments type:", typeof data.segments);
+    throw new Error("Invalid transcription response: 'segments' field is not an array");
+  } else if (data.segments.length === 0) {
+    console.warn("[Transcription] Segments array is empty");
+    console.warn("[Transcription] Response data:", data);
+    throw new Error("Transcription returned empty segments array");
+  } else {
+    console.debug(`[Transcription] Segments field present with ${data.segments.length} segment(s)`);
+    segments = data.segments;
+  }
+
+  console.debug("[Transcription] Validation complete - response is valid");
+
+  return {
+    ...data,
+    text: data.text,
+    language: data.language ?? data.detected_language ?? "",
+    segments,
+  };
+};
+
+/**
+ * Some backends (e.g. OpenAI-compatible servers) return words as a flat list alongside the segments.
+ * Place each word into the segment whose time range contains it.
+ */
+export const assignWordsToSegments = (
+  segments: TranscriptionSegment[],
+  words: TranscriptionWord[],
+): TranscriptionSegment[] => {
+  const sortedWords = [...words].sort((a, b) => a.start - b.start);
+
+  return segments.map((segment, i) => {
+    // Words falling just outside the first or last segment still belong to them.
+    const isFirst = i === 0;
+    const isLast = i === segments.length - 1;
+    const segmentWords = sortedWords.filter(
+      (word) => (isFirst || word.start >= segment.start) && (isLast || word.start < segment.end),
+    );
+
+    return segmentWords.length ? { ...segment, words: segmentWords } : segment;
+  });
+};
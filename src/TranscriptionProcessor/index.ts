@@ -1,30 +1,65 @@
 import { AudioProcessor } from "AudioProcessor";
+import { toMono } from "AudioProcessor/resample";
+import { restoreOriginalTimestamps } from "AudioProcessor/silence";
+import { encodeWav } from "AudioProcessor/wav";
+import { PcmWindow } from "AudioRecorder/PcmCapture";
 import { MarkdownProcessor } from "MarkdownProcessor";
-import axios, { HttpStatusCode, isAxiosError } from "axios";
+import { removeNoSpeech } from "MarkdownProcessor/confidence";
+import { mergeRetranscription } from "MarkdownProcessor/revisions";
+import { HttpStatusCode, isAxiosError } from "axios";
 import { randomUUID } from "crypto";
 import matter from "gray-matter";
 import { sha1 } from "hash-wasm";
+import debounce from "lodash/debounce";
 import shuffle from "lodash/shuffle";
+import { DateTime } from "luxon";
 import VoxPlugin from "main";
-import { App, Notice, TFile, TFolder, Vault } from "obsidian";
+import { App, MarkdownView, Notice, TFile, TFolder, Vault, normalizePath } from "obsidian";
 import PQueue from "p-queue";
+import path from "path";
 import {
+  AudioChunkFile,
+  DictationTarget,
   FileDetail,
   MarkdownOutput,
+  RecordingMarker,
+  ResampleQuality,
+  SubtitleFormat,
+  TranscriptionRecord,
   TranscriptionResponse,
+  TranscriptionBackendType,
+  TrimmedAudioFile,
   VoxStatusItem,
   VoxStatusItemStatus,
   VoxStatusMap,
 } from "types";
-import { extractFileDetail } from "utils/format";
+import {
+  AUDIO_EMBED_REGEX,
+  extractFileDetail,
+  formatAudioEmbed,
+  getFileCreationDateTime,
+  isAudioFile,
+} from "utils/format";
 import { Logger } from "utils/log";
+import { DICTATION_SIDECAR_SUFFIX, formatDictation, insertDictation, readDictationSidecar } from "utils/dictation";
+import { MARKER_SIDECAR_SUFFIX, readMarkerSidecar } from "utils/markers";
+import { resolveLanguage } from "utils/language";
+import { SERIES_SIDECAR_SUFFIX, readSeriesSidecar } from "utils/recording";
+import { removeSidecar } from "utils/sidecar";
+import { writeSubtitles } from "utils/subtitles";
+import { TRANSCRIPTION_SIDECAR_SUFFIX, readTranscriptionSidecar, writeTranscriptionSidecar } from "utils/transcription";
 import {
   CACHE_DIRECTORY,
-  OBSIDIAN_API_KEY_HEADER_KEY,
-  OBSIDIAN_VAULT_ID_HEADER_KEY,
-  PUBLIC_API_ENDPOINT,
+  MARKDOWN_DATE_FORMAT,
+  QUEUE_JOURNAL_FILENAME,
+  RELATIVE_AUDIO_FILE_LOCATION,
+  WHISPER_SAMPLE_RATE,
 } from "../constants";
 import { Settings } from "../settings";
+import { LiveTranscriber, LiveTranscriptionState } from "./LiveTranscriber";
+import { QueueJournal } from "./QueueJournal";
+import { TranscriptionBackend, createTranscriptionBackend } from "./backends";
+import { ChunkTranscription, stitchTranscriptions } from "./stitch";
 
 type TranscribedItem = {
   originalAudioFileName: string;
@@ -39,11 +74,42 @@ type TranscriptionCandidate = FileDetail & {
   hash: string;
 };
 
-const ONE_MINUTE_IN_MS = 60_000;
+/**
+ * Re-transcribing a note runs the audio it links to through again, and writes the result over the note.
+ */
+type Retranscription = {
+  notePath: string;
+  /** Where the note's audio is kept; the new transcription is written over it */
+  audioPath: string;
+  /** A copy of the note's audio in the cache; it was converted for whisper the first time round */
+  processedAudio: FileDetail;
+  /** When the audio was recorded, as noted in the frontmatter */
+  recordedAt: DateTime | null;
+  /** Markers kept with the earlier transcription; the recording they came with may be gone */
+  markers?: RecordingMarker[];
+  /** The note for the part before, as linked by the earlier transcription */
+  previousPart?: string | null;
+};
+
+/**
+ * A file on its way through the queue, and how it got there.
+ */
+type QueuedFile = {
+  candidate: TranscriptionCandidate;
+  retranscription?: Retranscription;
+  /** Found by scanning the watch folder, rather than queued by hand; the next scan would find it again */
+  isFromScan: boolean;
+  /** What the chunks transcribed so far came back with, by chunk file; a retry carries on from the chunk which failed */
+  chunkResponses?: Map<string, TranscriptionResponse>;
+};
+
+const JOURNAL_WRITE_DELAY_MS = 1_000;
 
 export type TranscriptionProcessorState = {
   running: boolean;
   items: VoxStatusMap;
+  /** The provisional transcript of the recording being made, when live transcription is on */
+  live: LiveTranscriptionState | null;
 };
 
 type StateSubscriberMap = Record<string, (state: TranscriptionProcessorState) => void>;
@@ -55,10 +121,27 @@ export class TranscriptionProcessor {
   private markdownProcessor: MarkdownProcessor;
   private audioProcessor: AudioProcessor;
   private queue: PQueue;
+  private journal: QueueJournal;
+  private backend: TranscriptionBackend;
+  private liveTranscriber: LiveTranscriber | null = null;
+
+  /** Files waiting in the queue, by hash; a file is only ever queued once at a time */
+  private waiting = new Map<string, QueuedFile>();
+  /** Files being transcribed right now */
+  private processingHashes = new Set<string>();
+  /** Files waiting out the delay before their next attempt */
+  private retrying = new Map<string, { file: QueuedFile; timer: number }>();
 
   public state: TranscriptionProcessorState;
   private subscribers: StateSubscriberMap = {};
 
+  /**
+   * Write the status items to the journal; debounced so bursts of status updates coalesce into one write.
+   */
+  private persistState = debounce(() => this.journal.save(this.state.items), JOURNAL_WRITE_DELAY_MS, {
+    maxWait: 5 * JOURNAL_WRITE_DELAY_MS,
+  });
+
   constructor(
     private readonly app: App,
     private settings: Settings,
@@ -67,34 +150,297 @@ export class TranscriptionProcessor {
   ) {
     this.markdownProcessor = new MarkdownProcessor(app.vault, settings, logger, this.plugin);
     this.audioProcessor = new AudioProcessor(app.appId, app.vault, settings, logger);
+    this.backend = createTranscriptionBackend(settings, this.getBackendContext());
 
-    this.queue = new PQueue({ concurrency: 8 });
+    this.queue = new PQueue({ concurrency: getConcurrency(settings) });
+
+    // Status items are journalled to the plugin folder so they survive restarts.
+    const pluginDirectory = this.plugin.manifest.dir ?? `${app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+    this.journal = new QueueJournal(app.vault.adapter, `${pluginDirectory}/${QUEUE_JOURNAL_FILENAME}`);
 
     // Feed the queue with more files upon idle.
     this.queue.on("idle", () => this.queueFiles());
 
     // Set initial state for the processor; which is fed into the StatusView UI.
-    this.state = { running: !this.queue.isPaused, items: {} };
+    this.state = { running: !this.queue.isPaused, items: {}, live: null };
   }
 
+  /**
+   * @returns Whether the file was queued; it isn't when it's already in the queue.
+   */
   public async queueFile(audioFile: TranscriptionCandidate) {
-    this.queue.add(() => this.processFile(audioFile));
+    // Saved recordings are queued straight away, and then spotted again by the folder watcher.
+    if (this.isQueued(audioFile.hash)) {
+      return false;
+    }
+
+    this.setCanditateStatus(audioFile, VoxStatusItemStatus.QUEUED);
+    this.enqueue({ candidate: audioFile, isFromScan: false });
     new Notice(`Added a new file to the transcription queue.`);
+
+    return true;
   }
 
+  /**
+   * Queue a batch of the files in the watch directory which have yet to be transcribed.
+   * @returns How many files were queued.
+   */
   public async queueFiles() {
     const unprocessed = await this.getUnprocessedFiles();
     const quantity = unprocessed.length;
 
     if (quantity === 0) {
-      return;
+      return 0;
     }
 
     // Add all the unprocessed files to the visual queue.
-    unprocessed.forEach((audio) => this.setCanditateStatus(audio, VoxStatusItemStatus.QUEUED));
+    unprocessed.forEach((audio) => {
+      this.setCanditateStatus(audio, VoxStatusItemStatus.QUEUED);
+      this.enqueue({ candidate: audio, isFromScan: true });
+    });
 
-    this.queue.addAll(unprocessed.map((audio) => () => this.processFile(audio)));
     new Notice(`Added ${quantity} file${quantity > 1 ? "s" : ""} to the transcription queue.`);
+
+    return quantity;
+  }
+
+  /**
+   * Give every file which ran out of attempts a fresh set of retries.
+   * @returns How many files were queued again.
+   */
+  public retryFailed() {
+    const failed = Object.values(this.state.items).filter(
+      (item) => item.status === VoxStatusItemStatus.FAILED && !this.isQueued(item.hash),
+    );
+
+    failed.forEach((item) => {
+      item.retryCount = 0;
+      item.lastRetryAt = null;
+      item.lastError = null;
+
+      const candidate = { ...item.details, isTranscribed: false, hash: item.hash };
+      this.setCanditateStatus(candidate, VoxStatusItemStatus.QUEUED);
+      this.enqueue({ candidate, isFromScan: false });
+    });
+
+    return failed.length;
+  }
+
+  /**
+   * Rebuild every transcript note from the raw transcription kept next to its audio, with the current settings.
+   * Nothing is sent to the transcription backend; notes which have been deleted are written again.
+   * @returns How many notes were rebuilt, and how many saved transcriptions were skipped.
+   */
+  public async regenerateNotes() {
+    const files = this.app.vault.getFiles();
+    const sidecars = files.filter((file) => file.path.endsWith(TRANSCRIPTION_SIDECAR_SUFFIX));
+    let regenerated = 0;
+    let skipped = 0;
+
+    for (const sidecar of sidecars) {
+      const audioFile = getSidecarAudio(sidecar, files);
+      const record = audioFile ? await readTranscriptionSidecar(this.app.vault.adapter, audioFile) : null;
+
+      if (!audioFile || !record) {
+        this.logger.log(`Skipping "${sidecar.path}"; couldn't find its audio or read it`);
+        skipped += 1;
+        continue;
+      }
+
+      try {
+        await this.regenerateNote(audioFile, record);
+        regenerated += 1;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this.logger.log(`Failed to regenerate the note for "${audioFile.filename}": ${errorMsg}`);
+        skipped += 1;
+      }
+    }
+
+    return { regenerated, skipped };
+  }
+
+  private async regenerateNote(audioFile: FileDetail, record: TranscriptionRecord) {
+    const markdown = await this.markdownProcessor.generate(
+      extractFileDetail(record.originalFileName),
+      audioFile,
+      record.originalFileHash,
+      record.transcription,
+      {
+        recordedAt: DateTime.fromISO(record.recordedAt),
+        transcribedAt: DateTime.fromISO(record.transcribedAt),
+        markers: record.markers,
+        previousPart: record.previousPart,
+      },
+    );
+
+    await this.writeSubtitles(audioFile, record.transcription);
+
+    // The note sits one folder up from its audio.
+    const noteLocation = audioFile.directory.replace(/audio\/$/, "");
+    const note = this.app.vault
+      .getMarkdownFiles()
+      .find(
+        (file) =>
+          extractFileDetail(file.path).directory === noteLocation &&
+          this.app.metadataCache.getFileCache(file)?.frontmatter?.original_file_hash === record.originalFileHash,
+      );
+
+    if (!note) {
+      const notePath = await this.getAvailableNotePath(noteLocation, markdown.title, record.originalFileHash);
+      await this.app.vault.adapter.write(notePath, markdown.content);
+      return;
+    }
+
+    // Only the layout has changed, not what was said; the transcript isn't worth keeping as a revision.
+    const existing = await this.app.vault.read(note);
+    const content = mergeRetranscription(existing, markdown.content, false);
+
+    if (content !== existing) {
+      await this.app.vault.modify(note, content);
+    }
+  }
+
+  /**
+   * Transcribe a note's audio again, and replace the note's transcript with the new one.
+   * The note's audio is reused as it is, so this works even once the original recording has been removed.
+   */
+  public async retranscribeNote(notePath: string) {
+    const adapter = this.app.vault.adapter;
+    const { data, content } = matter(await adapter.read(notePath));
+
+    const originalFilename = data["original_file_name"];
+    const hash = data["original_file_hash"];
+
+    if (typeof originalFilename !== "string" || typeof hash !== "string") {
+      throw new Error("This note wasn't transcribed by VOX.");
+    }
+
+    if (this.isQueued(hash)) {
+      throw new Error("This note's audio is already being transcribed.");
+    }
+
+    const audioPath = await this.getNoteAudioPath(notePath, content, hash);
+
+    // Work on a copy in the cache, just like freshly converted audio; it's moved back over the original when done.
+    const processedAudio = extractFileDetail(path.join(CACHE_DIRECTORY, hash, extractFileDetail(audioPath).filename));
+    await adapter.mkdir(processedAudio.directory);
+    if (await adapter.exists(processedAudio.filepath)) {
+      await adapter.remove(processedAudio.filepath);
+    }
+    await adapter.copy(audioPath, processedAudio.filepath);
+
+    // The original recording names and categorises the note; it may still be in the watch directory.
+    const originalFile = this.app.vault
+      .getFiles()
+      .find((file) => file.name === originalFilename && file.path.startsWith(this.settings.watchDirectory));
+    const candidate: TranscriptionCandidate = {
+      ...extractFileDetail(originalFile?.path ?? path.join(this.settings.watchDirectory, originalFilename)),
+      isTranscribed: true,
+      hash,
+    };
+
+    const record = await readTranscriptionSidecar(adapter, extractFileDetail(audioPath));
+    const retranscription: Retranscription = {
+      notePath,
+      audioPath,
+      processedAudio,
+      recordedAt: parseRecordedAt(data["recorded_at"]),
+      markers: record?.markers,
+      previousPart: record?.previousPart,
+    };
+
+    this.setCanditateStatus(candidate, VoxStatusItemStatus.QUEUED);
+    this.enqueue({ candidate, retranscription, isFromScan: false });
+    new Notice(`Added "${extractFileDetail(notePath).name}" to the transcription queue.`);
+  }
+
+  /**
+   * Write subtitles for a note's audio from its saved transcription, in the formats chosen in the settings,
+   * or both when none are.
+   * @returns The paths of the subtitle files written.
+   */
+  public async exportSubtitles(notePath: string) {
+    const { data, content } = matter(await this.app.vault.adapter.read(notePath));
+    const audioFile = extractFileDetail(await this.getNoteAudioPath(notePath, content, data["original_file_hash"]));
+    const record = await readTranscriptionSidecar(this.app.vault.adapter, audioFile);
+
+    if (!record) {
+      throw new Error("There's no saved transcription for this note's audio; re-transcribe it first.");
+    }
+
+    const formats = this.getSubtitleFormats();
+    return this.writeSubtitles(
+      audioFile,
+      record.transcription,
+      formats.length ? formats : Object.values(SubtitleFormat),
+    );
+  }
+
+  /**
+   * The audio a transcript note embeds; or, for a note whose template doesn't embed it, the audio whose saved
+   * transcription came from the same original.
+   */
+  private async getNoteAudioPath(notePath: string, content: string, hash: unknown) {
+    const embeddedAudio = content.match(AUDIO_EMBED_REGEX)?.[1];
+    const noteDirectory = extractFileDetail(notePath).directory;
+    const embeddedPath = embeddedAudio ? path.join(noteDirectory, RELATIVE_AUDIO_FILE_LOCATION, embeddedAudio) : null;
+
+    if (embeddedPath && (await this.app.vault.adapter.exists(embeddedPath))) {
+      return embeddedPath;
+    }
+
+    const audioFile = typeof hash === "string" ? await this.findTranscribedAudio(hash) : null;
+
+    if (!audioFile) {
+      throw new Error("Couldn't find the audio linked in this note.");
+    }
+
+    return audioFile.filepath;
+  }
+
+  /**
+   * The audio transcribed from an original, found by the transcription saved next to it.
+   */
+  private async findTranscribedAudio(hash: string) {
+    const files = this.app.vault.getFiles();
+
+    for (const sidecar of files.filter((file) => file.path.endsWith(TRANSCRIPTION_SIDECAR_SUFFIX))) {
+      const audioFile = getSidecarAudio(sidecar, files);
+      const record = audioFile ? await readTranscriptionSidecar(this.app.vault.adapter, audioFile) : null;
+
+      if (record?.originalFileHash === hash) {
+        return audioFile;
+      }
+    }
+
+    return null;
+  }
+
+  private getSubtitleFormats() {
+    const formats: SubtitleFormat[] = [];
+
+    if (this.settings.shouldExportSrt) {
+      formats.push(SubtitleFormat.SRT);
+    }
+
+    if (this.settings.shouldExportVtt) {
+      formats.push(SubtitleFormat.VTT);
+    }
+
+    return formats;
+  }
+
+  /**
+   * Caption the audio; segments which are left out of the note as non-speech are left out of the captions too.
+   */
+  private async writeSubtitles(
+    audioFile: FileDetail,
+    transcription: TranscriptionResponse,
+    formats = this.getSubtitleFormats(),
+  ) {
+    const segments = removeNoSpeech(transcription.segments, this.settings);
+    return writeSubtitles(this.app.vault.adapter, audioFile, segments, formats, this.settings);
   }
 
   public pause() {
@@ -115,16 +461,127 @@ export class TranscriptionProcessor {
     this.state.running = false;
 
     this.queue.clear();
+    this.clearWaiting();
+    this.notifySubscribers();
+
+    // Make sure the latest state reaches the journal before we're unloaded.
+    this.persistState.flush();
+  }
+
+  /**
+   * Rehydrate status items from the journal written in a previous session, and queue again the files which were
+   * still waiting; scanning the watch folder wouldn't find those queued from elsewhere.
+   * Items whose audio has since been removed from the vault are dropped.
+   */
+  public async restore() {
+    const journalled = await this.journal.load();
+
+    for (const item of Object.values(journalled)) {
+      const stillExists = await this.app.vault.adapter.exists(item.details.filepath);
+
+      if (!stillExists || this.state.items[item.hash]) {
+        continue;
+      }
+
+      this.state.items[item.hash] = item;
+
+      if (item.status === VoxStatusItemStatus.QUEUED && !this.isQueued(item.hash)) {
+        this.enqueue({ candidate: { ...item.details, isTranscribed: false, hash: item.hash }, isFromScan: false });
+      }
+    }
+
+    const restoredCount = Object.keys(this.state.items).length;
+    if (restoredCount > 0) {
+      this.logger.log(`Restored ${restoredCount} item(s) from the transcription queue journal.`);
+    }
+
     this.notifySubscribers();
   }
 
+  /**
+   * Carry on with new settings. Files queued by hand, and re-transcriptions, stay queued, and files waiting to be
+   * retried keep waiting out their delay; files found by scanning the watch folder stay only if they're still in it.
+   */
   public reset(settings: Settings) {
     this.settings = settings;
+    this.backend = createTranscriptionBackend(settings, this.getBackendContext());
+    this.queue.concurrency = getConcurrency(settings);
+
+    const waiting = [...this.waiting.values()];
     this.queue.clear();
+    this.waiting.clear();
+
+    waiting.filter((file) => this.isStillWanted(file)).forEach((file) => this.enqueue(file));
+
+    this.retrying.forEach(({ file, timer }, hash) => {
+      if (!this.isStillWanted(file)) {
+        window.clearTimeout(timer);
+        this.retrying.delete(hash);
+      }
+    });
+
+    this.notifySubscribers();
+  }
+
+  /**
+   * A file found by an earlier scan of a watch folder which has since moved is dropped, along with its status;
+   * it would otherwise show as queued forever.
+   */
+  private isStillWanted(file: QueuedFile) {
+    if (!file.isFromScan || this.isInWatchDirectory(file.candidate)) {
+      return true;
+    }
 
+    delete this.state.items[file.candidate.hash];
+    return false;
+  }
+
+  /**
+   * Start a provisional transcript for a new recording; its windows are transcribed as they're recorded,
+   * outside of the queue.
+   */
+  public startLiveTranscription() {
+    const recordingId = randomUUID();
+
+    this.liveTranscriber = new LiveTranscriber(
+      (window) => this.transcribeLiveWindow(recordingId, window),
+      (live) => {
+        this.state.live = live;
+        this.notifySubscribers();
+      },
+    );
+
+    this.state.live = this.liveTranscriber.state;
+    this.notifySubscribers();
+  }
+
+  /**
+   * Drop the transcript of the last recording, for one made without live transcription.
+   */
+  public clearLiveTranscription() {
+    this.liveTranscriber = null;
+    this.state.live = null;
     this.notifySubscribers();
   }
 
+  public pushLiveWindow(window: PcmWindow) {
+    this.liveTranscriber?.push(window);
+  }
+
+  /**
+   * Link a saved file of the recording to the live transcript, so its full transcription can replace it.
+   */
+  public addLiveTranscriptionFile(hash: string) {
+    this.liveTranscriber?.addFile(hash);
+  }
+
+  /**
+   * The recording has stopped; the provisional transcript stays until the saved files are transcribed.
+   */
+  public finishLiveTranscription() {
+    this.liveTranscriber?.finish();
+  }
+
   /**
    * Subscribe to updates on the processor's state.
    */
@@ -145,28 +602,106 @@ export class TranscriptionProcessor {
    */
   private notifySubscribers() {
     Object.values(this.subscribers).forEach((fn) => fn?.(this.state));
+    this.persistState();
+  }
+
+  private enqueue(file: QueuedFile) {
+    this.waiting.set(file.candidate.hash, file);
+    this.queue.add(() => this.processFile(file));
+  }
+
+  private isQueued(hash: string) {
+    return this.waiting.has(hash) || this.processingHashes.has(hash) || this.retrying.has(hash);
   }
 
-  private async processFile(audioFile: TranscriptionCandidate) {
+  /**
+   * Forget about everything waiting to be transcribed; the files being transcribed right now carry on.
+   */
+  private clearWaiting() {
+    this.retrying.forEach(({ timer }) => window.clearTimeout(timer));
+    this.retrying.clear();
+    this.waiting.clear();
+  }
+
+  private async processFile(file: QueuedFile) {
+    const { candidate: audioFile, retranscription } = file;
     console.debug(`[Transcription] Processing file: ${audioFile.filename}`);
+
+    this.waiting.delete(audioFile.hash);
+    this.processingHashes.add(audioFile.hash);
+
+    let trimmedAudio: TrimmedAudioFile | null = null;
+    let transcriptionAudio: FileDetail | null = null;
+    let chunks: AudioChunkFile[] = [];
     
     try {
       this.setCanditateStatus(audioFile, VoxStatusItemStatus.PROCESSING_AUDIO);
       console.debug(`[Transcription] Status: PROCESSING_AUDIO`);
-      const processedAudio = await this.audioProcessor.transformAudio(audioFile);
+      const processedAudio =
+        retranscription?.processedAudio ?? (await this.audioProcessor.transformAudio(audioFile, audioFile.hash));
+      trimmedAudio = await this.audioProcessor.removeSilence(processedAudio);
+      transcriptionAudio = trimmedAudio?.file ?? processedAudio;
+      chunks = await this.audioProcessor.splitIntoChunks(transcriptionAudio);
 
       this.setCanditateStatus(audioFile, VoxStatusItemStatus.TRANSCRIBING);
       console.debug(`[Transcription] Status: TRANSCRIBING`);
-      const transcribed = await this.transcribe(processedAudio);
+      let transcribed = await this.transcribe(file, transcriptionAudio, chunks);
 
-      if (transcribed && transcribed.segments) {
-        console.debug(`[Transcription] Transcription successful, generating markdown`);
-        const markdown = await this.markdownProcessor.generate(audioFile, processedAudio, audioFile.hash, transcribed);
+      // Timestamps should point into the untrimmed audio, which is what ends up next to the transcript.
+      if (trimmedAudio && transcribed) {
+        transcribed = restoreOriginalTimestamps(transcribed, trimmedAudio.timeMap, trimmedAudio.originalDuration);
+      }
+
+      const dictation = retranscription ? null : await readDictationSidecar(this.app.vault.adapter, audioFile);
+
+      if (transcribed && transcribed.segments && dictation) {
+        console.debug(`[Transcription] Transcription successful, inserting dictation`);
+        const notePath = await this.insertDictation(audioFile, processedAudio, transcribed.text, dictation);
 
-        await this.consolidateFiles(audioFile, processedAudio, markdown);
+        const notice = `Dictation added to ${extractFileDetail(notePath).name}`;
+        this.setCanditateStatus(audioFile, VoxStatusItemStatus.COMPLETE);
+        this.liveTranscriber?.complete(audioFile.hash, transcribed.text);
+
+        console.debug(`[Transcription] Status: COMPLETE`);
+        this.logger.log(notice);
+        new Notice(notice);
+      } else if (transcribed && transcribed.segments) {
+        console.debug(`[Transcription] Transcription successful, generating markdown`);
+        const recordedAt =
+          retranscription?.recordedAt ?? (await getFileCreationDateTime(audioFile, this.app.vault.adapter));
+        const transcribedAt = DateTime.now();
+        const markers = retranscription?.markers ?? (await readMarkerSidecar(this.app.vault.adapter, audioFile));
+        const previousPart = retranscription ? retranscription.previousPart : await this.getPreviousPart(audioFile);
+
+        const markdown = await this.markdownProcessor.generate(audioFile, processedAudio, audioFile.hash, transcribed, {
+          recordedAt,
+          transcribedAt,
+          markers,
+          previousPart,
+        });
+
+        const finalFiles = await this.consolidateFiles(
+          audioFile,
+          processedAudio,
+          markdown,
+          transcribed,
+          retranscription,
+        );
+
+        // Keep the raw transcription, so the note can be rebuilt later without transcribing again.
+        await writeTranscriptionSidecar(this.app.vault.adapter, extractFileDetail(finalFiles.audioFile), {
+          originalFileName: audioFile.filename,
+          originalFileHash: audioFile.hash,
+          recordedAt: recordedAt.toISO() ?? "",
+          transcribedAt: transcribedAt.toISO() ?? "",
+          markers,
+          previousPart: previousPart ?? null,
+          transcription: transcribed,
+        });
 
         const notice = `Transcription complete: ${markdown.title}`;
         this.setCanditateStatus(audioFile, VoxStatusItemStatus.COMPLETE);
+        this.liveTranscriber?.complete(audioFile.hash, transcribed.text);
 
         console.debug(`[Transcription] Status: COMPLETE`);
         this.logger.log(notice);
@@ -177,130 +712,167 @@ export class TranscriptionProcessor {
         console.warn(`[Transcription] transcribed:`, transcribed);
         throw new Error("No valid transcription data received");
       }
+
+      // The processed audio has been moved out of the cache; its folder there is no longer needed.
+      await this.audioProcessor.removeCachedAudio(audioFile.hash);
     } catch (error: unknown) {
       console.warn(`[Transcription] Error during processFile for "${audioFile.filename}"`);
-      this.handleTranscriptionError(audioFile, error);
+      this.handleTranscriptionError(file, error);
+
+      // Chunks are kept for the next attempt; without one they'd be left in the cache for good.
+      if (transcriptionAudio && !this.retrying.has(audioFile.hash)) {
+        await this.audioProcessor.removeChunks(transcriptionAudio, chunks);
+        file.chunkResponses = undefined;
+      }
+    } finally {
+      // The trimmed copy is made again for each attempt, so it never outlives this one.
+      if (trimmedAudio) {
+        await this.audioProcessor.removeTrimmedAudio(trimmedAudio);
+      }
+
+      this.processingHashes.delete(audioFile.hash);
     }
   }
 
-  private async transcribe(audioFile: FileDetail): Promise<TranscriptionResponse | null> {
-    const host = this.settings.isSelfHosted ? this.settings.selfHostedEndpoint : PUBLIC_API_ENDPOINT;
+  /**
+   * The title of the note for the part before, for a file of a split recording. That part is usually transcribed
+   * first, and its note is found by the recording it came from; otherwise it's given the title it will get.
+   */
+  private async getPreviousPart(audioFile: FileDetail) {
+    const previousPath = await readSeriesSidecar(this.app.vault.adapter, audioFile);
 
-    const url = `${host}/inference`;
+    if (!previousPath) {
+      return null;
+    }
 
-    console.debug(`[Transcription] Starting transcription for: ${audioFile.filename}`);
-    console.debug(`[Transcription] Using ${this.settings.isSelfHosted ? 'self-hosted' : 'public'} endpoint: ${url}`);
+    const previousFile = extractFileDetail(previousPath);
+    const note = this.app.vault
+      .getMarkdownFiles()
+      .find(
+        (file) => this.app.metadataCache.getFileCache(file)?.frontmatter?.original_file_name === previousFile.filename,
+      );
 
-    const mimetype = `audio/${audioFile.extension.replace(".", "")}`;
+    if (note) {
+      return note.basename;
+    }
 
-    const audioBinary = await this.app.vault.adapter.readBinary(audioFile.filepath);
-    const audioBlob = new Blob([audioBinary], { type: mimetype });
-    const audioBlobFile = new File([audioBlob], audioFile.filename, {
-      type: mimetype,
-    });
+    if (!(await this.app.vault.adapter.exists(previousFile.filepath))) {
+      return null;
+    }
 
-    console.debug(`[Transcription] Audio file size: ${audioBinary.byteLength} bytes`);
-    console.debug(`[Transcription] Audio file type: ${mimetype}`);
+    const recordedAt = await getFileCreationDateTime(previousFile, this.app.vault.adapter);
+    return this.markdownProcessor.generateMarkdownTitle(previousFile, recordedAt, this.settings);
+  }
 
-    const formData = {
-      file: audioBlobFile,
-      temperature: this.settings.temperature ?? "0.0",
-      temperature_inc: this.settings.temperatureInc ?? "0.2",
-      response_format: "json",
-    };
+  /**
+   * Transcribe the processed audio, one chunk at a time for long recordings, and stitch the chunks back together.
+   *
+   * @note
+   * A failing chunk fails the attempt, and the file is retried as a whole by `handleTranscriptionError`. The chunks
+   * which came back are kept with the file by their chunk file, which is named after the audio and how it was
+   * split, so the retry only sends what's left.
+   */
+  private async transcribe(
+    file: QueuedFile,
+    audioFile: FileDetail,
+    chunks: AudioChunkFile[],
+  ): Promise<TranscriptionResponse | null> {
+    const { candidate } = file;
+    console.debug(`[Transcription] Starting transcription for: ${audioFile.filename}`);
+    console.debug(`[Transcription] Using ${this.backend.name} backend`);
 
-    const headers: Record<string, string> = {
-      "Content-Type": "multipart/form-data",
-    };
+    if (chunks.length === 1) {
+      return this.transcribeChunk(candidate, chunks[0]);
+    }
+
+    const chunkResponses = file.chunkResponses ?? new Map<string, TranscriptionResponse>();
+    file.chunkResponses = chunkResponses;
+    const transcriptions: ChunkTranscription[] = [];
+
+    for (const chunk of chunks) {
+      this.setCandidateChunk(candidate, chunk.index + 1, chunks.length);
 
-    // Only add API keys if using the public endpoint
-    if (!this.settings.isSelfHosted) {
-      headers[OBSIDIAN_VAULT_ID_HEADER_KEY] = this.app.appId;
-      headers[OBSIDIAN_API_KEY_HEADER_KEY] = this.settings.apiKey;
+      let response = chunkResponses.get(chunk.file.filepath);
+      if (!response) {
+        response = await this.transcribeChunk(candidate, chunk);
+        chunkResponses.set(chunk.file.filepath, response);
+      }
+
+      transcriptions.push({ start: chunk.start, end: chunk.end, response });
     }
 
-    console.debug(`[Transcription] Sending request to: ${url}`);
-    console.debug(`[Transcription] Request payload:`, {
-      filename: audioFile.filename,
-      temperature: formData.temperature,
-      temperature_inc: formData.temperature_inc,
-      response_format: formData.response_format,
-    });
+    await this.audioProcessor.removeChunks(audioFile, chunks);
+    file.chunkResponses = undefined;
+
+    return stitchTranscriptions(transcriptions);
+  }
 
-    const response = await axios.postForm<TranscriptionResponse>(url, formData, {
-      headers,
-      timeout: 20 * ONE_MINUTE_IN_MS,
-      responseType: "json",
+  private async transcribeChunk(candidate: TranscriptionCandidate, chunk: AudioChunkFile) {
+    const audio = await this.app.vault.adapter.readBinary(chunk.file.filepath);
+    console.debug(`[Transcription] Audio file size: ${audio.byteLength} bytes`);
+
+    const response = await this.backend.transcribe({
+      audioFile: chunk.file,
+      audio,
+      ...this.getLanguageRequest(candidate.filepath),
+      onProgress: (percent) => this.setCandidateProgress(candidate, percent),
     });
 
-    console.debug(`[Transcription] Response status: ${response.status}`);
-    console.debug(`[Transcription] Response headers:`, response.headers);
-    console.debug(`[Transcription] Response data keys:`, Object.keys(response.data || {}));
-    console.debug(`[Transcription] Full response data:`, JSON.stringify(response.data, null, 2));
+    // Not every backend says it translated; the note should.
+    return this.settings.shouldTranslate ? { ...response, task: "translate" } : response;
+  }
 
-    if (!response.data || response.status !== 200) {
-      console.warn("[Transcription] Invalid response status or missing data");
-      console.warn("[Transcription] Status:", response.status);
-      console.warn("[Transcription] Data:", response.data);
-      throw new Error(`Invalid response status: ${response.status}`);
-    }
+  /**
+   * The language to transcribe in, which may be set for the folder the audio is in, and whether to translate.
+   */
+  private getLanguageRequest(filepath: string) {
+    return {
+      language: resolveLanguage(filepath, this.settings),
+      shouldTranslate: this.settings.shouldTranslate,
+    };
+  }
 
-    // Validate response has required text field
-    if (!response.data.text) {
-      console.warn("[Transcription] Missing 'text' field in response");
-      console.warn("[Transcription] Response structure:", response.data);
-      throw new Error("Invalid transcription response: missing 'text' field");
-    }
+  /**
+   * Transcribe a window of a recording in progress. Whisper is sent exactly what it listens to, 16 kHz mono,
+   * via the cache like any other audio so that every backend can read it.
+   *
+   * @note
+   * Window files are named after their recording too; the windows of an earlier recording may still be in flight.
+   */
+  private async transcribeLiveWindow(recordingId: string, window: PcmWindow): Promise<TranscriptionResponse> {
+    const audio = await encodeWav(await toMono(window.audio, WHISPER_SAMPLE_RATE, ResampleQuality.FAST));
+    const windowNumber = String(window.index).padStart(3, "0");
+    const audioFile = extractFileDetail(`${CACHE_DIRECTORY}/live-${recordingId}-window-${windowNumber}.wav`);
 
-    console.debug(`[Transcription] Text field present, length: ${response.data.text.length}`);
-    console.debug(`[Transcription] Text preview: ${response.data.text.substring(0, 100)}...`);
+    await this.app.vault.adapter.mkdir(CACHE_DIRECTORY);
+    await this.app.vault.adapter.writeBinary(audioFile.filepath, audio);
 
-    // Check if segments field exists
-    if (!response.data.segments) {
-      console.warn("[Transcription] Response missing 'segments' field - this may be expected for some whisper.cpp configurations");
-      console.warn("[Transcription] Available fields:", Object.keys(response.data));
-      console.warn("[Transcription] Will create segments from text field");
-      
-      // Create a single segment from the text if segments are missing
-      response.data.segments = [
-        {
-          id: 0,
-          start: 0,
-          end: 0,
-          text: response.data.text,
-          tokens: [],
-          temperature: 0,
-          avg_logprob: 0,
-          no_speech_prob: 0,
-        },
-      ];
-      
-      console.debug("[Transcription] Created synthetic segment from text field");
-    } else if (!Array.isArray(response.data.segments)) {
-      console.warn("[Transcription] Segments field is not an array");
-      console.warn("[Transcription] Segments type:", typeof response.data.segments);
-      throw new Error("Invalid transcription response: 'segments' field is not an array");
-    } else if (response.data.segments.length === 0) {
-      console.warn("[Transcription] Segments array is empty");
-      console.warn("[Transcription] Response data:", response.data);
-      throw new Error("Transcription returned empty segments array");
-    } else {
-      console.debug(`[Transcription] Segments field present with ${response.data.segments.length} segment(s)`);
+    try {
+      // The recording will be saved to the watch directory; its language applies.
+      const savedPath = `${this.settings.watchDirectory}/${audioFile.filename}`;
+      return await this.backend.transcribe({ audioFile, audio, ...this.getLanguageRequest(savedPath) });
+    } finally {
+      await this.app.vault.adapter.remove(audioFile.filepath);
     }
+  }
 
-    console.debug("[Transcription] Validation complete - response is valid");
-    return response.data;
+  private getBackendContext() {
+    return {
+      appId: this.app.appId,
+      vaultBasePath: this.app.vault.adapter.basePath,
+    };
   }
 
   /**
    * Handle transcription errors with retry logic and geometric backoff.
    */
-  private handleTranscriptionError(audioFile: TranscriptionCandidate, error: unknown) {
+  private handleTranscriptionError(file: QueuedFile, error: unknown) {
+    const audioFile = file.candidate;
     const statusItem = this.state.items[audioFile.hash];
     const currentRetryCount = statusItem?.retryCount ?? 0;
 
     // Increment retry count first
-    this.incrementRetryCount(audioFile);
+    this.incrementRetryCount(audioFile, error);
     
     // Get the new retry count after incrementing
     const newRetryCount = currentRetryCount + 1;
@@ -349,10 +921,13 @@ export class TranscriptionProcessor {
     this.setCanditateStatus(audioFile, VoxStatusItemStatus.QUEUED);
 
     // Schedule retry after backoff delay
-    setTimeout(() => {
+    const timer = window.setTimeout(() => {
       console.debug(`[Transcription] Executing scheduled retry for "${audioFile.filename}"`);
-      this.queue.add(() => this.processFile(audioFile));
+      this.retrying.delete(audioFile.hash);
+      this.enqueue(file);
     }, delay);
+
+    this.retrying.set(audioFile.hash, { file, timer });
   }
 
   /**
@@ -366,32 +941,63 @@ export class TranscriptionProcessor {
   /**
    * Increment the retry count for a file.
    */
-  private incrementRetryCount(candidate: TranscriptionCandidate) {
+  private incrementRetryCount(candidate: TranscriptionCandidate, error: unknown) {
     if (this.state.items[candidate.hash]) {
       this.state.items[candidate.hash].retryCount += 1;
       this.state.items[candidate.hash].lastRetryAt = new Date();
+      this.state.items[candidate.hash].lastError = error instanceof Error ? error.message : String(error);
     }
     this.notifySubscribers();
   }
 
   /**
-   * Move the generated markdown content and the processed audio to their output location.
+   * Move the generated markdown content and the processed audio to their output location;
+   * or, when re-transcribing, back into the note and over the audio it came from.
+   *
+   * @note
+   * Audio from outside the watch folder belongs to the user rather than to VOX; it is never deleted, and its
+   * transcript can be placed next to it.
    */
-  private async consolidateFiles(originalFile: FileDetail, processedAudio: FileDetail, markdown: MarkdownOutput) {
+  private async consolidateFiles(
+    originalFile: TranscriptionCandidate,
+    processedAudio: FileDetail,
+    markdown: MarkdownOutput,
+    transcription: TranscriptionResponse,
+    retranscription?: Retranscription,
+  ) {
+    const notePath = retranscription?.notePath;
     const subdirectory = originalFile.directory
       // eslint-disable-next-line no-useless-escape
       .replace(new RegExp(`^${this.settings.watchDirectory}\/`), "")
       .replace(/\/$/, "");
 
-    const finalMarkdownLocation = subdirectory.length
+    const outputLocation = subdirectory.length
       ? `${this.settings.outputDirectory}/${subdirectory}`
       : this.settings.outputDirectory;
+    const isInWatchDirectory = this.isInWatchDirectory(originalFile);
+    const finalMarkdownLocation = notePath
+      ? extractFileDetail(notePath).directory.replace(/\/$/, "")
+      : !isInWatchDirectory && this.settings.shouldPlaceTranscriptNextToAudio
+        ? originalFile.directory.replace(/\/$/, "")
+        : outputLocation;
+
+    // Normalized, as audio at the root of the vault leaves the location empty.
+    const finalAudioLocation = normalizePath(
+      retranscription ? extractFileDetail(retranscription.audioPath).directory : `${finalMarkdownLocation}/audio`,
+    );
+    const finalMarkdownFilepath =
+      notePath ?? (await this.getAvailableNotePath(finalMarkdownLocation, markdown.title, originalFile.hash));
+    const finalAudioFilepath = retranscription
+      ? retranscription.audioPath
+      : await this.getAvailableAudioPath(finalAudioLocation, processedAudio, originalFile.hash);
+
+    // The note embeds the audio by the name it was processed with; follow it if it had to be renamed.
+    const finalAudioFilename = extractFileDetail(finalAudioFilepath).filename;
+    const markdownContent = markdown.content.replace(formatAudioEmbed(processedAudio.filename), () =>
+      formatAudioEmbed(finalAudioFilename),
+    );
 
-    const finalMarkdownFilepath = `${finalMarkdownLocation}/${markdown.title}.md`;
-    const finalAudioLocation = `${finalMarkdownLocation}/audio`;
-    const finalAudioFilepath = `${finalAudioLocation}/${processedAudio.filename}`;
-
-    await this.app.vault.adapter.mkdir(finalMarkdownLocation);
+    await this.app.vault.adapter.mkdir(normalizePath(finalMarkdownLocation));
     await this.app.vault.adapter.mkdir(finalAudioLocation);
 
     // Remove the resultant audio file if it already exists; this could occur if
@@ -402,15 +1008,26 @@ export class TranscriptionProcessor {
     }
 
     // Move the audio file we placed into the cache in the AudioProcessor step.
-    const cachedTransformedAudioFile = `${CACHE_DIRECTORY}/${processedAudio.filename}`;
-    await this.app.vault.adapter.rename(cachedTransformedAudioFile, finalAudioFilepath);
+    await this.app.vault.adapter.rename(processedAudio.filepath, finalAudioFilepath);
+
+    // Subtitles are a nicety; the transcript is still written if they can't be.
+    try {
+      await this.writeSubtitles(extractFileDetail(finalAudioFilepath), transcription);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.logger.log(`Failed to write subtitles for "${finalAudioFilepath}": ${errorMsg}`);
+    }
 
-    // Write the markdown content to the final location.
-    await this.app.vault.adapter.write(finalMarkdownFilepath, markdown.content);
+    // Write the markdown content to the final location; a re-transcribed note keeps everything around its transcript.
+    const content =
+      notePath && (await this.app.vault.adapter.exists(notePath))
+        ? mergeRetranscription(await this.app.vault.adapter.read(notePath), markdownContent)
+        : markdownContent;
+    await this.app.vault.adapter.write(finalMarkdownFilepath, content);
 
-    // Remove original file if the user desires
-    if (this.settings.shouldDeleteOriginal) {
-      await this.app.vault.adapter.remove(originalFile.filepath);
+    // Remove original file if the user desires, along with any markers recorded with it.
+    if (this.settings.shouldDeleteOriginal && isInWatchDirectory && !notePath) {
+      await this.removeOriginal(originalFile);
     }
 
     return {
@@ -419,6 +1036,147 @@ export class TranscriptionProcessor {
     };
   }
 
+  /**
+   * Put a dictated recording's transcript into the note it was dictated into, in place of the anchor left at the
+   * cursor. The processed audio is kept with the rest of the transcribed audio.
+   *
+   * @note
+   * There's no transcription note to tell the recording has been transcribed, so the original is always removed;
+   * otherwise the next scan of the watch folder would dictate it again.
+   *
+   * @returns The path of the note the dictation went into.
+   */
+  private async insertDictation(
+    originalFile: FileDetail,
+    processedAudio: FileDetail,
+    text: string,
+    target: DictationTarget,
+  ) {
+    const finalAudioLocation = `${this.settings.outputDirectory}/audio`;
+    const finalAudioFilepath = await this.getAvailableAudioPath(finalAudioLocation, processedAudio, null);
+
+    await this.app.vault.adapter.mkdir(finalAudioLocation);
+    await this.app.vault.adapter.rename(processedAudio.filepath, finalAudioFilepath);
+
+    const dictation = formatDictation(text, target.shouldEmbedAudio ? finalAudioFilepath : null);
+    const notePath = await this.writeDictation(originalFile, target, dictation);
+
+    await this.removeOriginal(originalFile);
+
+    return notePath;
+  }
+
+  private async writeDictation(originalFile: FileDetail, target: DictationTarget, dictation: string) {
+    // Edit the open note through its editor, so the cursor and any unsaved typing are left alone.
+    const view = this.app.workspace
+      .getLeavesOfType("markdown")
+      .map((leaf) => leaf.view)
+      .find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === target.notePath);
+    const editor = view?.editor;
+    const offset = editor?.getValue().indexOf(target.anchor) ?? -1;
+
+    if (editor && offset >= 0) {
+      editor.replaceRange(dictation, editor.offsetToPos(offset), editor.offsetToPos(offset + target.anchor.length));
+      return target.notePath;
+    }
+
+    const note = await this.findDictationNote(target);
+
+    if (note) {
+      const content = await this.app.vault.read(note);
+      await this.app.vault.modify(note, insertDictation(content, target.anchor, dictation));
+      return note.path;
+    }
+
+    // The note has gone; keep the dictation in a note of its own rather than lose it.
+    const notePath = `${this.settings.outputDirectory}/${originalFile.name}.md`;
+    await this.app.vault.adapter.mkdir(this.settings.outputDirectory);
+    await this.app.vault.adapter.write(notePath, `${dictation}\n`);
+
+    return notePath;
+  }
+
+  /**
+   * The note dictated into, even if it has been renamed or moved since; the anchor goes with it.
+   */
+  private async findDictationNote(target: DictationTarget) {
+    const note = this.app.vault.getAbstractFileByPath(target.notePath);
+
+    if (note instanceof TFile) {
+      return note;
+    }
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if ((await this.app.vault.cachedRead(file)).includes(target.anchor)) {
+        return file;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Two memos can come out with the same title; number the newer note, rather than write over the other one.
+   * A note for the same audio is written over, as it's been transcribed again.
+   */
+  private async getAvailableNotePath(location: string, title: string, hash: string) {
+    for (let copy = 1; ; copy++) {
+      const filepath = normalizePath(`${location}/${copy > 1 ? `${title} ${copy}` : title}.md`);
+      if (!(await this.app.vault.adapter.exists(filepath))) {
+        return filepath;
+      }
+
+      const note = this.app.vault.getAbstractFileByPath(filepath);
+      const noteHash =
+        note instanceof TFile ? this.app.metadataCache.getFileCache(note)?.frontmatter?.original_file_hash : null;
+
+      if (noteHash === hash) {
+        return filepath;
+      }
+    }
+  }
+
+  /**
+   * Audio names can collide just like titles. Audio is only written over when it was transcribed from the same
+   * original, or when we can't tell, as audio from before transcriptions were saved alongside it.
+   *
+   * @param hash The original the audio was transcribed from; `null` for audio with no transcription kept alongside
+   * it, such as a dictation's, which is never written over anything.
+   */
+  private async getAvailableAudioPath(location: string, processedAudio: FileDetail, hash: string | null) {
+    for (let copy = 1; ; copy++) {
+      const name = copy > 1 ? `${processedAudio.name}-${copy}` : processedAudio.name;
+      const filepath = `${location}/${name}${processedAudio.extension}`;
+
+      if (!(await this.app.vault.adapter.exists(filepath))) {
+        return filepath;
+      }
+
+      if (hash === null) {
+        continue;
+      }
+
+      const record = await readTranscriptionSidecar(this.app.vault.adapter, extractFileDetail(filepath));
+      if (!record || record.originalFileHash === hash) {
+        return filepath;
+      }
+    }
+  }
+
+  private isInWatchDirectory(file: FileDetail) {
+    return file.filepath.startsWith(`${this.settings.watchDirectory}/`);
+  }
+
+  /**
+   * Remove an original recording from the watch folder, along with the sidecars recorded with it.
+   */
+  private async removeOriginal(originalFile: FileDetail) {
+    await this.app.vault.adapter.remove(originalFile.filepath);
+    await removeSidecar(this.app.vault.adapter, originalFile, MARKER_SIDECAR_SUFFIX);
+    await removeSidecar(this.app.vault.adapter, originalFile, DICTATION_SIDECAR_SUFFIX);
+    await removeSidecar(this.app.vault.adapter, originalFile, SERIES_SIDECAR_SUFFIX);
+  }
+
   /**
    * Get a limited number of files that have not already been processed, searching first by filename and then by hash.
    * A reasonable limit here is necessary to avoid smashing the CPU with hash computation or overloading our PQueue
@@ -437,7 +1195,8 @@ export class TranscriptionProcessor {
 
     if (folder instanceof TFolder) {
       Vault.recurseChildren(folder, (file) => {
-        if (file instanceof TFile) {
+        // Skip anything which isn't audio, such as the markers saved alongside recordings.
+        if (file instanceof TFile && isAudioFile(file.path)) {
           potentialCandidates.push(file.path);
         }
       });
@@ -451,7 +1210,7 @@ export class TranscriptionProcessor {
       if (validUnprocessedCandidates.length < FILE_CHUNK_LIMIT) {
         const candidate = await this.getTranscribedStatus(filepath, transcribedFiles);
 
-        if (!candidate.isTranscribed && !this.hasExceededMaxRetries(candidate)) {
+        if (!candidate.isTranscribed && !this.hasExceededMaxRetries(candidate) && !this.isQueued(candidate.hash)) {
           validUnprocessedCandidates.push(candidate);
         }
       }
@@ -472,9 +1231,14 @@ export class TranscriptionProcessor {
   }
 
   public async getTranscribedFiles() {
+    // Transcripts placed next to their audio are found by their frontmatter, wherever they are.
     const transcribedFiles = this.app.vault
       .getMarkdownFiles()
-      .filter((file) => file.path.startsWith(this.settings.outputDirectory));
+      .filter(
+        (file) =>
+          file.path.startsWith(this.settings.outputDirectory) ||
+          this.app.metadataCache.getFileCache(file)?.frontmatter?.original_file_hash,
+      );
 
     const transcribedFilesInfo: TranscribedItem[] = await Promise.all(
       transcribedFiles.map(async (tfile) => {
@@ -535,6 +1299,8 @@ export class TranscriptionProcessor {
         ...this.state.items[candidate.hash],
         finalizedAt,
         status,
+        progress: null,
+        chunk: null,
       };
     } else {
       this.state.items[candidate.hash] = {
@@ -545,9 +1311,62 @@ export class TranscriptionProcessor {
         status,
         retryCount: 0,
         lastRetryAt: null,
+        lastError: null,
+        progress: null,
+        chunk: null,
       };
     }
 
     this.notifySubscribers();
   }
+
+  private setCandidateProgress(candidate: TranscriptionCandidate, percent: number) {
+    const item = this.state.items[candidate.hash];
+
+    if (item && item.progress !== percent) {
+      item.progress = percent;
+      this.notifySubscribers();
+    }
+  }
+
+  private setCandidateChunk(candidate: TranscriptionCandidate, current: number, total: number) {
+    const item = this.state.items[candidate.hash];
+
+    if (item) {
+      item.chunk = { current, total };
+      item.progress = null;
+      this.notifySubscribers();
+    }
+  }
 }
+
+/**
+ * The audio a transcription sidecar was saved next to; it shares the audio's name.
+ */
+const getSidecarAudio = (sidecar: TFile, files: TFile[]) => {
+  const name = sidecar.name.slice(0, -TRANSCRIPTION_SIDECAR_SUFFIX.length);
+  const audio = files.find(
+    (file) => file.parent === sidecar.parent && file.basename === name && isAudioFile(file.path),
+  );
+
+  return audio ? extractFileDetail(audio.path) : null;
+};
+
+/**
+ * Read back the `recorded_at` frontmatter written by the `MarkdownProcessor`.
+ */
+const parseRecordedAt = (recordedAt: unknown): DateTime | null => {
+  const parsed =
+    recordedAt instanceof Date
+      ? DateTime.fromJSDate(recordedAt)
+      : DateTime.fromFormat(String(recordedAt ?? ""), MARKDOWN_DATE_FORMAT);
+
+  return parsed.isValid ? parsed : null;
+};
+
+/**
+ * How many files are transcribed at once. whisper-cli runs on this machine, so its files take turns; several
+ * processes at once would only fight over it.
+ */
+const getConcurrency = (settings: Settings) =>
+  settings.transcriptionBackend === TranscriptionBackendType.WHISPER_CLI ? 1 : 8;
@@ -0,0 +1,117 @@
+import { TranscriptionResponse, TranscriptionSegment } from "types";
+
+/**
+ * The transcription of a single chunk, along with where the chunk sits in the full recording (in seconds).
+ */
+export type ChunkTranscription = {
+  start: number;
+  end: number;
+  response: TranscriptionResponse;
+};
+
+/** How many words at a chunk boundary are compared when removing repeated text */
+const MAX_OVERLAP_WORDS = 20;
+
+/**
+ * Merge chunk transcriptions back into one response covering the full recording.
+ *
+ * Segment (and word) timestamps are shifted by their chunk's start. Where two chunks overlap, the overlapping
+ * region is split down the middle; each segment is kept by the chunk whose half it falls into. Words which
+ * still appear twice across the boundary are then removed from the start of the later segment.
+ */
+export const stitchTranscriptions = (chunks: ChunkTranscription[]): TranscriptionResponse => {
+  const segments: TranscriptionSegment[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const previous = chunks[i - 1];
+    const next = chunks[i + 1];
+
+    const lowerBound = previous ? (chunk.start + previous.end) / 2 : -Infinity;
+    const upperBound = next ? (next.start + chunk.end) / 2 : Infinity;
+
+    chunk.response.segments
+      .map((segment) => offsetSegment(segment, chunk.start))
+      .filter((segment) => {
+        const midpoint = (segment.start + segment.end) / 2;
+        return midpoint >= lowerBound && midpoint < upperBound;
+      })
+      .forEach((segment, j) => {
+        const isFirstOfChunk = j === 0 && segments.length > 0;
+        const deduplicated = isFirstOfChunk ? removeRepeatedWords(segments[segments.length - 1], segment) : segment;
+
+        if (deduplicated.text.trim().length > 0) {
+          segments.push(deduplicated);
+        }
+      });
+  });
+
+  const renumbered = segments.map((segment, id) => ({ ...segment, id }));
+  const first = chunks[0]?.response;
+
+  return {
+    ...first,
+    text: renumbered.map((segment) => segment.text).join(""),
+    language: first?.language ?? "",
+    segments: renumbered,
+    duration: chunks.length ? chunks[chunks.length - 1].end : 0,
+  };
+};
+
+const offsetSegment = (segment: TranscriptionSegment, offset: number): TranscriptionSegment => ({
+  ...segment,
+  start: segment.start + offset,
+  end: segment.end + offset,
+  ...(segment.words && {
+    words: segment.words.map((word) => ({ ...word, start: word.start + offset, end: word.end + offset })),
+  }),
+});
+
+/**
+ * Drop the leading words of `segment` which repeat the trailing words of `previous`.
+ * @example "we went to the" + "to the shops" -> "shops"
+ */
+export const removeRepeatedWords = (
+  previous: TranscriptionSegment,
+  segment: TranscriptionSegment,
+): TranscriptionSegment => {
+  const previousWords = splitWords(previous.text);
+  const words = splitWords(segment.text);
+  const repeated = countRepeatedWords(previousWords.map(normalizeWord), words.map(normalizeWord));
+
+  if (repeated === 0) {
+    return segment;
+  }
+
+  const remaining = words.slice(repeated).join(" ");
+
+  // Word timings can only be trimmed alongside the text when they line up one-to-one.
+  const canTrimWords = segment.words?.length === words.length;
+
+  return {
+    ...segment,
+    text: remaining.length ? ` ${remaining}` : "",
+    ...(canTrimWords && { words: segment.words?.slice(repeated) }),
+  };
+};
+
+/**
+ * The length of the longest run of words which ends `previous` and begins `next`.
+ */
+const countRepeatedWords = (previous: string[], next: string[]) => {
+  const limit = Math.min(previous.length, next.length, MAX_OVERLAP_WORDS);
+
+  for (let length = limit; length > 0; length--) {
+    const tail = previous.slice(previous.length - length);
+    const head = next.slice(0, length);
+
+    if (tail.every((word, i) => word.length > 0 && word === head[i])) {
+      return length;
+    }
+  }
+
+  return 0;
+};
+
+const splitWords = (text: string) => text.trim().split(/\s+/).filter(Boolean);
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
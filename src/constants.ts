@@ -1,20 +1,156 @@
 import { Settings } from "settings";
 
 export const CACHE_DIRECTORY = ".obsidian/.vox-cache";
+
+/**
+ * Files in the watch directory with these extensions are transcribed; anything else is left alone.
+ */
+export const AUDIO_FILE_EXTENSIONS = [".wav", ".mp3", ".m4a", ".aac", ".ogg", ".opus", ".webm", ".flac"];
+
+/**
+ * Recordings are streamed here while they're being made; anything left behind is offered for recovery.
+ */
+export const PARTIAL_RECORDINGS_DIRECTORY = `${CACHE_DIRECTORY}/recordings`;
+
+/**
+ * The queue journal lives in the plugin's own data folder, next to `data.json`.
+ */
+export const QUEUE_JOURNAL_FILENAME = "queue.json";
+/**
+ * Whisper works on 16 kHz mono audio; anything more is discarded by the server.
+ */
+export const WHISPER_SAMPLE_RATE = 16_000;
+
+/**
+ * The languages whisper knows, by their code; backends report either.
+ */
+export const WHISPER_LANGUAGES: Record<string, string> = {
+  en: "english",
+  zh: "chinese",
+  de: "german",
+  es: "spanish",
+  ru: "russian",
+  ko: "korean",
+  fr: "french",
+  ja: "japanese",
+  pt: "portuguese",
+  tr: "turkish",
+  pl: "polish",
+  ca: "catalan",
+  nl: "dutch",
+  ar: "arabic",
+  sv: "swedish",
+  it: "italian",
+  id: "indonesian",
+  hi: "hindi",
+  fi: "finnish",
+  vi: "vietnamese",
+  he: "hebrew",
+  uk: "ukrainian",
+  el: "greek",
+  ms: "malay",
+  cs: "czech",
+  ro: "romanian",
+  da: "danish",
+  hu: "hungarian",
+  ta: "tamil",
+  no: "norwegian",
+  th: "thai",
+  ur: "urdu",
+  hr: "croatian",
+  bg: "bulgarian",
+  lt: "lithuanian",
+  la: "latin",
+  mi: "maori",
+  ml: "malayalam",
+  cy: "welsh",
+  sk: "slovak",
+  te: "telugu",
+  fa: "persian",
+  lv: "latvian",
+  bn: "bengali",
+  sr: "serbian",
+  az: "azerbaijani",
+  sl: "slovenian",
+  kn: "kannada",
+  et: "estonian",
+  mk: "macedonian",
+  br: "breton",
+  eu: "basque",
+  is: "icelandic",
+  hy: "armenian",
+  ne: "nepali",
+  mn: "mongolian",
+  bs: "bosnian",
+  kk: "kazakh",
+  sq: "albanian",
+  sw: "swahili",
+  gl: "galician",
+  mr: "marathi",
+  pa: "punjabi",
+  si: "sinhala",
+  km: "khmer",
+  sn: "shona",
+  yo: "yoruba",
+  so: "somali",
+  af: "afrikaans",
+  oc: "occitan",
+  ka: "georgian",
+  be: "belarusian",
+  tg: "tajik",
+  sd: "sindhi",
+  gu: "gujarati",
+  am: "amharic",
+  yi: "yiddish",
+  lo: "lao",
+  uz: "uzbek",
+  fo: "faroese",
+  ht: "haitian creole",
+  ps: "pashto",
+  tk: "turkmen",
+  nn: "nynorsk",
+  mt: "maltese",
+  sa: "sanskrit",
+  lb: "luxembourgish",
+  my: "myanmar",
+  bo: "tibetan",
+  tl: "tagalog",
+  mg: "malagasy",
+  as: "assamese",
+  tt: "tatar",
+  haw: "hawaiian",
+  ln: "lingala",
+  ha: "hausa",
+  ba: "bashkir",
+  jw: "javanese",
+  su: "sundanese",
+  yue: "cantonese",
+};
+
 export const PUBLIC_API_ENDPOINT = "https://api.obsidian-vox.org:1337";
 
 export const OBSIDIAN_VAULT_ID_HEADER_KEY = "obsidian-vault-id";
 export const OBSIDIAN_API_KEY_HEADER_KEY = "obsidian-vox-api-key";
 
-export const FILENAME_DATE_FORMAT = "yyyyMMdd-hh:mm";
+/** Notes are titled, and their audio named, with these unless the user sets their own; see `utils/filename` */
+export const DEFAULT_TITLE_TEMPLATE = "TXC - {{date:yyyy-MM-dd}} {{name|title}}";
+export const DEFAULT_AUDIO_FILENAME_TEMPLATE = "{{date:yyyyMMdd-HHmm}}-{{name|slug}}";
+
 export const MARKDOWN_DATE_FORMAT = "yyyy-MM-dd hh:mm";
 export const GIT_COMMMIT_DATE_FORMAT = "yyyy-MM-dd hh:mm";
+/** Recordings are named with this timestamp; colons aren't allowed in filenames on every platform. */
+export const RECORDING_DATE_FORMAT = "yyyyMMdd-HHmmss";
 
 export const VALID_HOST_REGEX = new RegExp(
   "^http(s)?://[a-z0-9-]*.[a-z0-9-]*.?([a-z0-9-]*)?.?([a-z0-9-]*)?:[0-9]{2,6}$",
   "gmi"
 );
 
+/**
+ * A looser check for backends which may be served without an explicit port, such as OpenAI-compatible servers.
+ */
+export const VALID_URL_REGEX = /^https?:\/\/[^\s/]+/i;
+
 /**
  * The location that audio files are stored at relative
  * to the output markdown file
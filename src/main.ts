@@ -1,14 +1,38 @@
-import AudioRecorder from "AudioRecorder";
-import { Plugin, TAbstractFile, WorkspaceLeaf, debounce, Notice } from "obsidian";
+import AudioRecorder, { DEFAULT_RECORDING_DETAILS, RECORDING_EXTENSION, RecordedFile } from "AudioRecorder";
+import { PartialRecording } from "AudioRecorder/PartialRecordingStore";
+import { DateTime } from "luxon";
+import { Editor, Plugin, TAbstractFile, TFile, WorkspaceLeaf, debounce, Notice } from "obsidian";
+import path from "path";
 import { DEFAULT_SETTINGS, Settings, VoxSettingTab } from "settings";
+import {
+  DictationTarget,
+  RecordingDetails,
+  RecordingLimitAction,
+  RecordingMarker,
+  RecordingMarkerType,
+  VoxStatusItemStatus,
+} from "types";
+import { createDictationAnchor, writeDictationSidecar } from "utils/dictation";
 import { Logger } from "utils/log";
 import { waitForFileStability } from "utils/fileStability";
+import { extractFileDetail, formatTimestamp, isAudioFile } from "utils/format";
+import { writeMarkerSidecar } from "utils/markers";
+import { buildRecordingFilename, writeSeriesSidecar } from "utils/recording";
+import { MarkerNoteModal } from "view/MarkerNoteModal";
+import { RecoverRecordingsModal } from "view/RecoverRecordingsModal";
+import { renderSeekTimestamps } from "view/SeekTimestamps";
 import { VOX_RECORDER_VIEW, VoxRecorderViewRenderer } from "view/VoxRecorderViewRenderer";
 import { VOX_STATUS_VIEW, VoxStatusViewRenderer } from "view/VoxStatusViewRenderer";
 import { TranscriptionProcessor } from "./TranscriptionProcessor";
 
 const WATCHER_DELAY_MS = 10_000;
 
+const RECOVERED_RECORDING_DETAILS: RecordingDetails = {
+  title: "Recovered recording",
+  categoryKey: null,
+  importance: 1,
+};
+
 export default class VoxPlugin extends Plugin {
   public settings: Settings;
 
@@ -16,6 +40,12 @@ export default class VoxPlugin extends Plugin {
   private recorder: AudioRecorder;
   private logger: Logger;
 
+  // The note the recording in progress is being dictated into, if any
+  private dictation: DictationTarget | null = null;
+
+  // Where the last part of a split recording was saved; the next part's transcript links back to it
+  private previousPart: string | null = null;
+
   // The sidebar leaf UI to view the current status
   private leaf: WorkspaceLeaf | null = null;
 
@@ -28,15 +58,19 @@ export default class VoxPlugin extends Plugin {
 
     this.logger = new Logger(this.manifest);
     this.processor = new TranscriptionProcessor(this.app, this.settings, this.logger, this);
-    this.recorder = new AudioRecorder();
+    this.recorder = new AudioRecorder(this.app.vault);
+
+    // Bring back retry counts, failures and pending work from the previous session.
+    await this.processor.restore();
 
     // Give the app time to load in plugins and run its index check.
     this.app.workspace.onLayoutReady(() => {
       this.queueUnprocessedFiles();
+      this.offerRecordingRecovery();
 
       // Then watch for any changes...
       const queueFromWatcher = async (file: TAbstractFile) => {
-        if (file.path.includes(this.settings.watchDirectory)) {
+        if (file.path.includes(this.settings.watchDirectory) && isAudioFile(file.path)) {
           try {
             // Wait for the file to be stable (non-zero size and not growing)
             await waitForFileStability(
@@ -74,9 +108,288 @@ export default class VoxPlugin extends Plugin {
 
     this.addRibbonIcon("file-audio", "View VOX Status", () => this.activateView(VOX_STATUS_VIEW));
     this.addRibbonIcon("mic", "Record with VOX", () => this.activateView(VOX_RECORDER_VIEW));
+
+    this.registerCommands();
+    this.registerFileMenu();
+
+    // Timestamps in a transcript play the note's audio from that moment.
+    this.registerMarkdownPostProcessor(renderSeekTimestamps);
+  }
+
+  /**
+   * Any audio in the vault can be transcribed from its file menu, not only what lands in the watch folder;
+   * and any transcript can be transcribed again.
+   */
+  private registerFileMenu() {
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (!(file instanceof TFile)) {
+          return;
+        }
+
+        if (isAudioFile(file.path)) {
+          menu.addItem((item) =>
+            item
+              .setTitle("Transcribe with VOX")
+              .setIcon("file-audio")
+              .onClick(() => this.transcribeAudioFile(file.path))
+          );
+        } else if (this.isTranscriptNote(file)) {
+          menu.addItem((item) =>
+            item
+              .setTitle("Re-transcribe with VOX")
+              .setIcon("file-audio")
+              .onClick(() => this.retranscribeNote(file.path))
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * Every action is a command, so that VOX can be driven from the keyboard and given hotkeys.
+   * Commands which don't apply right now are hidden from the command palette.
+   */
+  private registerCommands() {
+    this.addCommand({
+      id: "start-recording",
+      name: "Start recording",
+      checkCallback: (checking) => {
+        if (this.recorder.state.recordingState !== "idle") {
+          return false;
+        }
+
+        if (!checking) {
+          this.activateView(VOX_RECORDER_VIEW);
+          this.startRecording();
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "dictate-at-cursor",
+      name: "Dictate at cursor",
+      editorCheckCallback: (checking, editor, view) => {
+        if (this.recorder.state.recordingState !== "idle" || !view.file) {
+          return false;
+        }
+
+        if (!checking) {
+          this.dictateAtCursor(editor, view.file);
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "pause-recording",
+      name: "Pause recording",
+      checkCallback: (checking) => {
+        if (this.recorder.state.recordingState !== "recording") {
+          return false;
+        }
+
+        if (!checking) {
+          this.recorder.pause();
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "resume-recording",
+      name: "Resume recording",
+      checkCallback: (checking) => {
+        if (this.recorder.state.recordingState !== "paused") {
+          return false;
+        }
+
+        if (!checking) {
+          this.recorder.resume();
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "stop-recording",
+      name: "Stop recording and transcribe",
+      checkCallback: (checking) => {
+        if (this.recorder.state.recordingState === "idle") {
+          return false;
+        }
+
+        if (!checking) {
+          this.saveRecording();
+        }
+
+        return true;
+      },
+    });
+
+    // Markers can be dropped by hotkey, without looking away from the conversation.
+    this.addCommand({
+      id: "add-marker-important",
+      name: "Add marker: important",
+      checkCallback: (checking) =>
+        this.checkAddMarker(checking, () => this.addRecordingMarker(RecordingMarkerType.IMPORTANT)),
+    });
+
+    this.addCommand({
+      id: "add-marker-action-item",
+      name: "Add marker: action item",
+      checkCallback: (checking) =>
+        this.checkAddMarker(checking, () => this.addRecordingMarker(RecordingMarkerType.ACTION_ITEM)),
+    });
+
+    this.addCommand({
+      id: "add-marker-note",
+      name: "Add marker with note",
+      checkCallback: (checking) => this.checkAddMarker(checking, () => this.addRecordingMarkerWithNote()),
+    });
+
+    this.addCommand({
+      id: "open-status-view",
+      name: "Open status view",
+      callback: () => this.activateView(VOX_STATUS_VIEW),
+    });
+
+    this.addCommand({
+      id: "pause-queue",
+      name: "Pause transcription queue",
+      checkCallback: (checking) => {
+        if (!this.processor.state.running) {
+          return false;
+        }
+
+        if (!checking) {
+          this.processor.pause();
+          new Notice("Paused the transcription queue.");
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "resume-queue",
+      name: "Resume transcription queue",
+      checkCallback: (checking) => {
+        if (this.processor.state.running) {
+          return false;
+        }
+
+        if (!checking) {
+          this.processor.resume();
+          new Notice("Resumed the transcription queue.");
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "rescan-watch-folder",
+      name: "Rescan watch folder",
+      callback: async () => {
+        const quantity = await this.processor.queueFiles();
+
+        if (quantity === 0) {
+          new Notice("No new audio files to transcribe in the watch folder.");
+        }
+      },
+    });
+
+    this.addCommand({
+      id: "retry-failed",
+      name: "Retry failed transcriptions",
+      checkCallback: (checking) => {
+        const hasFailed = Object.values(this.processor.state.items).some(
+          (item) => item.status === VoxStatusItemStatus.FAILED
+        );
+
+        if (!hasFailed) {
+          return false;
+        }
+
+        if (!checking) {
+          const quantity = this.processor.retryFailed();
+          new Notice(`Retrying ${quantity} failed transcription${quantity > 1 ? "s" : ""}.`);
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "transcribe-active-audio",
+      name: "Transcribe active audio file",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+
+        if (!file || !isAudioFile(file.path)) {
+          return false;
+        }
+
+        if (!checking) {
+          this.transcribeAudioFile(file.path);
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "retranscribe-active-note",
+      name: "Re-transcribe active note",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+
+        if (!file || !this.isTranscriptNote(file)) {
+          return false;
+        }
+
+        if (!checking) {
+          this.retranscribeNote(file.path);
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "export-subtitles",
+      name: "Export subtitles for active note",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+
+        if (!file || !this.isTranscriptNote(file)) {
+          return false;
+        }
+
+        if (!checking) {
+          this.exportSubtitles(file.path);
+        }
+
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "regenerate-notes",
+      name: "Regenerate notes from saved transcriptions",
+      callback: () => this.regenerateNotes(),
+    });
   }
 
   async onunload(): Promise<void> {
+    // A recording in progress would otherwise keep the microphone open, and its timers firing.
+    this.recorder.dispose();
     this.processor.stop();
   }
 
@@ -109,8 +422,333 @@ export default class VoxPlugin extends Plugin {
     workspace.revealLeaf(this.leaf);
   }
 
+  /**
+   * Start recording from the preferred device, limited to the maximum length set in the settings.
+   */
+  public async startRecording() {
+    const isLive = this.settings.isLiveTranscriptionEnabled;
+
+    if (isLive) {
+      this.processor.startLiveTranscription();
+    } else {
+      this.processor.clearLiveTranscription();
+    }
+
+    try {
+      await this.recorder.record(this.settings.recordingDeviceId, {
+        maxDurationSeconds: this.settings.maxRecordingMinutes * 60,
+        onLimitReached: () => this.onRecordingLimitReached(),
+        silenceWarningSeconds: this.settings.silenceWarningSeconds,
+        onPcmWindow: isLive ? (window) => this.processor.pushLiveWindow(window) : undefined,
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const userError = `Failed to start recording: ${errorMsg}`;
+
+      this.logger.log(userError);
+      new Notice(userError);
+    }
+  }
+
+  /**
+   * Record straight into a note: an anchor is left at the cursor, and the transcript takes its place once ready.
+   */
+  private async dictateAtCursor(editor: Editor, file: TFile) {
+    const anchor = createDictationAnchor(Date.now().toString(36));
+    editor.replaceRange(anchor, editor.getCursor());
+
+    this.dictation = {
+      notePath: file.path,
+      anchor,
+      shouldEmbedAudio: this.settings.shouldEmbedDictationAudio,
+    };
+
+    await this.startRecording();
+
+    if (this.recorder.state.recordingState === "idle") {
+      const offset = editor.getValue().indexOf(anchor);
+
+      if (offset >= 0) {
+        editor.replaceRange("", editor.offsetToPos(offset), editor.offsetToPos(offset + anchor.length));
+      }
+
+      this.dictation = null;
+      return;
+    }
+
+    new Notice(`Dictating into ${file.basename}…`);
+  }
+
+  /**
+   * Queue an audio file from anywhere in the vault, unless it has been transcribed already.
+   */
+  private async transcribeAudioFile(filepath: string) {
+    try {
+      const transcribedFilesInfo = await this.processor.getTranscribedFiles();
+      const candidate = await this.processor.getTranscribedStatus(filepath, transcribedFilesInfo);
+
+      if (candidate.isTranscribed) {
+        new Notice("This audio has already been transcribed; re-transcribe its note instead.");
+      } else if (!(await this.processor.queueFile(candidate))) {
+        new Notice("This audio is already in the transcription queue.");
+      } else {
+        new Notice(`Queued "${candidate.filename}" for transcription.`);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const userError = `Failed to queue audio file: ${errorMsg}`;
+
+      this.logger.log(userError);
+      new Notice(userError);
+    }
+  }
+
+  private isTranscriptNote(file: TFile) {
+    return Boolean(this.app.metadataCache.getFileCache(file)?.frontmatter?.original_file_hash);
+  }
+
+  private async retranscribeNote(notePath: string) {
+    try {
+      await this.processor.retranscribeNote(notePath);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const userError = `Failed to re-transcribe note: ${errorMsg}`;
+
+      this.logger.log(userError);
+      new Notice(userError);
+    }
+  }
+
+  private async exportSubtitles(notePath: string) {
+    try {
+      const subtitles = await this.processor.exportSubtitles(notePath);
+      new Notice(`Exported ${subtitles.map((filepath) => extractFileDetail(filepath).filename).join(" and ")}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const userError = `Failed to export subtitles: ${errorMsg}`;
+
+      this.logger.log(userError);
+      new Notice(userError);
+    }
+  }
+
+  /**
+   * Rebuild every note from its saved transcription, to apply changed settings without transcribing again.
+   */
+  private async regenerateNotes() {
+    try {
+      const { regenerated, skipped } = await this.processor.regenerateNotes();
+      const skippedMsg = skipped > 0 ? ` Skipped ${skipped}; see the log for why.` : "";
+      new Notice(`Regenerated ${regenerated} note(s) from saved transcriptions.${skippedMsg}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const userError = `Failed to regenerate notes: ${errorMsg}`;
+
+      this.logger.log(userError);
+      new Notice(userError);
+    }
+  }
+
+  /**
+   * Flag the current moment of the recording.
+   */
+  public addRecordingMarker(type: RecordingMarkerType, text?: string, time?: number) {
+    const marker = this.recorder.addMarker(type, text, time);
+
+    if (marker) {
+      new Notice(`Marker added at ${formatTimestamp(marker.time)}.`);
+    }
+  }
+
+  /**
+   * Ask for the marker's text; it is placed at the moment it was asked for, not when the text is entered.
+   */
+  public addRecordingMarkerWithNote() {
+    const time = this.recorder.getElapsedSeconds();
+
+    new MarkerNoteModal(this.app, (text) => this.addRecordingMarker(RecordingMarkerType.NOTE, text, time)).open();
+  }
+
+  private checkAddMarker(checking: boolean, addMarker: () => void) {
+    if (this.recorder.state.recordingState === "idle") {
+      return false;
+    }
+
+    if (!checking) {
+      addMarker();
+    }
+
+    return true;
+  }
+
+  /**
+   * Stop the current recording, save it into the watch directory and queue it for transcription straight away.
+   */
+  public async saveRecording() {
+    if (this.recorder.state.recordingState === "idle") {
+      return;
+    }
+
+    const { details, startedAt, part } = this.recorder.state;
+
+    try {
+      const recorded = await this.recorder.stop();
+
+      // A recording which was never split is saved without a part number.
+      await this.saveRecordedFile(recorded, details, startedAt, part > 1 ? part : null);
+      this.recorder.setDetails(DEFAULT_RECORDING_DETAILS);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const userError = `Failed to save recording: ${errorMsg}`;
+
+      this.logger.log(userError);
+      new Notice(userError);
+    }
+
+    this.dictation = null;
+    this.processor.finishLiveTranscription();
+  }
+
+  /**
+   * Save and queue the recording so far, while the recorder carries on into the next part.
+   */
+  private async splitRecording() {
+    const { details, startedAt } = this.recorder.state;
+
+    try {
+      const recorded = await this.recorder.split();
+      await this.saveRecordedFile(recorded, details, startedAt, recorded.part);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const userError = `Failed to split recording: ${errorMsg}`;
+
+      this.logger.log(userError);
+      new Notice(userError);
+    }
+  }
+
+  private async onRecordingLimitReached() {
+    // A dictation goes in one place, so it is never split.
+    if (this.settings.recordingLimitAction === RecordingLimitAction.SPLIT && !this.dictation) {
+      await this.splitRecording();
+      return;
+    }
+
+    new Notice("Reached the maximum recording length; saving the recording.");
+    await this.saveRecording();
+  }
+
+  /**
+   * Every part of a split recording is named after the time the recording started, so they sort together.
+   */
+  private async saveRecordedFile(
+    recorded: RecordedFile,
+    details: RecordingDetails,
+    startedAt: number | null,
+    part: number | null
+  ) {
+    const recordedAt = startedAt ? DateTime.fromMillis(startedAt) : DateTime.now();
+    const filepath = await this.getAvailableRecordingPath(details, recordedAt, part);
+
+    await this.recorder.saveBlobAsFile(recorded.blob, filepath);
+    await this.saveRecordingMarkers(filepath, recorded.markers);
+
+    if (part !== null && part > 1 && this.previousPart) {
+      await writeSeriesSidecar(this.app.vault.adapter, extractFileDetail(filepath), this.previousPart);
+    }
+    this.previousPart = part !== null ? filepath : null;
+
+    if (this.dictation) {
+      await writeDictationSidecar(this.app.vault.adapter, extractFileDetail(filepath), this.dictation);
+    }
+
+    await this.recorder.discardPersistedRecording(recorded.recordingId);
+
+    const candidate = await this.queueSavedRecording(filepath);
+    this.processor.addLiveTranscriptionFile(candidate.hash);
+  }
+
+  /**
+   * Recordings are named to the second; on the rare clash, number the newer one.
+   */
+  private async getAvailableRecordingPath(details: RecordingDetails, recordedAt: DateTime, part: number | null = null) {
+    const name = buildRecordingFilename(details, this.settings, recordedAt, part);
+    let filepath = path.join(this.settings.watchDirectory, `${name}${RECORDING_EXTENSION}`);
+
+    for (let copy = 2; await this.app.vault.adapter.exists(filepath); copy++) {
+      filepath = path.join(this.settings.watchDirectory, `${name} ${copy}${RECORDING_EXTENSION}`);
+    }
+
+    return filepath;
+  }
+
+  /**
+   * Markers travel next to the audio, so they are still found if it sits in the queue for a while.
+   */
+  private async saveRecordingMarkers(filepath: string, markers: RecordingMarker[]) {
+    if (markers.length > 0) {
+      await writeMarkerSidecar(this.app.vault.adapter, extractFileDetail(filepath), markers);
+    }
+  }
+
+  private async queueSavedRecording(filepath: string) {
+    this.logger.log(`Saved recording to "${filepath}".`);
+
+    const transcribedFilesInfo = await this.processor.getTranscribedFiles();
+    const candidate = await this.processor.getTranscribedStatus(filepath, transcribedFilesInfo);
+
+    this.processor.queueFile(candidate);
+
+    return candidate;
+  }
+
+  /**
+   * Recordings are streamed to the cache while they're made; any still there at startup were never saved.
+   */
+  private async offerRecordingRecovery() {
+    const recordings = await this.recorder.partialRecordings.list();
+
+    if (recordings.length === 0) {
+      return;
+    }
+
+    new RecoverRecordingsModal(this.app, recordings, (shouldRecover) =>
+      shouldRecover ? this.recoverRecordings(recordings) : this.discardRecordings(recordings)
+    ).open();
+  }
+
+  private async recoverRecordings(recordings: PartialRecording[]) {
+    for (const recording of recordings) {
+      try {
+        const data = await this.recorder.partialRecordings.read(recording);
+        const recordedAt = DateTime.fromMillis(recording.startedAt);
+        const filepath = await this.getAvailableRecordingPath(RECOVERED_RECORDING_DETAILS, recordedAt);
+
+        await this.recorder.saveBlobAsFile(new Blob([data], { type: recording.mimeType }), filepath);
+        await this.saveRecordingMarkers(filepath, recording.markers);
+        await this.recorder.partialRecordings.remove(recording.id);
+
+        await this.queueSavedRecording(filepath);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        const userError = `Failed to recover recording: ${errorMsg}`;
+
+        this.logger.log(userError);
+        new Notice(userError);
+      }
+    }
+  }
+
+  private async discardRecordings(recordings: PartialRecording[]) {
+    for (const recording of recordings) {
+      await this.recorder.partialRecordings.remove(recording.id);
+    }
+
+    this.logger.log(`Discarded ${recordings.length} unfinished recording(s).`);
+  }
+
   private queueUnprocessedFiles() {
-    // Reset the queue and re-collect files.
+    // Carry on with the new settings, and re-collect files.
     this.processor.reset(this.settings);
     this.logger.log("Adding files to transcription queue.");
 
@@ -1,13 +1,34 @@
 import AudioRecorder from "AudioRecorder";
+import startCase from "lodash/startCase";
 import TemplaterPlugin from "main";
 import { PluginSettingTab, Setting, TextComponent, getIcon } from "obsidian";
-import { AudioOutputExtension } from "types";
-import { VALID_HOST_REGEX } from "../constants";
+import {
+  AudioOutputExtension,
+  LowConfidenceStyle,
+  NoSpeechAction,
+  RecordingLimitAction,
+  ResampleQuality,
+  TranscriptLayout,
+  TranscriptionBackendType,
+} from "types";
+import { validateFilenameTemplate } from "utils/filename";
+import { AUTO_DETECT_LANGUAGE, formatLanguageOverrides, parseLanguageOverrides } from "utils/language";
+import {
+  DEFAULT_AUDIO_FILENAME_TEMPLATE,
+  DEFAULT_TITLE_TEMPLATE,
+  VALID_HOST_REGEX,
+  VALID_URL_REGEX,
+  WHISPER_LANGUAGES,
+} from "../constants";
+import { FileSuggest } from "./suggesters/FileSuggester";
 import { FolderSuggest } from "./suggesters/FolderSuggester";
 
 const TAG_SETTINGS_CLASS = "st-tag-setting";
 const CATEGORIZATION_SETTINGS_CLASS = "st-cate-setting";
 const SELF_HOSTING_CLASS = "self-host-setting";
+const OPENAI_BACKEND_CLASS = "openai-backend-setting";
+const WHISPER_CLI_BACKEND_CLASS = "whisper-cli-backend-setting";
+const SILENCE_TRIMMING_CLASS = "silence-trimming-setting";
 const HIDDEN_CLASS = "st-hidden";
 
 export interface Settings {
@@ -16,12 +37,68 @@ export interface Settings {
   isSelfHosted: boolean;
   selfHostedEndpoint: string;
 
+  /** Which service performs the transcription */
+  transcriptionBackend: TranscriptionBackendType;
+  openAICompatibleEndpoint: string;
+  openAICompatibleApiKey: string;
+  openAICompatibleModel: string;
+  whisperCliBinaryPath: string;
+  whisperCliModelPath: string;
+
   recordingDeviceId: string | null;
+  /** Recordings are limited to this many minutes; 0 for no limit */
+  maxRecordingMinutes: number;
+  recordingLimitAction: RecordingLimitAction;
+  /** Warn when the microphone has been silent this many seconds into a recording; 0 to never warn */
+  silenceWarningSeconds: number;
+  /** Transcribe while recording, to show a provisional transcript in the recorder */
+  isLiveTranscriptionEnabled: boolean;
+  /** Follow dictated text with an embed of the audio it was transcribed from */
+  shouldEmbedDictationAudio: boolean;
 
   watchDirectory: string;
   outputDirectory: string;
+  /** Audio transcribed from outside the watch folder gets its note beside it, not in the output directory */
+  shouldPlaceTranscriptNextToAudio: boolean;
+  /** The language to transcribe in, as a code, or `auto` to detect it */
+  language: string;
+  /** Languages for the audio in particular folders, by folder path */
+  languageOverrides: Record<string, string>;
+  /** Translate the speech into English rather than transcribe it */
+  shouldTranslate: boolean;
+  /** A note in the vault to lay out transcripts with; the built-in layout when empty */
+  noteTemplatePath: string;
+  /** Whether the transcript is timestamped, by paragraph or by segment */
+  transcriptLayout: TranscriptLayout;
+  /** A pause this long after a sentence starts a new paragraph */
+  paragraphPauseSeconds: number;
+  /** Paragraphs end at the first sentence end after this many words */
+  paragraphTargetWords: number;
+  /** How words whisper wasn't sure of are marked */
+  lowConfidenceStyle: LowConfidenceStyle;
+  /** Words with a probability below this are marked, from 0 to 1 */
+  lowConfidenceThreshold: number;
+  /** Whether segments which are probably not speech are kept, flagged or dropped */
+  noSpeechAction: NoSpeechAction;
+  /** Segments with a no-speech probability of at least this are flagged or dropped, from 0 to 1 */
+  noSpeechThreshold: number;
+
+  // Subtitles, written next to the audio of each transcript
+  shouldExportSrt: boolean;
+  shouldExportVtt: boolean;
+  /** Characters on a line of a caption */
+  subtitleMaxLineLength: number;
+  /** Seconds a caption is shown for, at most */
+  subtitleMaxCueSeconds: number;
+  /** Time captions by their words, when the backend reports word timings */
+  shouldTimeSubtitlesByWord: boolean;
+  /** How notes are titled, and so named; see `utils/filename` for the tokens */
+  titleTemplate: string;
+  /** How the processed audio next to each note is named */
+  audioFilenameTemplate: string;
 
   audioOutputExtension: AudioOutputExtension;
+  resampleQuality: ResampleQuality;
   shouldDeleteOriginal: boolean;
 
   shouldCommitChanges: boolean;
@@ -41,6 +118,16 @@ export interface Settings {
   temperature: string;
   temperatureInc: string;
 
+  // Silence trimming, before transcription
+  shouldTrimSilence: boolean;
+  silenceThresholdDb: number;
+  minSilenceSeconds: number;
+  silencePaddingSeconds: number;
+
+  // Long recordings are transcribed in overlapping chunks
+  chunkLengthSeconds: number;
+  chunkOverlapSeconds: number;
+
   // Retry settings
   maxRetries: number;
   retryBaseDelayMs: number;
@@ -57,11 +144,44 @@ export const DEFAULT_SETTINGS: Settings = {
   isSelfHosted: false,
   selfHostedEndpoint: "",
 
+  transcriptionBackend: TranscriptionBackendType.WHISPER_CPP,
+  openAICompatibleEndpoint: "",
+  openAICompatibleApiKey: "",
+  openAICompatibleModel: "whisper-1",
+  whisperCliBinaryPath: "",
+  whisperCliModelPath: "",
+
   recordingDeviceId: null,
+  maxRecordingMinutes: 20,
+  recordingLimitAction: RecordingLimitAction.STOP,
+  silenceWarningSeconds: 10,
+  isLiveTranscriptionEnabled: false,
+  shouldEmbedDictationAudio: false,
 
   audioOutputExtension: AudioOutputExtension.WAV, // Fixed to WAV for whisper.cpp
+  resampleQuality: ResampleQuality.HIGH,
   outputDirectory: "Voice",
   watchDirectory: "Voice/unprocessed",
+  shouldPlaceTranscriptNextToAudio: false,
+  language: AUTO_DETECT_LANGUAGE,
+  languageOverrides: {},
+  shouldTranslate: false,
+  noteTemplatePath: "",
+  transcriptLayout: TranscriptLayout.PLAIN,
+  paragraphPauseSeconds: 1.5,
+  paragraphTargetWords: 80,
+  lowConfidenceStyle: LowConfidenceStyle.NONE,
+  lowConfidenceThreshold: 0.5,
+  noSpeechAction: NoSpeechAction.KEEP,
+  noSpeechThreshold: 0.6,
+
+  shouldExportSrt: false,
+  shouldExportVtt: false,
+  subtitleMaxLineLength: 42,
+  subtitleMaxCueSeconds: 7,
+  shouldTimeSubtitlesByWord: true,
+  titleTemplate: DEFAULT_TITLE_TEMPLATE,
+  audioFilenameTemplate: DEFAULT_AUDIO_FILENAME_TEMPLATE,
   commitMessageTemplate: "🤖 {datetime} Transcribed {amount} File(s)",
 
   shouldDeleteOriginal: false,
@@ -84,6 +204,16 @@ export const DEFAULT_SETTINGS: Settings = {
   temperature: "0.0",
   temperatureInc: "0.2",
 
+  // Silence trimming defaults
+  shouldTrimSilence: false,
+  silenceThresholdDb: -45,
+  minSilenceSeconds: 2,
+  silencePaddingSeconds: 0.5,
+
+  // Chunking defaults
+  chunkLengthSeconds: 300, // 5 minutes
+  chunkOverlapSeconds: 5,
+
   // Retry defaults
   maxRetries: 3,
   retryBaseDelayMs: 5000, // 5 seconds
@@ -104,13 +234,23 @@ export class VoxSettingTab extends PluginSettingTab {
 
     this.addCategoryHeading("Recording Settings");
     await this.addRecordingDevice();
+    this.addRecordingLimit();
+    this.addSilenceWarning();
+    this.addLiveTranscription();
+    this.addDictationAudio();
 
     this.addCategoryHeading("Transcription Settings");
 
     this.addWatchDirectory();
     this.addTranscriptionsDirectory();
+    this.addTranscriptNextToAudio();
+    this.addNoteTemplate();
+    this.addTranscriptLayout();
+    this.addTitleTemplate();
+    this.addAudioFilenameTemplate();
 
     this.addAudioExtension();
+    this.addResampleQuality();
     this.addDeleteOriginalFile();
 
     // Ready for Version 2
@@ -119,9 +259,30 @@ export class VoxSettingTab extends PluginSettingTab {
     this.addTags();
     this.addCategorisation();
 
+    this.addCategoryHeading("Language Settings");
+    this.addLanguageSettings();
+
+    this.addCategoryHeading("Paragraph Settings");
+    this.addParagraphSettings();
+
+    this.addCategoryHeading("Confidence Settings");
+    this.addConfidenceSettings();
+
+    this.addCategoryHeading("Subtitle Settings");
+    this.addSubtitleSettings();
+
+    this.addCategoryHeading("Transcription Backend");
+    this.addTranscriptionBackend();
+
     this.addCategoryHeading("Whisper Settings");
     this.addWhisperSettings();
 
+    this.addCategoryHeading("Silence Trimming");
+    this.addSilenceTrimmingSettings();
+
+    this.addCategoryHeading("Long Recording Settings");
+    this.addChunkingSettings();
+
     this.addCategoryHeading("File Watching Settings");
     this.addFileWatchingSettings();
 
@@ -137,7 +298,7 @@ export class VoxSettingTab extends PluginSettingTab {
   }
 
   async addRecordingDevice() {
-    const recorder = new AudioRecorder();
+    const recorder = new AudioRecorder(this.app.vault);
     const devices = await recorder.getInputDevices();
     const existing = devices.find((device) => device.deviceId === this.plugin.settings.recordingDeviceId);
 
@@ -162,6 +323,101 @@ export class VoxSettingTab extends PluginSettingTab {
     console.log("index ➡️ setting.controlEl.children:", setting.controlEl.children);
   }
 
+  addRecordingLimit(): void {
+    new Setting(this.containerEl)
+      .setName("Maximum Recording Length (minutes)")
+      .setDesc("Recordings made with the VOX recorder are limited to this length. Set to 0 for no limit.")
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0",
+          max: "600",
+          step: "5",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.maxRecordingMinutes));
+        cb.onChange((value) => {
+          const minutes = parseInt(value);
+          this.plugin.settings.maxRecordingMinutes = isNaN(minutes) ? 20 : Math.max(minutes, 0);
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("At the Maximum Length")
+      .setDesc(
+        "Either stop and transcribe the recording, or save it and keep recording into a new file. Split recordings become a numbered series of notes, each linking back to the part before.",
+      )
+      .addDropdown((cb) => {
+        cb.addOption(RecordingLimitAction.STOP, "Stop recording");
+        cb.addOption(RecordingLimitAction.SPLIT, "Split into a series");
+
+        cb.setValue(this.plugin.settings.recordingLimitAction);
+        cb.onChange((action) => {
+          this.plugin.settings.recordingLimitAction = action as RecordingLimitAction;
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addSilenceWarning(): void {
+    new Setting(this.containerEl)
+      .setName("Silent Microphone Warning (seconds)")
+      .setDesc(
+        "Warn when the microphone hasn't picked anything up for this long while recording; usually the wrong input device. Set to 0 to never warn.",
+      )
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0",
+          max: "300",
+          step: "5",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.silenceWarningSeconds));
+        cb.onChange((value) => {
+          const seconds = parseInt(value);
+          this.plugin.settings.silenceWarningSeconds = isNaN(seconds) ? 10 : Math.max(seconds, 0);
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addLiveTranscription(): void {
+    const description = document.createDocumentFragment();
+    description.append(
+      "Show a provisional transcript in the recorder while recording, by sending the audio to the transcription backend every 5 seconds as it is recorded.",
+      description.createEl("br"),
+      "The saved recording is still transcribed in full, and replaces the provisional transcript when done. Every update is a request to the backend; best used with a self-hosted one.",
+    );
+
+    new Setting(this.containerEl)
+      .setName("Live Transcription")
+      .setDesc(description)
+      .addToggle((cb) => {
+        cb.setValue(this.plugin.settings.isLiveTranscriptionEnabled);
+        cb.onChange((isEnabled) => {
+          this.plugin.settings.isLiveTranscriptionEnabled = isEnabled;
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addDictationAudio(): void {
+    new Setting(this.containerEl)
+      .setName("Embed Dictated Audio")
+      .setDesc(
+        "When dictating into a note, follow the dictated text with an embed of its recording. The audio is kept in the transcriptions directory either way.",
+      )
+      .addToggle((cb) => {
+        cb.setValue(this.plugin.settings.shouldEmbedDictationAudio);
+        cb.onChange((shouldEmbed) => {
+          this.plugin.settings.shouldEmbedDictationAudio = shouldEmbed;
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
   addWatchDirectory(): void {
     new Setting(this.containerEl)
       .setName("Watch Location")
@@ -194,6 +450,116 @@ export class VoxSettingTab extends PluginSettingTab {
       });
   }
 
+  addTranscriptNextToAudio(): void {
+    const description = document.createDocumentFragment();
+    description.append(
+      'When transcribing audio from elsewhere in the vault ("Transcribe with VOX" in the file menu), place the note in the same folder as the audio rather than in the transcriptions folder.',
+      description.createEl("br"),
+      "Audio from outside the watch folder is never removed.",
+    );
+
+    new Setting(this.containerEl)
+      .setName("Place Transcript Next to Audio")
+      .setDesc(description)
+      .addToggle((cb) => {
+        cb.setValue(this.plugin.settings.shouldPlaceTranscriptNextToAudio);
+        cb.onChange((shouldPlace) => {
+          this.plugin.settings.shouldPlaceTranscriptNextToAudio = shouldPlace;
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addNoteTemplate(): void {
+    const description = document.createDocumentFragment();
+    description.append(
+      "A note to lay out your transcripts with, using placeholders such as {{title}}, {{audio_embed}} and {{transcript}}; see the README for the full list.",
+      description.createEl("br"),
+      "Leave empty for the built-in layout.",
+    );
+
+    new Setting(this.containerEl)
+      .setName("Note Template")
+      .setDesc(description)
+      .addSearch((cb) => {
+        new FileSuggest(cb.inputEl);
+        cb.setPlaceholder("Example: Templates/Transcript.md")
+          .setValue(this.plugin.settings.noteTemplatePath)
+          .onChange((newFile) => {
+            this.plugin.settings.noteTemplatePath = newFile;
+            this.plugin.saveSettings();
+          });
+      });
+  }
+
+  addTranscriptLayout(): void {
+    new Setting(this.containerEl)
+      .setName("Transcript Timestamps")
+      .setDesc(
+        "Start each paragraph, or each segment on a line of its own, with a timestamp. Click a timestamp in reading view to play the note's audio from there.",
+      )
+      .addDropdown((cb) => {
+        cb.addOption(TranscriptLayout.PLAIN, "None");
+        cb.addOption(TranscriptLayout.PARAGRAPH_TIMESTAMPS, "Each paragraph");
+        cb.addOption(TranscriptLayout.SEGMENT_TIMESTAMPS, "Each segment");
+
+        cb.setValue(this.plugin.settings.transcriptLayout);
+        cb.onChange((layout) => {
+          this.plugin.settings.transcriptLayout = layout as TranscriptLayout;
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addTitleTemplate(): void {
+    this.addFilenameTemplate(
+      "Title Template",
+      "How transcript notes are titled, and so named. Use {{name}}, {{date:yyyy-MM-dd}} with any Luxon date format, {{category}}, {{category_key}} and {{importance}}; add |title, |slug, |lower or |upper to change how a token is written.",
+      DEFAULT_TITLE_TEMPLATE,
+      () => this.plugin.settings.titleTemplate,
+      (template) => (this.plugin.settings.titleTemplate = template),
+    );
+  }
+
+  addAudioFilenameTemplate(): void {
+    this.addFilenameTemplate(
+      "Audio Filename Template",
+      "How the audio kept next to each note is named, with the same tokens as the title template.",
+      DEFAULT_AUDIO_FILENAME_TEMPLATE,
+      () => this.plugin.settings.audioFilenameTemplate,
+      (template) => (this.plugin.settings.audioFilenameTemplate = template),
+    );
+  }
+
+  /**
+   * A template is only saved when it's valid; otherwise the field is outlined in red, with the reason on hover.
+   */
+  private addFilenameTemplate(
+    name: string,
+    description: string,
+    placeholder: string,
+    getTemplate: () => string,
+    setTemplate: (template: string) => void,
+  ): void {
+    new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(description)
+      .addText((cb) => {
+        cb.setPlaceholder(placeholder);
+        cb.setValue(getTemplate());
+        cb.onChange((template) => {
+          const error = validateFilenameTemplate(template);
+          cb.inputEl.style.borderColor = error ? "red" : "unset";
+          cb.inputEl.title = error ?? "";
+
+          if (!error) {
+            setTemplate(template);
+            this.plugin.saveSettings();
+          }
+        });
+      });
+  }
+
   addAudioExtension(): void {
     const description = document.createDocumentFragment();
     description.append(
@@ -212,6 +578,29 @@ export class VoxSettingTab extends PluginSettingTab {
       });
   }
 
+  addResampleQuality(): void {
+    const description = document.createDocumentFragment();
+    description.append(
+      "Audio is converted to 16 kHz mono before transcription; the only format whisper listens to.",
+      description.createEl("br"),
+      "High quality filters the audio properly while resampling. Fast is quicker on long recordings but can add faint artifacts.",
+    );
+
+    new Setting(this.containerEl)
+      .setName("Resampling Quality")
+      .setDesc(description)
+      .addDropdown((cb) => {
+        cb.addOption(ResampleQuality.HIGH, "High");
+        cb.addOption(ResampleQuality.FAST, "Fast");
+
+        cb.setValue(this.plugin.settings.resampleQuality);
+        cb.onChange((quality) => {
+          this.plugin.settings.resampleQuality = quality as ResampleQuality;
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
   addDeleteOriginalFile(): void {
     const description = document.createDocumentFragment();
     description.append(
@@ -566,6 +955,126 @@ export class VoxSettingTab extends PluginSettingTab {
     this.toggleSettingsVisibility(SELF_HOSTING_CLASS, this.plugin.settings.isSelfHosted);
   }
 
+  addTranscriptionBackend(): void {
+    const description = document.createDocumentFragment();
+    description.append(
+      "whisper.cpp uses the public VOX API or your self-hosted whisper.cpp server.",
+      description.createEl("br"),
+      "OpenAI-compatible works with faster-whisper-server, LocalAI and other servers exposing ",
+      description.createEl("code", { text: "/v1/audio/transcriptions", cls: "st-inline-code" }),
+      ".",
+      description.createEl("br"),
+      "whisper.cpp CLI runs a local whisper.cpp binary directly; desktop only.",
+    );
+
+    new Setting(this.containerEl)
+      .setName("Backend")
+      .setDesc(description)
+      .addDropdown((cb) => {
+        cb.addOption(TranscriptionBackendType.WHISPER_CPP, "whisper.cpp");
+        cb.addOption(TranscriptionBackendType.OPENAI_COMPATIBLE, "OpenAI-compatible");
+        cb.addOption(TranscriptionBackendType.WHISPER_CLI, "whisper.cpp CLI");
+
+        cb.setValue(this.plugin.settings.transcriptionBackend);
+        cb.onChange((backend) => {
+          this.plugin.settings.transcriptionBackend = backend as TranscriptionBackendType;
+          this.plugin.saveSettings();
+
+          this.toggleBackendSettingsVisibility(backend as TranscriptionBackendType);
+        });
+      });
+
+    this.addOpenAICompatibleSettings();
+    this.addWhisperCliSettings();
+
+    this.toggleBackendSettingsVisibility(this.plugin.settings.transcriptionBackend);
+  }
+
+  toggleBackendSettingsVisibility(backend: TranscriptionBackendType) {
+    this.toggleSettingsVisibility(OPENAI_BACKEND_CLASS, backend === TranscriptionBackendType.OPENAI_COMPATIBLE);
+    this.toggleSettingsVisibility(WHISPER_CLI_BACKEND_CLASS, backend === TranscriptionBackendType.WHISPER_CLI);
+  }
+
+  addWhisperCliSettings(): void {
+    new Setting(this.containerEl)
+      .setName("whisper.cpp Binary")
+      .setClass(WHISPER_CLI_BACKEND_CLASS)
+      .setDesc("Absolute path to the whisper-cli binary (named main in older whisper.cpp builds).")
+      .addText((cb) => {
+        cb.setPlaceholder("/usr/local/bin/whisper-cli");
+        cb.setValue(this.plugin.settings.whisperCliBinaryPath);
+        cb.onChange((binaryPath) => {
+          this.plugin.settings.whisperCliBinaryPath = binaryPath.trim();
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("whisper.cpp Model")
+      .setClass(WHISPER_CLI_BACKEND_CLASS)
+      .setDesc("Absolute path to a ggml model file.")
+      .addText((cb) => {
+        cb.setPlaceholder("/path/to/ggml-base.en.bin");
+        cb.setValue(this.plugin.settings.whisperCliModelPath);
+        cb.onChange((modelPath) => {
+          this.plugin.settings.whisperCliModelPath = modelPath.trim();
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addOpenAICompatibleSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Endpoint")
+      .setClass(OPENAI_BACKEND_CLASS)
+      .setDesc("The base URL of your OpenAI-compatible server, including the protocol and port.")
+      .addText((cb) => {
+        const endpoint = this.plugin.settings.openAICompatibleEndpoint;
+        if (endpoint && !endpoint.match(VALID_URL_REGEX)) {
+          cb.inputEl.style.borderColor = "red";
+        }
+
+        cb.setPlaceholder("http://127.0.0.1:8000");
+        cb.setValue(this.plugin.settings.openAICompatibleEndpoint);
+        cb.onChange((newEndpoint) => {
+          if (newEndpoint.match(VALID_URL_REGEX)) {
+            cb.inputEl.style.borderColor = "unset";
+
+            this.plugin.settings.openAICompatibleEndpoint = newEndpoint;
+            this.plugin.saveSettings();
+          } else {
+            cb.inputEl.style.borderColor = "red";
+          }
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Model")
+      .setClass(OPENAI_BACKEND_CLASS)
+      .setDesc("The model name your server expects; for example whisper-1 or Systran/faster-whisper-small.")
+      .addText((cb) => {
+        cb.setPlaceholder("whisper-1");
+        cb.setValue(this.plugin.settings.openAICompatibleModel);
+        cb.onChange((model) => {
+          this.plugin.settings.openAICompatibleModel = model.trim();
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("API Key")
+      .setClass(OPENAI_BACKEND_CLASS)
+      .setDesc("Sent as a Bearer token. Leave empty if your server does not require authentication.")
+      .addText((cb) => {
+        cb.inputEl.type = "password";
+        cb.setValue(this.plugin.settings.openAICompatibleApiKey);
+        cb.onChange((apiKey) => {
+          this.plugin.settings.openAICompatibleApiKey = apiKey.trim();
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
   addWhisperSettings(): void {
     new Setting(this.containerEl)
       .setName("Temperature")
@@ -658,6 +1167,377 @@ export class VoxSettingTab extends PluginSettingTab {
       });
   }
 
+  addSilenceTrimmingSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Trim Silence")
+      .setDesc(
+        "Remove long pauses before transcribing; whisper tends to invent text over silence. Timestamps still match the original audio.",
+      )
+      .addToggle((cb) => {
+        cb.setValue(this.plugin.settings.shouldTrimSilence);
+        cb.onChange((shouldTrim) => {
+          this.plugin.settings.shouldTrimSilence = shouldTrim;
+          this.plugin.saveSettings();
+
+          this.toggleSettingsVisibility(SILENCE_TRIMMING_CLASS, shouldTrim);
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Silence Threshold (dB)")
+      .setClass(SILENCE_TRIMMING_CLASS)
+      .setDesc("Audio quieter than this counts as silence. Raise it (e.g. -35) for noisy recordings.")
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "-80",
+          max: "-10",
+          step: "1",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.silenceThresholdDb));
+        cb.onChange((value) => {
+          const threshold = parseFloat(value);
+          this.plugin.settings.silenceThresholdDb = isNaN(threshold) ? -45 : Math.min(threshold, 0);
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Minimum Silence (seconds)")
+      .setClass(SILENCE_TRIMMING_CLASS)
+      .setDesc("Only pauses at least this long are trimmed.")
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0.5",
+          max: "30",
+          step: "0.5",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.minSilenceSeconds));
+        cb.onChange((value) => {
+          const minSilence = parseFloat(value);
+          this.plugin.settings.minSilenceSeconds = isNaN(minSilence) ? 2 : Math.max(minSilence, 0.5);
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Silence Padding (seconds)")
+      .setClass(SILENCE_TRIMMING_CLASS)
+      .setDesc("Silence kept either side of speech, so that quiet word endings aren't clipped.")
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0",
+          max: "2",
+          step: "0.1",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.silencePaddingSeconds));
+        cb.onChange((value) => {
+          const padding = parseFloat(value);
+          this.plugin.settings.silencePaddingSeconds = isNaN(padding) ? 0.5 : Math.max(padding, 0);
+          this.plugin.saveSettings();
+        });
+      });
+
+    this.toggleSettingsVisibility(SILENCE_TRIMMING_CLASS, this.plugin.settings.shouldTrimSilence);
+  }
+
+  addLanguageSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Language")
+      .setDesc(
+        "The language your recordings are in. Setting it avoids whisper guessing wrong on short or quiet recordings.",
+      )
+      .addDropdown((cb) => {
+        cb.addOption(AUTO_DETECT_LANGUAGE, "Detect automatically");
+        Object.entries(WHISPER_LANGUAGES)
+          .sort(([, a], [, b]) => a.localeCompare(b))
+          .forEach(([code, name]) => cb.addOption(code, `${startCase(name)} (${code})`));
+
+        cb.setValue(this.plugin.settings.language);
+        cb.onChange((language) => {
+          this.plugin.settings.language = language;
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Folder Languages")
+      .setDesc(
+        'Audio in these folders, and the folders within them, is transcribed in another language. One folder a line, as "folder: language", where the language is a code such as "de", or "auto" to detect it.',
+      )
+      .addTextArea((cb) => {
+        cb.inputEl.style.minWidth = "4rem";
+        cb.inputEl.style.maxWidth = "20rem";
+        cb.inputEl.rows = 3;
+
+        cb.setPlaceholder("Voice/unprocessed/Deutsch: de");
+        cb.setValue(formatLanguageOverrides(this.plugin.settings.languageOverrides));
+        cb.onChange((value) => {
+          const { overrides, error } = parseLanguageOverrides(value);
+          cb.inputEl.style.borderColor = error ? "red" : "unset";
+          cb.inputEl.title = error ?? "";
+
+          if (!error) {
+            this.plugin.settings.languageOverrides = overrides;
+            this.plugin.saveSettings();
+          }
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Translate to English")
+      .setDesc("Translate what was said into English, rather than transcribe it in the language it was spoken.")
+      .addToggle((cb) => {
+        cb.setValue(this.plugin.settings.shouldTranslate);
+        cb.onChange((shouldTranslate) => {
+          this.plugin.settings.shouldTranslate = shouldTranslate;
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addParagraphSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Paragraph Pause (seconds)")
+      .setDesc(
+        "A pause at least this long between sentences starts a new paragraph. A pause twice as long starts one even mid-sentence.",
+      )
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0.5",
+          max: "10",
+          step: "0.5",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.paragraphPauseSeconds));
+        cb.onChange((value) => {
+          const pause = parseFloat(value);
+          this.plugin.settings.paragraphPauseSeconds = isNaN(pause) ? 1.5 : Math.max(pause, 0.5);
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Paragraph Length (words)")
+      .setDesc(
+        "Once a paragraph has this many words, it ends with the sentence in progress. One running on to twice the length is broken regardless.",
+      )
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "10",
+          max: "500",
+          step: "10",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.paragraphTargetWords));
+        cb.onChange((value) => {
+          const words = parseInt(value);
+          this.plugin.settings.paragraphTargetWords = isNaN(words) ? 80 : Math.max(words, 10);
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addConfidenceSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Mark Uncertain Words")
+      .setDesc(
+        `Mark the words whisper wasn't sure of, to proofread against the audio. A span has the "vox-low-confidence" class, to style with a CSS snippet. Needs a backend which reports word probabilities.`,
+      )
+      .addDropdown((cb) => {
+        cb.addOption(LowConfidenceStyle.NONE, "Don't mark");
+        cb.addOption(LowConfidenceStyle.HIGHLIGHT, "Highlight");
+        cb.addOption(LowConfidenceStyle.SPAN, "Span");
+
+        cb.setValue(this.plugin.settings.lowConfidenceStyle);
+        cb.onChange((style) => {
+          this.plugin.settings.lowConfidenceStyle = style as LowConfidenceStyle;
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Uncertain Word Probability")
+      .setDesc("Words whisper gave a probability below this, from 0 to 1, are marked.")
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0",
+          max: "1",
+          step: "0.05",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.lowConfidenceThreshold));
+        cb.onChange((value) => {
+          const threshold = parseFloat(value);
+          this.plugin.settings.lowConfidenceThreshold = isNaN(threshold) ? 0.5 : Math.min(Math.max(threshold, 0), 1);
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Likely Non-Speech")
+      .setDesc(
+        `Whisper tends to invent text, such as "Thanks for watching", over silence and noise. Keep such segments, strike them through to check against the audio, or leave them out.`,
+      )
+      .addDropdown((cb) => {
+        cb.addOption(NoSpeechAction.KEEP, "Keep");
+        cb.addOption(NoSpeechAction.FLAG, "Strike through");
+        cb.addOption(NoSpeechAction.DROP, "Leave out");
+
+        cb.setValue(this.plugin.settings.noSpeechAction);
+        cb.onChange((action) => {
+          this.plugin.settings.noSpeechAction = action as NoSpeechAction;
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Non-Speech Probability")
+      .setDesc(
+        "Segments whisper thought at least this likely, from 0 to 1, to have no speech are struck through or left out.",
+      )
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0",
+          max: "1",
+          step: "0.05",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.noSpeechThreshold));
+        cb.onChange((value) => {
+          const threshold = parseFloat(value);
+          this.plugin.settings.noSpeechThreshold = isNaN(threshold) ? 0.6 : Math.min(Math.max(threshold, 0), 1);
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addSubtitleSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Export SRT Subtitles")
+      .setDesc("Write an .srt file of captions next to the audio of each transcript.")
+      .addToggle((cb) => {
+        cb.setValue(this.plugin.settings.shouldExportSrt);
+        cb.onChange((shouldExport) => {
+          this.plugin.settings.shouldExportSrt = shouldExport;
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Export WebVTT Subtitles")
+      .setDesc("Write a .vtt file of captions next to the audio of each transcript.")
+      .addToggle((cb) => {
+        cb.setValue(this.plugin.settings.shouldExportVtt);
+        cb.onChange((shouldExport) => {
+          this.plugin.settings.shouldExportVtt = shouldExport;
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Caption Line Length (characters)")
+      .setDesc("Captions are shown two lines at a time, each no longer than this.")
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "16",
+          max: "80",
+          step: "1",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.subtitleMaxLineLength));
+        cb.onChange((value) => {
+          const length = parseInt(value);
+          this.plugin.settings.subtitleMaxLineLength = isNaN(length) ? 42 : Math.max(length, 16);
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Caption Duration (seconds)")
+      .setDesc("A caption is shown for this long at most, before the next one takes over.")
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "1",
+          max: "20",
+          step: "0.5",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.subtitleMaxCueSeconds));
+        cb.onChange((value) => {
+          const seconds = parseFloat(value);
+          this.plugin.settings.subtitleMaxCueSeconds = isNaN(seconds) ? 7 : Math.max(seconds, 1);
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Time Captions by Word")
+      .setDesc(
+        "Start and end captions exactly on the words they show, when the backend reports word timings. Otherwise a segment's time is shared out between its captions.",
+      )
+      .addToggle((cb) => {
+        cb.setValue(this.plugin.settings.shouldTimeSubtitlesByWord);
+        cb.onChange((shouldTime) => {
+          this.plugin.settings.shouldTimeSubtitlesByWord = shouldTime;
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
+  addChunkingSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Chunk Length (seconds)")
+      .setDesc(
+        "Recordings longer than this are split into chunks which are transcribed one by one; a retry carries on from the chunk which failed. Set to 0 to never split.",
+      )
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0",
+          max: "3600",
+          step: "60",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.chunkLengthSeconds));
+        cb.onChange((value) => {
+          const chunkLength = parseInt(value);
+          this.plugin.settings.chunkLengthSeconds = isNaN(chunkLength) ? 300 : Math.max(chunkLength, 0);
+          this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Chunk Overlap (seconds)")
+      .setDesc("How much neighbouring chunks overlap, so that words on a boundary are not cut in half.")
+      .addText((cb) => {
+        cb.inputEl.setAttrs({
+          type: "number",
+          min: "0",
+          max: "30",
+          step: "1",
+        });
+        cb.inputEl.style.maxWidth = "8rem";
+        cb.setValue(String(this.plugin.settings.chunkOverlapSeconds));
+        cb.onChange((value) => {
+          const overlap = parseInt(value);
+          this.plugin.settings.chunkOverlapSeconds = isNaN(overlap) ? 5 : Math.max(overlap, 0);
+          this.plugin.saveSettings();
+        });
+      });
+  }
+
   addFileWatchingSettings(): void {
     new Setting(this.containerEl)
       .setName("File Stability Delay (ms)")
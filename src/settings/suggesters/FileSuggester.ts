@@ -0,0 +1,22 @@
+// Credits go to Liam's Periodic Notes Plugin: https://github.com/liamcain/obsidian-periodic-notes
+
+import { TFile } from "obsidian";
+import { TextInputSuggest } from "./suggest";
+
+export class FileSuggest extends TextInputSuggest<TFile> {
+  getSuggestions(inputStr: string): TFile[] {
+    const lowerCaseInputStr = inputStr.toLowerCase();
+
+    return app.vault.getMarkdownFiles().filter((file) => file.path.toLowerCase().contains(lowerCaseInputStr));
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.setText(file.path);
+  }
+
+  selectSuggestion(file: TFile): void {
+    this.inputEl.value = file.path;
+    this.inputEl.trigger("input");
+    this.close();
+  }
+}
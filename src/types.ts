@@ -30,6 +30,13 @@ export type VoxStatusItem = {
   // Retry tracking
   retryCount: number;
   lastRetryAt: Date | null;
+  lastError: string | null;
+
+  /** Transcription progress as a percentage, for backends which report it */
+  progress: number | null;
+
+  /** Which chunk of a long recording is being transcribed, if it was split */
+  chunk: { current: number; total: number } | null;
 };
 
 /**
@@ -94,7 +101,8 @@ export type TranscriptionWord = {
   start: number;
   end: number;
   t_dtw: number;
-  probability: number;
+  /** Left out by backends which don't score their words */
+  probability?: number;
 };
 
 export type TranscriptionSegment = {
@@ -138,6 +146,45 @@ export type FileDetail = {
   filepath: string;
 };
 
+/**
+ * Decoded PCM audio; one array of samples per channel.
+ */
+export type DecodedAudio = {
+  sampleRate: number;
+  channelData: Float32Array[];
+};
+
+/**
+ * A window of a long recording which is transcribed on its own.
+ * Times are in seconds, relative to the start of the full recording.
+ */
+export type AudioChunkFile = {
+  index: number;
+  start: number;
+  end: number;
+  file: FileDetail;
+};
+
+/**
+ * The stretches of the original audio which were kept after silence trimming, in order.
+ * Times are in seconds; `trimmedStart` is where the stretch begins in the trimmed audio.
+ */
+export type TimeMap = Array<{
+  trimmedStart: number;
+  originalStart: number;
+  duration: number;
+}>;
+
+/**
+ * A copy of the processed audio with its long silences removed.
+ */
+export type TrimmedAudioFile = {
+  file: FileDetail;
+  timeMap: TimeMap;
+  /** Length of the untrimmed audio, in seconds */
+  originalDuration: number;
+};
+
 export type MarkdownOutput = {
   title: string;
   content: string;
@@ -152,3 +199,117 @@ export enum AudioOutputExtension {
   "MP3" = "mp3",
   "WAV" = "wav",
 }
+
+export enum ResampleQuality {
+  FAST = "fast",
+  HIGH = "high",
+}
+
+/**
+ * What the recorder does once a recording reaches the maximum length.
+ */
+export enum RecordingLimitAction {
+  /** Stop, save and queue the recording */
+  STOP = "stop",
+  /** Save the recording so far and carry on seamlessly in a new file, as a numbered series */
+  SPLIT = "split",
+}
+
+/**
+ * How the transcript is laid out in the note.
+ */
+export enum TranscriptLayout {
+  /** Paragraphs of text */
+  PLAIN = "plain",
+  /** Each paragraph starts with a timestamp which plays the audio from there */
+  PARAGRAPH_TIMESTAMPS = "paragraph-timestamps",
+  /** Each segment on a line of its own, starting with a timestamp */
+  SEGMENT_TIMESTAMPS = "segment-timestamps",
+}
+
+/**
+ * How words whisper wasn't sure of are marked in the transcript.
+ */
+export enum LowConfidenceStyle {
+  NONE = "none",
+  /** `==word==`, Obsidian's highlight */
+  HIGHLIGHT = "highlight",
+  /** `<span class="vox-low-confidence">word</span>`, to style with a CSS snippet */
+  SPAN = "span",
+}
+
+/**
+ * What becomes of segments which are probably not speech; whisper tends to invent text, such as
+ * "Thanks for watching", over silence and noise.
+ */
+export enum NoSpeechAction {
+  KEEP = "keep",
+  /** Struck through, to be checked against the audio */
+  FLAG = "flag",
+  DROP = "drop",
+}
+
+export enum SubtitleFormat {
+  SRT = "srt",
+  VTT = "vtt",
+}
+
+export enum TranscriptionBackendType {
+  WHISPER_CPP = "whisper.cpp",
+  OPENAI_COMPATIBLE = "openai-compatible",
+  WHISPER_CLI = "whisper-cli",
+}
+
+/**
+ * What the user chose in the recorder panel; used to name the saved recording.
+ */
+export type RecordingDetails = {
+  title: string;
+  /** A key of `settings.categoryMap`, or `null` for an uncategorised recording */
+  categoryKey: string | null;
+  importance: VoiceMemoCategorization["importance"];
+};
+
+export enum RecordingMarkerType {
+  IMPORTANT = "important",
+  ACTION_ITEM = "action-item",
+  NOTE = "note",
+}
+
+/**
+ * A moment flagged while recording, which is called out in the transcript.
+ */
+export type RecordingMarker = {
+  /** Seconds into the recorded audio; time spent paused isn't counted */
+  time: number;
+  type: RecordingMarkerType;
+  /** Free text, for `NOTE` markers */
+  text?: string;
+};
+
+/**
+ * Where a dictated recording's transcript goes: into an existing note, at the cursor as it was when recording started.
+ */
+export type DictationTarget = {
+  notePath: string;
+  /** A hidden comment left at the cursor, which the transcript replaces */
+  anchor: string;
+  shouldEmbedAudio: boolean;
+};
+
+/**
+ * Everything a transcript note is built from, kept next to its audio so the note can be rebuilt without transcribing
+ * again.
+ */
+export type TranscriptionRecord = {
+  originalFileName: string;
+  originalFileHash: string;
+  /** ISO 8601 */
+  recordedAt: string;
+  /** ISO 8601 */
+  transcribedAt: string;
+  markers: RecordingMarker[];
+  /** The title of the note for the part before, for a file of a split recording */
+  previousPart: string | null;
+  transcription: TranscriptionResponse;
+};
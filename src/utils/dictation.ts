@@ -0,0 +1,61 @@
+import { DataAdapter } from "obsidian";
+import { DictationTarget, FileDetail } from "types";
+import { readSidecar, writeSidecar } from "./sidecar";
+
+const DICTATION_SIDECAR_VERSION = 1;
+export const DICTATION_SIDECAR_SUFFIX = ".dictation.json";
+
+type DictationSidecar = DictationTarget & {
+  version: number;
+};
+
+/**
+ * An Obsidian comment, so it is hidden in reading view while the dictation is transcribed.
+ * @example "a1b2c3" -> "%%VOX dictation a1b2c3%%"
+ */
+export const createDictationAnchor = (id: string) => `%%VOX dictation ${id}%%`;
+
+export const writeDictationSidecar = async (adapter: DataAdapter, audioFile: FileDetail, target: DictationTarget) => {
+  const sidecar: DictationSidecar = { version: DICTATION_SIDECAR_VERSION, ...target };
+  await writeSidecar(adapter, audioFile, DICTATION_SIDECAR_SUFFIX, sidecar);
+};
+
+/**
+ * @returns Where the recording's transcript should be inserted, or `null` for an ordinary recording.
+ */
+export const readDictationSidecar = async (
+  adapter: DataAdapter,
+  audioFile: FileDetail,
+): Promise<DictationTarget | null> => {
+  const sidecar = await readSidecar<DictationSidecar>(adapter, audioFile, DICTATION_SIDECAR_SUFFIX);
+
+  if (
+    sidecar?.version !== DICTATION_SIDECAR_VERSION ||
+    typeof sidecar.notePath !== "string" ||
+    typeof sidecar.anchor !== "string"
+  ) {
+    return null;
+  }
+
+  return { notePath: sidecar.notePath, anchor: sidecar.anchor, shouldEmbedAudio: Boolean(sidecar.shouldEmbedAudio) };
+};
+
+/**
+ * The text which replaces the anchor; the transcript, then optionally an embed of the audio it came from.
+ */
+export const formatDictation = (text: string, audioPath: string | null) => {
+  const transcript = text.trim();
+  return audioPath ? `${transcript}\n\n![[${audioPath}]]` : transcript;
+};
+
+/**
+ * Put the dictation where the anchor was left. If the anchor has since been removed, the dictation
+ * is added to the end of the note rather than lost.
+ */
+export const insertDictation = (content: string, anchor: string, dictation: string) => {
+  if (content.includes(anchor)) {
+    return content.replace(anchor, () => dictation);
+  }
+
+  return `${content.replace(/\s*$/, "")}\n\n${dictation}\n`;
+};
@@ -0,0 +1,145 @@
+import startCase from "lodash/startCase";
+import { DateTime } from "luxon";
+import { Settings } from "settings";
+import { FileDetail } from "types";
+import { categorizeVoiceMemo } from "./categorize";
+import { CATEGORY_REGEX_LEGACY, generateCategoryRegex } from "../constants";
+
+/** Characters which Obsidian (or the underlying filesystem) won't accept in a filename */
+export const ILLEGAL_FILENAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+
+/** `{{token}}`, with an optional `:format` for dates and an optional `|option` */
+const FILENAME_TOKEN_REGEX = /{{(\w+)(?::([^}|]+))?(?:\|(\w+))?}}/g;
+const DEFAULT_DATE_FORMAT = "yyyy-MM-dd";
+
+/**
+ * What a title or filename template can be filled in with.
+ */
+export type FilenameContext = {
+  /** The original file's name, without its category prefix */
+  name: string;
+  recordedAt: DateTime;
+  /** The category's name as set in the category map, e.g. "Life Notes" */
+  category: string;
+  categoryKey: string;
+  importance: number | null;
+};
+
+/**
+ * Lower case, with anything but letters and digits turned into dashes.
+ * @example "I caught a BIG fish!" -> "i-caught-a-big-fish"
+ */
+export const slugify = (value: string) => {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00c0-\uffff]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+};
+
+const FILENAME_OPTIONS: Record<string, (value: string) => string> = {
+  slug: slugify,
+  title: startCase,
+  lower: (value) => value.toLowerCase(),
+  upper: (value) => value.toUpperCase(),
+};
+
+/**
+ * Gather what a file's title and filename templates are filled in with. Categories are only
+ * filled in when category maps are turned on.
+ */
+export const buildFilenameContext = (file: FileDetail, recordedAt: DateTime, settings: Settings): FilenameContext => {
+  const categorization = settings.shouldUseCategoryMaps ? categorizeVoiceMemo(file.name, settings) : null;
+
+  // Remove categorization prefix from the name; dashes separate words, just like spaces.
+  const name = file.name
+    .replace(generateCategoryRegex(settings), "")
+    .replace(CATEGORY_REGEX_LEGACY, "")
+    .replace(/-/g, " ")
+    .trim();
+
+  return {
+    name,
+    recordedAt,
+    category: categorization?.category?.display ?? "",
+    categoryKey: categorization?.category?.key ?? "",
+    importance: categorization ? categorization.importance : null,
+  };
+};
+
+/**
+ * Fill in a title or filename template. Whatever comes from the original file's name is stripped of characters
+ * which can't be used in a filename, and separators left dangling by empty tokens are tidied away.
+ * @example ("{{date:yyyyMMdd}}-{{name|slug}}", { name: "Big fish", ... }) -> "20210715-big-fish"
+ */
+export const renderFilenameTemplate = (template: string, context: FilenameContext) => {
+  return render(template, context)
+    .replace(ILLEGAL_FILENAME_CHARACTERS, "")
+    .replace(/\s+/g, " ")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[\s._-]+|[\s._-]+$/g, "");
+};
+
+/**
+ * Check a title or filename template before it is saved.
+ * @returns Why the template can't be used, or `null` if it can.
+ */
+export const validateFilenameTemplate = (template: string): string | null => {
+  for (const [tag, token, , option] of template.matchAll(FILENAME_TOKEN_REGEX)) {
+    if (getTokenValue(token, null, SAMPLE_CONTEXT) === null) {
+      return `Unknown placeholder ${tag}.`;
+    }
+
+    if (option && !(option in FILENAME_OPTIONS)) {
+      return `Unknown option "|${option}" in ${tag}.`;
+    }
+  }
+
+  // The sample is a safe name, so anything illegal comes from the template itself.
+  const illegal = render(template, SAMPLE_CONTEXT).match(ILLEGAL_FILENAME_CHARACTERS);
+  if (illegal) {
+    return `Filenames can't contain ${[...new Set(illegal)].join(" ")}`;
+  }
+
+  if (!renderFilenameTemplate(template, SAMPLE_CONTEXT)) {
+    return "The template must produce a name.";
+  }
+
+  return null;
+};
+
+const SAMPLE_CONTEXT: FilenameContext = {
+  name: "Sample memo",
+  recordedAt: DateTime.fromISO("2024-03-09T14:05:07"),
+  category: "Life Notes",
+  categoryKey: "LN",
+  importance: 4,
+};
+
+const render = (template: string, context: FilenameContext) => {
+  return template.replace(FILENAME_TOKEN_REGEX, (tag, token: string, format?: string, option?: string) => {
+    const value = getTokenValue(token, format ?? null, context);
+
+    if (value === null) {
+      return tag;
+    }
+
+    return option && option in FILENAME_OPTIONS ? FILENAME_OPTIONS[option](value) : value;
+  });
+};
+
+const getTokenValue = (token: string, format: string | null, context: FilenameContext) => {
+  switch (token) {
+    case "date":
+      return context.recordedAt.toFormat(format ?? DEFAULT_DATE_FORMAT);
+    case "name":
+      return context.name.replace(ILLEGAL_FILENAME_CHARACTERS, "");
+    case "category":
+      return context.category.replace(ILLEGAL_FILENAME_CHARACTERS, "");
+    case "category_key":
+      return context.categoryKey;
+    case "importance":
+      return context.importance?.toString() ?? "";
+    default:
+      return null;
+  }
+};
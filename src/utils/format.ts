@@ -1,9 +1,13 @@
 import { DateTime } from "luxon";
 import { DataAdapter } from "obsidian";
+import { AUDIO_FILE_EXTENSIONS, RELATIVE_AUDIO_FILE_LOCATION } from "../constants";
 import { FileDetail } from "../types";
 
 const FILE_EXTENSION_REGEX = /\.[A-Za-z0-9]{1,6}$/;
 
+/** The audio embed written by `formatAudioEmbed`, with or without angle brackets; the filename is the first group */
+export const AUDIO_EMBED_REGEX = /!\[\]\(<?\.\/audio\/([^)>]+)>?\)/;
+
 export const extractFileDetail = (filepath: string): FileDetail => {
   const inputPathSplit = filepath.split("/");
   const filename = inputPathSplit[inputPathSplit.length - 1];
@@ -21,6 +25,35 @@ export const extractFileDetail = (filepath: string): FileDetail => {
   };
 };
 
+/**
+ * Embed the audio kept in the folder next to a note. Obsidian doesn't resolve a markdown link with a space in its
+ * path, unless the path is wrapped in angle brackets.
+ * @example "20240309-0905-standup.wav" -> "![](./audio/20240309-0905-standup.wav)"
+ * @example "Morning standup.wav" -> "![](<./audio/Morning standup.wav>)"
+ */
+export const formatAudioEmbed = (filename: string) => {
+  const link = `${RELATIVE_AUDIO_FILE_LOCATION}/${filename}`;
+  return /\s/.test(link) ? `![](<${link}>)` : `![](${link})`;
+};
+
+/** Whether a file is one of the audio formats we can transcribe, judging by its extension */
+export const isAudioFile = (filepath: string) => {
+  return AUDIO_FILE_EXTENSIONS.includes(extractFileDetail(filepath).extension);
+};
+
+/**
+ * Format a position in a recording.
+ * @example 95 -> "1:35", 3725 -> "1:02:05"
+ */
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hh = Math.floor(total / 3600);
+  const mm = Math.floor((total % 3600) / 60);
+  const ss = String(total % 60).padStart(2, "0");
+
+  return hh > 0 ? `${hh}:${String(mm).padStart(2, "0")}:${ss}` : `${mm}:${ss}`;
+};
+
 /** Get the earliest timestamp from metadata */
 export const getFileCreationDateTime = async (
   file: FileDetail,
@@ -0,0 +1,85 @@
+import { Settings } from "settings";
+import { WHISPER_LANGUAGES } from "../constants";
+
+/** Leave it to whisper to work out the language */
+export const AUTO_DETECT_LANGUAGE = "auto";
+
+export type LanguageOverrides = {
+  overrides: Record<string, string>;
+  /** Why the overrides can't be used, if they can't */
+  error: string | null;
+};
+
+/**
+ * A language as a code, however the backend reported it.
+ * @example "German" -> "de", "de" -> "de", undefined -> ""
+ */
+export const toLanguageCode = (language: string | undefined) => {
+  const normalized = language?.trim().toLowerCase() ?? "";
+
+  if (normalized in WHISPER_LANGUAGES) {
+    return normalized;
+  }
+
+  return Object.keys(WHISPER_LANGUAGES).find((code) => WHISPER_LANGUAGES[code] === normalized) ?? normalized;
+};
+
+export const isKnownLanguage = (language: string) => {
+  return language === AUTO_DETECT_LANGUAGE || language in WHISPER_LANGUAGES;
+};
+
+/**
+ * Read the per-folder languages, one `folder: language` a line, as they're written in the settings.
+ * @example "Voice/Deutsch: de\nVoice/Meetings: auto" -> { "Voice/Deutsch": "de", "Voice/Meetings": "auto" }
+ */
+export const parseLanguageOverrides = (text: string): LanguageOverrides => {
+  const overrides: Record<string, string> = {};
+  const lines = text.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const separator = line.lastIndexOf(":");
+    const folder = line
+      .slice(0, separator)
+      .trim()
+      .replace(/^\/+|\/+$/g, "");
+    const language = toLanguageCode(line.slice(separator + 1));
+
+    if (!line) {
+      continue;
+    }
+
+    if (separator < 0 || !folder) {
+      return { overrides, error: `Line ${i + 1} should be "folder: language"` };
+    }
+
+    if (!isKnownLanguage(language)) {
+      return { overrides, error: `Line ${i + 1}: "${language}" isn't a language whisper knows` };
+    }
+
+    overrides[folder] = language;
+  }
+
+  return { overrides, error: null };
+};
+
+export const formatLanguageOverrides = (overrides: Record<string, string>) => {
+  return Object.entries(overrides)
+    .map(([folder, language]) => `${folder}: ${language}`)
+    .join("\n");
+};
+
+/**
+ * The language to transcribe a file in: that of the deepest folder it's in which has one of its own,
+ * or the default language.
+ */
+export const resolveLanguage = (
+  filepath: string,
+  { language, languageOverrides }: Pick<Settings, "language" | "languageOverrides">,
+) => {
+  const folder = Object.keys(languageOverrides)
+    .filter((folder) => filepath.startsWith(`${folder}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return folder ? languageOverrides[folder] : language;
+};
@@ -0,0 +1,44 @@
+import { DataAdapter } from "obsidian";
+import { FileDetail, RecordingMarker, RecordingMarkerType } from "types";
+import { getSidecarPath, readSidecar, writeSidecar } from "./sidecar";
+
+const MARKER_SIDECAR_VERSION = 1;
+export const MARKER_SIDECAR_SUFFIX = ".markers.json";
+
+type MarkerSidecar = {
+  version: number;
+  markers: RecordingMarker[];
+};
+
+/**
+ * Markers are kept in a sidecar next to the audio they were recorded with.
+ * @example "Voice/unprocessed/Meeting.webm" -> "Voice/unprocessed/Meeting.markers.json"
+ */
+export const getMarkerSidecarPath = (audioFile: FileDetail) => {
+  return getSidecarPath(audioFile, MARKER_SIDECAR_SUFFIX);
+};
+
+export const writeMarkerSidecar = async (adapter: DataAdapter, audioFile: FileDetail, markers: RecordingMarker[]) => {
+  const sidecar: MarkerSidecar = { version: MARKER_SIDECAR_VERSION, markers };
+  await writeSidecar(adapter, audioFile, MARKER_SIDECAR_SUFFIX, sidecar);
+};
+
+/**
+ * Read the markers recorded with an audio file, in time order.
+ * @returns An empty list when the file has no sidecar, or it can't be read.
+ */
+export const readMarkerSidecar = async (adapter: DataAdapter, audioFile: FileDetail): Promise<RecordingMarker[]> => {
+  const sidecar = await readSidecar<MarkerSidecar>(adapter, audioFile, MARKER_SIDECAR_SUFFIX);
+
+  if (sidecar?.version !== MARKER_SIDECAR_VERSION || !Array.isArray(sidecar.markers)) {
+    return [];
+  }
+
+  return sidecar.markers.filter(isValidMarker).sort((a, b) => a.time - b.time);
+};
+
+export const isValidMarker = (marker: Partial<RecordingMarker>): marker is RecordingMarker => {
+  return (
+    typeof marker?.time === "number" && Object.values(RecordingMarkerType).includes(marker.type as RecordingMarkerType)
+  );
+};
@@ -0,0 +1,80 @@
+import { DateTime } from "luxon";
+import { DataAdapter } from "obsidian";
+import { Settings } from "settings";
+import { FileDetail, RecordingDetails } from "types";
+import { RECORDING_DATE_FORMAT } from "../constants";
+import { ILLEGAL_FILENAME_CHARACTERS } from "./filename";
+import { readSidecar, writeSidecar } from "./sidecar";
+
+const SERIES_SIDECAR_VERSION = 1;
+export const SERIES_SIDECAR_SUFFIX = ".series.json";
+
+type SeriesSidecar = {
+  version: number;
+  /** Where the file of the part before was saved */
+  previousPart: string;
+};
+
+/** Files of a split recording end with their part number */
+const RECORDING_PART_REGEX = /^(.+) part (\d+)$/;
+
+/**
+ * A file which belongs to a recording split across several files.
+ */
+export type RecordingSeriesPart = {
+  /** The name shared by every file in the series */
+  series: string;
+  part: number;
+};
+
+/**
+ * Name a recording so that the transcription pipeline categorises it just like a hand-named voice memo.
+ * @example { title: "Big fish", categoryKey: "LN", importance: 4 } -> "R4LN Big fish 20210715-140203"
+ *
+ * @note
+ * The importance prefix only means something alongside a category (see README.md), so an uncategorised
+ * recording is named by its title and timestamp alone. Files of a split recording are numbered with `part`.
+ */
+export const buildRecordingFilename = (
+  details: RecordingDetails,
+  settings: Settings,
+  recordedAt: DateTime,
+  part: number | null = null,
+) => {
+  const title = details.title.replace(ILLEGAL_FILENAME_CHARACTERS, "").replace(/\s+/g, " ").trim();
+  const isKnownCategory = details.categoryKey !== null && details.categoryKey in settings.categoryMap;
+  const prefix = isKnownCategory ? `R${details.importance}${details.categoryKey}` : "";
+  const suffix = part !== null ? `part ${part}` : "";
+
+  return [prefix, title, recordedAt.toFormat(RECORDING_DATE_FORMAT), suffix].filter(Boolean).join(" ");
+};
+
+/**
+ * Recognise a file of a split recording by its name (without the extension).
+ * @example "R4LN Meeting 20210715-140203 part 2" -> { series: "R4LN Meeting 20210715-140203", part: 2 }
+ */
+export const parseRecordingSeriesPart = (name: string): RecordingSeriesPart | null => {
+  const match = name.match(RECORDING_PART_REGEX);
+  return match ? { series: match[1], part: Number(match[2]) } : null;
+};
+
+/**
+ * A file of a split recording remembers the file of the part before, so its transcript can link to that one's.
+ */
+export const writeSeriesSidecar = async (adapter: DataAdapter, audioFile: FileDetail, previousPart: string) => {
+  const sidecar: SeriesSidecar = { version: SERIES_SIDECAR_VERSION, previousPart };
+  await writeSidecar(adapter, audioFile, SERIES_SIDECAR_SUFFIX, sidecar);
+};
+
+/**
+ * @returns The path the part before was saved to, or `null` for the first part and recordings which weren't split.
+ */
+export const readSeriesSidecar = async (adapter: DataAdapter, audioFile: FileDetail): Promise<string | null> => {
+  const sidecar = await readSidecar<SeriesSidecar>(adapter, audioFile, SERIES_SIDECAR_SUFFIX);
+
+  if (sidecar?.version !== SERIES_SIDECAR_VERSION || typeof sidecar.previousPart !== "string") {
+    return null;
+  }
+
+  return sidecar.previousPart;
+};
@@ -0,0 +1,44 @@
+import { DataAdapter } from "obsidian";
+import { FileDetail } from "types";
+
+/**
+ * Recordings carry extra details in small JSON files saved right next to them.
+ * @example ("Voice/unprocessed/Meeting.webm", ".markers.json") -> "Voice/unprocessed/Meeting.markers.json"
+ */
+export const getSidecarPath = (audioFile: FileDetail, suffix: string) => {
+  return `${audioFile.directory}${audioFile.name}${suffix}`;
+};
+
+export const writeSidecar = async (adapter: DataAdapter, audioFile: FileDetail, suffix: string, data: unknown) => {
+  await adapter.write(getSidecarPath(audioFile, suffix), JSON.stringify(data, null, 2));
+};
+
+/**
+ * @returns The parsed sidecar, unchecked; `null` when the file has no sidecar, or it can't be read.
+ */
+export const readSidecar = async <T>(
+  adapter: DataAdapter,
+  audioFile: FileDetail,
+  suffix: string,
+): Promise<Partial<T> | null> => {
+  const filepath = getSidecarPath(audioFile, suffix);
+
+  try {
+    if (!(await adapter.exists(filepath))) {
+      return null;
+    }
+
+    return JSON.parse(await adapter.read(filepath));
+  } catch (error) {
+    console.warn(`[Sidecar] Failed to read ${filepath}:`, error);
+    return null;
+  }
+};
+
+export const removeSidecar = async (adapter: DataAdapter, audioFile: FileDetail, suffix: string) => {
+  const filepath = getSidecarPath(audioFile, suffix);
+
+  if (await adapter.exists(filepath)) {
+    await adapter.remove(filepath);
+  }
+};
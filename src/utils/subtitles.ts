@@ -0,0 +1,180 @@
+import { DataAdapter } from "obsidian";
+import { FileDetail, SubtitleFormat, TranscriptionSegment } from "types";
+import { getSidecarPath } from "./sidecar";
+
+/** Captions are shown two lines at a time */
+const MAX_CUE_LINES = 2;
+
+export type SubtitleOptions = {
+  /** Characters on a line of a caption */
+  subtitleMaxLineLength: number;
+  /** Seconds a caption is shown for, at most */
+  subtitleMaxCueSeconds: number;
+  /** Time captions by their words, when the backend reports word timings */
+  shouldTimeSubtitlesByWord: boolean;
+};
+
+export type SubtitleCue = {
+  start: number;
+  end: number;
+  lines: string[];
+};
+
+type TimedWord = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * Split the transcript into captions no longer than the line and duration limits.
+ * A caption never runs across two segments.
+ */
+export const buildCues = (segments: TranscriptionSegment[], options: SubtitleOptions): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  segments.forEach((segment) => {
+    let cue: TimedWord[] = [];
+
+    const pushCue = () => {
+      if (cue.length === 0) {
+        return;
+      }
+
+      // Segments stitched together from overlapping chunks may overlap; a caption never starts before the last ends.
+      const start = Math.max(cue[0].start, cues[cues.length - 1]?.end ?? 0);
+      const text = cue.map((word) => word.text).join(" ");
+
+      cues.push({ start, end: Math.max(cue[cue.length - 1].end, start), lines: wrapLines(text, options) });
+      cue = [];
+    };
+
+    timeWords(segment, options).forEach((word) => {
+      const text = [...cue, word].map((word) => word.text).join(" ");
+      const isTooLong = wrapLines(text, options).length > MAX_CUE_LINES;
+
+      if (cue.length > 0 && (isTooLong || word.end - cue[0].start > options.subtitleMaxCueSeconds)) {
+        pushCue();
+      }
+
+      cue.push(word);
+    });
+
+    pushCue();
+  });
+
+  return cues;
+};
+
+/**
+ * @example [{ start: 1.5, end: 4, lines: ["Hello"] }] -> "1\n00:00:01,500 --> 00:00:04,000\nHello\n"
+ */
+export const formatSrt = (cues: SubtitleCue[]) => {
+  return cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cue.lines.join("\n")}\n`,
+    )
+    .join("\n");
+};
+
+/**
+ * @example [{ start: 1.5, end: 4, lines: ["Hello"] }] -> "WEBVTT\n\n00:00:01.500 --> 00:00:04.000\nHello\n"
+ */
+export const formatVtt = (cues: SubtitleCue[]) => {
+  const body = cues.map(
+    (cue) => `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n${cue.lines.join("\n")}\n`,
+  );
+
+  return ["WEBVTT\n", ...body].join("\n");
+};
+
+/**
+ * Subtitles are kept next to the audio they caption, named alike, so that players pick them up.
+ * @example ("Voice/audio/Meeting.wav", "srt") -> "Voice/audio/Meeting.srt"
+ */
+export const getSubtitlePath = (audioFile: FileDetail, format: SubtitleFormat) => {
+  return getSidecarPath(audioFile, `.${format}`);
+};
+
+/**
+ * @returns The paths of the subtitle files written.
+ */
+export const writeSubtitles = async (
+  adapter: DataAdapter,
+  audioFile: FileDetail,
+  segments: TranscriptionSegment[],
+  formats: SubtitleFormat[],
+  options: SubtitleOptions,
+) => {
+  const cues = buildCues(segments, options);
+
+  return Promise.all(
+    formats.map(async (format) => {
+      const filepath = getSubtitlePath(audioFile, format);
+      await adapter.write(filepath, format === SubtitleFormat.SRT ? formatSrt(cues) : formatVtt(cues));
+
+      return filepath;
+    }),
+  );
+};
+
+/**
+ * The words of a segment's text, each with when it was said.
+ *
+ * @note
+ * The words are taken from the segment's text, as some backends leave the punctuation out of their word timings.
+ * Word timings are used when there's one for every word, as with whisper.cpp; otherwise the segment's time is
+ * shared out by the length of each word.
+ */
+const timeWords = (segment: TranscriptionSegment, options: SubtitleOptions): TimedWord[] => {
+  const words = segment.text.trim().split(/\s+/).filter(Boolean);
+  const timings = segment.words;
+
+  if (options.shouldTimeSubtitlesByWord && timings?.length === words.length) {
+    return words.map((text, i) => ({ text, start: timings[i].start, end: timings[i].end }));
+  }
+
+  const characters = words.reduce((sum, word) => sum + word.length, 0);
+  const secondsPerCharacter = characters ? (segment.end - segment.start) / characters : 0;
+  let time = segment.start;
+
+  return words.map((text) => {
+    const start = time;
+    time += text.length * secondsPerCharacter;
+
+    return { text, start, end: time };
+  });
+};
+
+/**
+ * Break a caption's text over as few lines as it fits on; a word longer than a line gets one to itself.
+ */
+const wrapLines = (text: string, { subtitleMaxLineLength }: SubtitleOptions) => {
+  const lines: string[] = [];
+
+  text.split(" ").forEach((word) => {
+    const line = lines[lines.length - 1];
+
+    if (line !== undefined && line.length + 1 + word.length <= subtitleMaxLineLength) {
+      lines[lines.length - 1] = `${line} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  });
+
+  return lines;
+};
+
+/**
+ * @example (3725.5, ",") -> "01:02:05,500"
+ */
+const formatCueTime = (seconds: number, separator: "," | ".") => {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hh = String(Math.floor(milliseconds / 3_600_000)).padStart(2, "0");
+  const mm = String(Math.floor((milliseconds % 3_600_000) / 60_000)).padStart(2, "0");
+  const ss = String(Math.floor((milliseconds % 60_000) / 1000)).padStart(2, "0");
+  const ms = String(milliseconds % 1000).padStart(3, "0");
+
+  return `${hh}:${mm}:${ss}${separator}${ms}`;
+};
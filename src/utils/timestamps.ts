@@ -0,0 +1,28 @@
+import { formatTimestamp } from "./format";
+
+/** `@1:35` or `@1:02:05`; written as inline code so it reads fine without VOX, and is easy to find once rendered */
+const SEEK_TIMESTAMP_REGEX = /^@(?:(\d+):)?(\d{1,2}):(\d{2})$/;
+
+/**
+ * A timestamp in the transcript which plays the note's audio from that moment.
+ * @example 95 -> "`@1:35`"
+ */
+export const formatSeekTimestamp = (seconds: number) => {
+  return `\`@${formatTimestamp(seconds)}\``;
+};
+
+/**
+ * Read the time back out of a timestamp's inline code.
+ * @example "@1:02:05" -> 3725
+ * @returns `null` for any other code.
+ */
+export const parseSeekTimestamp = (code: string): number | null => {
+  const match = code.trim().match(SEEK_TIMESTAMP_REGEX);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+};
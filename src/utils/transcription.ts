@@ -0,0 +1,59 @@
+import { DataAdapter } from "obsidian";
+import { FileDetail, TranscriptionRecord } from "types";
+import { isValidMarker } from "./markers";
+import { getSidecarPath, readSidecar, writeSidecar } from "./sidecar";
+
+const TRANSCRIPTION_SIDECAR_VERSION = 1;
+export const TRANSCRIPTION_SIDECAR_SUFFIX = ".transcription.json";
+
+type TranscriptionSidecar = TranscriptionRecord & {
+  version: number;
+};
+
+/**
+ * The raw transcription is kept next to the processed audio, alongside the note.
+ * @example "Voice/audio/Meeting.wav" -> "Voice/audio/Meeting.transcription.json"
+ */
+export const getTranscriptionSidecarPath = (audioFile: FileDetail) => {
+  return getSidecarPath(audioFile, TRANSCRIPTION_SIDECAR_SUFFIX);
+};
+
+export const writeTranscriptionSidecar = async (
+  adapter: DataAdapter,
+  audioFile: FileDetail,
+  record: TranscriptionRecord,
+) => {
+  const sidecar: TranscriptionSidecar = { version: TRANSCRIPTION_SIDECAR_VERSION, ...record };
+  await writeSidecar(adapter, audioFile, TRANSCRIPTION_SIDECAR_SUFFIX, sidecar);
+};
+
+/**
+ * @returns `null` when the audio has no sidecar, or it can't be read.
+ */
+export const readTranscriptionSidecar = async (
+  adapter: DataAdapter,
+  audioFile: FileDetail,
+): Promise<TranscriptionRecord | null> => {
+  const sidecar = await readSidecar<TranscriptionSidecar>(adapter, audioFile, TRANSCRIPTION_SIDECAR_SUFFIX);
+
+  if (
+    sidecar?.version !== TRANSCRIPTION_SIDECAR_VERSION ||
+    typeof sidecar.originalFileName !== "string" ||
+    typeof sidecar.originalFileHash !== "string" ||
+    typeof sidecar.recordedAt !== "string" ||
+    !sidecar.transcription ||
+    !Array.isArray(sidecar.transcription.segments)
+  ) {
+    return null;
+  }
+
+  return {
+    originalFileName: sidecar.originalFileName,
+    originalFileHash: sidecar.originalFileHash,
+    recordedAt: sidecar.recordedAt,
+    transcribedAt: typeof sidecar.transcribedAt === "string" ? sidecar.transcribedAt : sidecar.recordedAt,
+    markers: Array.isArray(sidecar.markers) ? sidecar.markers.filter(isValidMarker) : [],
+    previousPart: typeof sidecar.previousPart === "string" ? sidecar.previousPart : null,
+    transcription: sidecar.transcription,
+  };
+};
@@ -0,0 +1,50 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Asks for the text of a marker dropped while recording. The recording carries on while it's open.
+ */
+export class MarkerNoteModal extends Modal {
+  private text = "";
+
+  constructor(
+    app: App,
+    private readonly onSubmit: (text: string) => void,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, titleEl } = this;
+
+    titleEl.setText("Add marker");
+
+    new Setting(contentEl).setName("Note").addText((text) => {
+      text.setPlaceholder("What happened here?").onChange((value) => (this.text = value));
+      text.inputEl.style.width = "100%";
+      text.inputEl.addEventListener("keydown", (event) => {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          this.submit();
+        }
+      });
+
+      window.setTimeout(() => text.inputEl.focus());
+    });
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Add marker")
+        .setCta()
+        .onClick(() => this.submit()),
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private submit() {
+    this.close();
+    this.onSubmit(this.text);
+  }
+}
@@ -0,0 +1,61 @@
+import { PartialRecording } from "AudioRecorder/PartialRecordingStore";
+import { DateTime } from "luxon";
+import { App, Modal, Setting } from "obsidian";
+import { MARKDOWN_DATE_FORMAT } from "../constants";
+
+/**
+ * Asks whether recordings left behind by a previous session should be recovered or thrown away.
+ * Closing the modal without choosing leaves them be; they are offered again on the next launch.
+ */
+export class RecoverRecordingsModal extends Modal {
+  constructor(
+    app: App,
+    private readonly recordings: PartialRecording[],
+    private readonly onChoose: (shouldRecover: boolean) => void,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, titleEl } = this;
+    const quantity = this.recordings.length;
+
+    titleEl.setText("Recover unfinished recordings");
+    contentEl.createEl("p", {
+      text:
+        `VOX found ${quantity} recording${quantity > 1 ? "s" : ""} which never finished saving, ` +
+        "most likely because Obsidian closed while recording. " +
+        "Recovered recordings are saved into the watch folder and transcribed.",
+    });
+
+    const list = contentEl.createEl("ul");
+    this.recordings.forEach((recording) => {
+      list.createEl("li", {
+        text: `Started ${DateTime.fromMillis(recording.startedAt).toFormat(MARKDOWN_DATE_FORMAT)}`,
+      });
+    });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Discard")
+          .setWarning()
+          .onClick(() => this.choose(false)),
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Recover")
+          .setCta()
+          .onClick(() => this.choose(true)),
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private choose(shouldRecover: boolean) {
+    this.close();
+    this.onChoose(shouldRecover);
+  }
+}
@@ -0,0 +1,43 @@
+import { MarkdownPostProcessor, Notice } from "obsidian";
+import { formatTimestamp } from "utils/format";
+import { parseSeekTimestamp } from "utils/timestamps";
+
+/**
+ * Turns the timestamps in a rendered transcript into links which play the note's audio from that moment.
+ */
+export const renderSeekTimestamps: MarkdownPostProcessor = (el) => {
+  el.querySelectorAll("code").forEach((code) => {
+    const seconds = code.closest("pre") ? null : parseSeekTimestamp(code.textContent ?? "");
+
+    if (seconds === null) {
+      return;
+    }
+
+    const link = createEl("a", {
+      cls: "vox-timestamp",
+      text: formatTimestamp(seconds),
+      href: "#",
+      attr: { "aria-label": `Play from ${formatTimestamp(seconds)}` },
+    });
+
+    link.addEventListener("click", (event) => {
+      event.preventDefault();
+      seekAudio(link, seconds);
+    });
+
+    code.replaceWith(link);
+  });
+};
+
+const seekAudio = (link: HTMLElement, seconds: number) => {
+  // Each section of the note is processed on its own; the player is found in the whole note once it's clicked.
+  const audio = link.closest(".markdown-preview-view")?.querySelector("audio");
+
+  if (!audio) {
+    new Notice("There's no audio player in this note to play from.");
+    return;
+  }
+
+  audio.currentTime = seconds;
+  audio.play();
+};
@@ -46,8 +46,6 @@ export class VoxRecorderViewRenderer extends ItemView {
     });
 
     this.unsubscribeRecorder = this.recorder.subscribe((state) => {
-      console.log("UPDATED STATE FROM RECORDER", state);
-
       this.state.recorder = state;
       this.render({
         processor: this.processor.state,
@@ -84,8 +82,9 @@ export class VoxRecorderViewRenderer extends ItemView {
           plugin={this.plugin}
           recorderState={state.recorder}
           processorState={state.processor}
-          recorderStart={() => this.recorder.record(this.plugin.settings.recordingDeviceId)}
-          recorderStop={() => this.recorder.stop()}
+          recorderStart={() => this.plugin.startRecording()}
+          recorderSave={() => this.plugin.saveRecording()}
+          recorderSetDetails={(details) => this.recorder.setDetails(details)}
           recorderPause={() => this.recorder.pause()}
           recorderResume={() => this.recorder.resume()}
         />
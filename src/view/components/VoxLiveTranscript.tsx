@@ -0,0 +1,52 @@
+import React from "react";
+import { LiveTranscriptionState, LiveTranscriptionStatus } from "TranscriptionProcessor/LiveTranscriber";
+
+const STATUS_LABEL_MAP: Record<LiveTranscriptionStatus, string> = {
+  listening: "Live transcript",
+  finalizing: "Live transcript · waiting for the full transcription",
+  final: "Transcript",
+};
+
+type Props = {
+  live: LiveTranscriptionState;
+};
+
+/**
+ * The provisional transcript of the recording in progress; faint until the full transcription replaces it.
+ */
+const VoxLiveTranscript = ({ live }: Props) => {
+  const isFinal = live.status === "final";
+  const text = isFinal ? live.final : [live.committed, live.pending].filter(Boolean).join(" ");
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "0.25em",
+        padding: "0.5em",
+        borderRadius: "var(--radius-s)",
+        backgroundColor: "var(--background-secondary-alt)",
+      }}
+    >
+      <div style={{ fontSize: "var(--font-smallest)", color: "var(--text-faint)" }}>
+        {STATUS_LABEL_MAP[live.status]}
+      </div>
+
+      <div
+        style={{
+          maxHeight: "16em",
+          overflowY: "auto",
+          whiteSpace: "pre-wrap",
+          fontSize: "var(--font-ui-small)",
+          color: isFinal ? "var(--text-normal)" : "var(--text-muted)",
+          fontStyle: isFinal ? "normal" : "italic",
+        }}
+      >
+        {text || "Listening…"}
+      </div>
+    </div>
+  );
+};
+
+export default VoxLiveTranscript;
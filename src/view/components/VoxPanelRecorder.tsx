@@ -1,9 +1,13 @@
 import { AudioRecorderState } from "AudioRecorder";
+import { InputLevel } from "AudioRecorder/LevelMeter";
 import { TranscriptionProcessorState } from "TranscriptionProcessor";
 import VoxPlugin from "main";
+import clsx from "clsx";
 import { setIcon } from "obsidian";
 import React, { useEffect, useState } from "react";
+import { RecordingDetails, RecordingMarker, RecordingMarkerType } from "types";
 import ActionIcon from "./ActionIcon";
+import VoxLiveTranscript from "./VoxLiveTranscript";
 
 type Props = {
   plugin: VoxPlugin;
@@ -11,13 +15,22 @@ type Props = {
   processorState: TranscriptionProcessorState;
 
   recorderStart: () => Promise<void>;
-  recorderStop: () => Promise<Blob>;
+  recorderSave: () => Promise<void>;
+  recorderSetDetails: (details: RecordingDetails) => void;
   recorderResume: () => void;
   recorderPause: () => void;
 };
 
 const VoxPanelRecorder = (props: Props) => {
-  // const { plugin, recorderState, processorState, recorderStart, recorderStop, recorderPause, recorderResume } = props;
+  const { plugin, recorderState, processorState, recorderSave, recorderSetDetails } = props;
+
+  // Both the save icon and the queue button stop the recording, save it and queue it.
+  const canSave = recorderState.recordingState !== "idle";
+  const saveRecording = async () => {
+    if (canSave) {
+      await recorderSave();
+    }
+  };
 
   return (
     <div
@@ -27,14 +40,31 @@ const VoxPanelRecorder = (props: Props) => {
         gap: "0.50em",
       }}
     >
-      <AudioRecorderBox {...props} />
+      <AudioRecorderBox {...props} canSave={canSave} onSave={saveRecording} />
+
+      <FileTranscriptionInfo
+        categoryMap={plugin.settings.categoryMap}
+        details={recorderState.details}
+        canSave={canSave}
+        onChange={recorderSetDetails}
+        onSave={saveRecording}
+      />
 
-      <FileTranscriptionInfo />
+      {processorState.live && <VoxLiveTranscript live={processorState.live} />}
     </div>
   );
 };
 
-const FileTranscriptionInfo = () => {
+type FileTranscriptionInfoProps = {
+  categoryMap: Record<string, string>;
+  details: RecordingDetails;
+  canSave: boolean;
+
+  onChange: (details: RecordingDetails) => void;
+  onSave: () => void;
+};
+
+const FileTranscriptionInfo = ({ categoryMap, details, canSave, onChange, onSave }: FileTranscriptionInfoProps) => {
   return (
     <div
       style={{
@@ -52,6 +82,8 @@ const FileTranscriptionInfo = () => {
         type="text"
         placeholder="Note title"
         spellCheck={false}
+        value={details.title}
+        onChange={(e) => onChange({ ...details, title: e.target.value })}
       ></input>
 
       <div
@@ -61,20 +93,34 @@ const FileTranscriptionInfo = () => {
           gap: "0.25em",
         }}
       >
-        <select style={{ flex: 1 }} defaultChecked={true} defaultValue="" className="dropdown">
+        <select
+          style={{ flex: 1 }}
+          className="dropdown"
+          value={details.categoryKey ?? ""}
+          onChange={(e) => onChange({ ...details, categoryKey: e.target.value || null })}
+        >
           <option value="">Category</option>
-          <option value="RA">Ramble</option>
-          <option>Politics</option>
-          <option>Blah blah</option>
-          <option>Ramble</option>
+          {Object.entries(categoryMap).map(([key, display]) => (
+            <option key={key} value={key}>
+              {display}
+            </option>
+          ))}
         </select>
 
-        <select className="dropdown">
-          <option>1</option>
-          <option>2</option>
-          <option>3</option>
-          <option>4</option>
-          <option>5</option>
+        <select
+          className="dropdown"
+          value={details.importance}
+          disabled={!details.categoryKey}
+          aria-label="Importance"
+          onChange={(e) =>
+            onChange({ ...details, importance: Number(e.target.value) as RecordingDetails["importance"] })
+          }
+        >
+          {[1, 2, 3, 4, 5].map((importance) => (
+            <option key={importance} value={importance}>
+              {importance}
+            </option>
+          ))}
         </select>
       </div>
 
@@ -91,7 +137,9 @@ const FileTranscriptionInfo = () => {
         R0XX {"{{ title }}"}.{}
       </div> */}
 
-      <button className="disabled mod-cta">Add to queue</button>
+      <button className={clsx("mod-cta", !canSave && "disabled")} disabled={!canSave} onClick={onSave}>
+        Add to queue
+      </button>
     </div>
   );
 };
@@ -103,15 +151,91 @@ const formatDuration = (durationSeconds: number) => {
   return `${mm}:${ss < 10 ? "0" : ""}${ss}`;
 };
 
+/** The quietest level shown on the meter, in dBFS; anything quieter shows as empty */
+const METER_FLOOR_DB = -60;
+
+const InputLevelMeter = ({ input }: { input: InputLevel }) => {
+  const fill = Math.min(Math.max((input.levelDb - METER_FLOOR_DB) / -METER_FLOOR_DB, 0), 1);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.25em", paddingTop: "0.25em" }}>
+      <div
+        role="meter"
+        aria-label="Microphone level"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(fill * 100)}
+        style={{
+          height: "0.2rem",
+          borderRadius: "10rem",
+          backgroundColor: "var(--background-modifier-border)",
+          overflow: "hidden",
+        }}
+      >
+        <div
+          style={{
+            height: "100%",
+            width: `${fill * 100}%`,
+            backgroundColor: "var(--interactive-accent)",
+            transition: "width 100ms linear",
+          }}
+        />
+      </div>
+
+      {input.isSilent && (
+        <div style={{ fontSize: "var(--font-smallest)", color: "var(--text-warning)" }}>
+          No sound for {Math.floor(input.silentSeconds)}s; check your recording device.
+        </div>
+      )}
+    </div>
+  );
+};
+
+type MarkerBarProps = {
+  markers: RecordingMarker[];
+  onMark: (type: RecordingMarkerType) => void;
+  onMarkWithNote: () => void;
+};
+
+const MarkerBar = ({ markers, onMark, onMarkWithNote }: MarkerBarProps) => {
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: "0.25em", paddingTop: "0.25em" }}>
+      <ActionIcon icon="star" label="Mark as important" onClick={() => onMark(RecordingMarkerType.IMPORTANT)} />
+      <ActionIcon
+        icon="check-square"
+        label="Mark an action item"
+        onClick={() => onMark(RecordingMarkerType.ACTION_ITEM)}
+      />
+      <ActionIcon icon="message-square" label="Add a marker with a note" onClick={onMarkWithNote} />
+
+      {markers.length > 0 && (
+        <span style={{ marginLeft: "auto", opacity: 0.5, fontSize: "var(--font-smallest)" }}>
+          {markers.length} marker{markers.length > 1 ? "s" : ""}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const formatBytes = (bytes: number) => {
+  const BYTES_IN_MEGABYTE = 1024 * 1024;
+  return `${(bytes / BYTES_IN_MEGABYTE).toFixed(2)} MB`;
+};
+
+type AudioRecorderBoxProps = Props & {
+  canSave: boolean;
+  onSave: () => void;
+};
+
 const AudioRecorderBox = ({
   plugin,
   recorderState,
-  processorState,
   recorderStart,
-  recorderStop,
   recorderPause,
   recorderResume,
-}: Props) => {
+  canSave,
+  onSave,
+}: AudioRecorderBoxProps) => {
   const refRecordIcon = React.useRef<HTMLDivElement>(null);
 
   const [duration, setDuration] = useState(0);
@@ -131,8 +255,6 @@ const AudioRecorderBox = ({
     }
   }, [recorderState.recordingState]);
 
-  console.log("VoxPanelRecorder ➡️ duration:", duration);
-
   // Update real duration each second
   useEffect(() => {
     const intervalId = setInterval(() => {
@@ -154,6 +276,7 @@ const AudioRecorderBox = ({
   }, []);
 
   const durationFormatted = formatDuration(duration);
+  const maxDurationSeconds = plugin.settings.maxRecordingMinutes * 60;
 
   return (
     <div
@@ -204,10 +327,14 @@ const AudioRecorderBox = ({
           />
 
           <span>
-            {durationFormatted} <span style={{ opacity: 0.5 }}>/ 20:00</span>
+            {recorderState.part > 1 && <span style={{ opacity: 0.5 }}>Part {recorderState.part} · </span>}
+            {durationFormatted}
+            {maxDurationSeconds > 0 && <span style={{ opacity: 0.5 }}> / {formatDuration(maxDurationSeconds)}</span>}
           </span>
 
-          {/* <span style={{ opacity: 0.5 }}>19.35 MB</span> */}
+          <span style={{ opacity: 0.5 }} aria-label="Saved to disk so far">
+            {formatBytes(recorderState.audio.bytesPersisted)}
+          </span>
         </div>
 
         {/* <ActionIcon
@@ -218,15 +345,17 @@ const AudioRecorderBox = ({
           onClick={() => recorderStop()}
         /> */}
 
-        <ActionIcon
-          isDisabled={true}
-          icon="check"
-          label="Save Recording"
-          isActive={false}
-          onClick={() => recorderStop()}
-        />
+        <ActionIcon isDisabled={!canSave} icon="check" label="Save Recording" isActive={false} onClick={onSave} />
       </div>
 
+      <InputLevelMeter input={recorderState.input} />
+
+      <MarkerBar
+        markers={recorderState.audio.markers}
+        onMark={(type) => plugin.addRecordingMarker(type)}
+        onMarkWithNote={() => plugin.addRecordingMarkerWithNote()}
+      />
+
       {recorderState.recordingState === "idle" && (
         <div
           onClick={recorderStart}
@@ -26,7 +26,7 @@ const STATUS_COLOR_MAP = {
   [VoxStatusItemStatus.FAILED]: "var(--color-red)",
 };
 
-const VoxStatusListItem = ({ details, status }: VoxStatusItem) => {
+const VoxStatusListItem = ({ details, status, progress, chunk }: VoxStatusItem) => {
   const refIcon = React.useRef<HTMLDivElement>(null);
 
   React.useEffect(() => {
@@ -87,6 +87,8 @@ const VoxStatusListItem = ({ details, status }: VoxStatusItem) => {
             }}
           >
             {STATUS_LABEL_MAP[status]}
+            {chunk !== null && ` chunk ${chunk.current}/${chunk.total}`}
+            {progress !== null && ` ${progress}%`}
           </div>
         </div>
       </div>
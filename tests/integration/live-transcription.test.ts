@@ -0,0 +1,103 @@
+/**
+ * Integration tests for live transcription against the mock server
+ * Windows of a recording in progress are encoded as they would be while recording, and transcribed as they arrive
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import { toMono } from "../../src/AudioProcessor/resample";
+import { encodeWav } from "../../src/AudioProcessor/wav";
+import { PcmWindowBuffer } from "../../src/AudioRecorder/PcmCapture";
+import { Settings } from "../../src/settings";
+import { LiveTranscriber, LiveTranscriptionState } from "../../src/TranscriptionProcessor/LiveTranscriber";
+import { WhisperCppBackend } from "../../src/TranscriptionProcessor/backends/WhisperCppBackend";
+import { ResampleQuality, TranscriptionBackendType } from "../../src/types";
+import { extractFileDetail } from "../../src/utils/format";
+
+const MOCK_SERVER_PORT = 8086;
+const MOCK_SERVER_URL = `http://127.0.0.1:${MOCK_SERVER_PORT}`;
+
+/** The rate an `AudioContext` captures at when it can't be asked for 16 kHz */
+const CAPTURE_SAMPLE_RATE = 48_000;
+
+const settings = {
+  isSelfHosted: true,
+  selfHostedEndpoint: MOCK_SERVER_URL,
+  apiKey: "",
+  transcriptionBackend: TranscriptionBackendType.WHISPER_CPP,
+  temperature: "0.0",
+  temperatureInc: "0.2",
+} as Settings;
+
+const tone = (seconds: number) => {
+  const samples = new Float32Array(seconds * CAPTURE_SAMPLE_RATE);
+  samples.forEach((_, i) => (samples[i] = 0.2 * Math.sin((2 * Math.PI * 220 * i) / CAPTURE_SAMPLE_RATE)));
+  return samples;
+};
+
+describe("Live Transcription", () => {
+  let mockServer: ChildProcess;
+
+  beforeAll(async () => {
+    mockServer = spawn("node", ["project/mock-whisper-server.js", MOCK_SERVER_PORT.toString()]);
+
+    // Wait for server to start
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  });
+
+  afterAll(() => {
+    if (mockServer) {
+      mockServer.kill();
+    }
+  });
+
+  it("should build a provisional transcript from windows sent while recording, then replace it", async () => {
+    const backend = new WhisperCppBackend(settings, "test-app-id");
+    const states: LiveTranscriptionState[] = [];
+
+    const transcriber = new LiveTranscriber(
+      async (window) => {
+        const audio = await encodeWav(await toMono(window.audio, 16_000, ResampleQuality.FAST));
+        const audioFile = extractFileDetail(`.obsidian/.vox-cache/live-window-${window.index}.wav`);
+
+        return backend.transcribe({ audioFile, audio });
+      },
+      (state) => states.push(state),
+    );
+
+    // 35 seconds of recording, handed over every 5 seconds in 30 second windows.
+    const buffer = new PcmWindowBuffer(CAPTURE_SAMPLE_RATE, 30);
+    for (let second = 0; second < 35; second += 5) {
+      buffer.append(tone(5));
+
+      for (let window = buffer.take(); window; window = buffer.take()) {
+        transcriber.push(window);
+      }
+    }
+
+    await waitFor(() => states.some((state) => state.committed.length > 0 && state.pending.length > 0));
+
+    const provisional = states[states.length - 1];
+    expect(provisional.status).toBe("listening");
+    expect(provisional.committed).toContain("This is a mock transcription");
+
+    transcriber.addFile("saved-recording");
+    transcriber.finish();
+    transcriber.complete("saved-recording", "The full transcription.");
+
+    expect(states[states.length - 1]).toEqual(
+      expect.objectContaining({ status: "final", final: "The full transcription." }),
+    );
+  });
+});
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5_000) => {
+  const startedAt = Date.now();
+
+  while (!condition()) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error("Timed out waiting for the live transcript");
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
@@ -0,0 +1,143 @@
+/**
+ * Integration tests for the pluggable transcription backends
+ * Both backends are run against the mock server and must normalize into the same response shape
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import { Settings } from "../../src/settings";
+import { OpenAICompatibleBackend } from "../../src/TranscriptionProcessor/backends/OpenAICompatibleBackend";
+import { WhisperCppBackend } from "../../src/TranscriptionProcessor/backends/WhisperCppBackend";
+import { TranscriptionBackend } from "../../src/TranscriptionProcessor/backends/TranscriptionBackend";
+import { FileDetail, TranscriptionBackendType } from "../../src/types";
+
+const MOCK_SERVER_PORT = 8085;
+const MOCK_SERVER_URL = `http://127.0.0.1:${MOCK_SERVER_PORT}`;
+
+const settings = {
+  isSelfHosted: true,
+  selfHostedEndpoint: MOCK_SERVER_URL,
+  apiKey: "",
+  transcriptionBackend: TranscriptionBackendType.WHISPER_CPP,
+  openAICompatibleEndpoint: `${MOCK_SERVER_URL}/v1/`,
+  openAICompatibleApiKey: "test-key",
+  openAICompatibleModel: "whisper-1",
+  temperature: "0.0",
+  temperatureInc: "0.2",
+} as Settings;
+
+const audioFile: FileDetail = {
+  name: "20240101-1000-test",
+  filename: "20240101-1000-test.wav",
+  extension: ".wav",
+  directory: ".obsidian/.vox-cache/",
+  filepath: ".obsidian/.vox-cache/20240101-1000-test.wav",
+};
+
+const audio = new Uint8Array([82, 73, 70, 70, 0, 0, 0, 0]).buffer;
+
+describe("Transcription Backends", () => {
+  let mockServer: ChildProcess;
+
+  beforeAll(async () => {
+    mockServer = spawn("node", ["project/mock-whisper-server.js", MOCK_SERVER_PORT.toString()]);
+
+    // Wait for server to start
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  });
+
+  afterAll(() => {
+    if (mockServer) {
+      mockServer.kill();
+    }
+  });
+
+  const backends: Array<[string, TranscriptionBackend]> = [
+    ["whisper.cpp", new WhisperCppBackend(settings, "test-app-id")],
+    ["OpenAI-compatible", new OpenAICompatibleBackend(settings)],
+  ];
+
+  describe.each(backends)("%s backend", (_, backend) => {
+    it("should return a normalized transcription response", async () => {
+      const response = await backend.transcribe({ audioFile, audio });
+
+      expect(typeof response.text).toBe("string");
+      expect(response.text.length).toBeGreaterThan(0);
+      expect(typeof response.language).toBe("string");
+      expect(Array.isArray(response.segments)).toBe(true);
+      expect(response.segments.length).toBe(3);
+    });
+
+    it("should return segments with timing and text", async () => {
+      const response = await backend.transcribe({ audioFile, audio });
+
+      response.segments.forEach((segment) => {
+        expect(typeof segment.id).toBe("number");
+        expect(typeof segment.start).toBe("number");
+        expect(typeof segment.end).toBe("number");
+        expect(segment.end).toBeGreaterThanOrEqual(segment.start);
+        expect(typeof segment.text).toBe("string");
+        expect(Array.isArray(segment.tokens)).toBe(true);
+        expect(typeof segment.avg_logprob).toBe("number");
+        expect(typeof segment.no_speech_prob).toBe("number");
+      });
+    });
+
+    it("should nest word-level timestamps within their segments", async () => {
+      const response = await backend.transcribe({ audioFile, audio });
+
+      response.segments.forEach((segment) => {
+        expect(segment.words?.length).toBeGreaterThan(0);
+
+        segment.words?.forEach((word) => {
+          expect(word.start).toBeGreaterThanOrEqual(segment.start);
+          expect(word.start).toBeLessThanOrEqual(segment.end);
+        });
+      });
+    });
+  });
+
+  it("should translate through the OpenAI-compatible translations endpoint", async () => {
+    const response = await new OpenAICompatibleBackend(settings).transcribe({
+      audioFile,
+      audio,
+      shouldTranslate: true,
+    });
+
+    expect(response.task).toBe("translate");
+    expect(response.text).toContain("This is a mock transcription");
+    expect(response.segments.length).toBe(3);
+    response.segments.forEach((segment) => expect(segment.words).toBeUndefined());
+  });
+
+  it("should only score the words of a backend which reports their probability", async () => {
+    const [whisperCpp, openAI] = await Promise.all(
+      backends.map(([, backend]) => backend.transcribe({ audioFile, audio })),
+    );
+
+    // OpenAI leaves word probabilities out; a stand-in would score every note as certain.
+    expect(whisperCpp.segments.flatMap((s) => s.words ?? []).every((w) => typeof w.probability === "number")).toBe(
+      true,
+    );
+    expect(openAI.segments.flatMap((s) => s.words ?? []).every((w) => w.probability === undefined)).toBe(true);
+  });
+
+  it("should produce the same segment text from both backends", async () => {
+    const [whisperCpp, openAI] = await Promise.all(
+      backends.map(([, backend]) => backend.transcribe({ audioFile, audio })),
+    );
+
+    expect(openAI.segments.map((s) => s.text)).toEqual(whisperCpp.segments.map((s) => s.text));
+    expect(openAI.segments.map((s) => s.words?.map((w) => w.word))).toEqual(
+      whisperCpp.segments.map((s) => s.words?.map((w) => w.word)),
+    );
+  });
+
+  it("should surface HTTP errors from the backend", async () => {
+    const misconfigured = new OpenAICompatibleBackend({
+      ...settings,
+      openAICompatibleEndpoint: `${MOCK_SERVER_URL}/not-a-server`,
+    });
+
+    await expect(misconfigured.transcribe({ audioFile, audio })).rejects.toThrow(/404/);
+  });
+});
@@ -18,6 +18,12 @@ jest.mock("@wasm-audio-decoders/ogg-vorbis", () => ({
 jest.mock("@wasm-audio-decoders/flac", () => ({
   FLACDecoder: jest.fn(),
 }));
+jest.mock("opus-decoder", () => ({
+  OpusDecoder: jest.fn(),
+}));
+jest.mock("ogg-opus-decoder", () => ({
+  OggOpusDecoder: jest.fn(),
+}));
 jest.mock("wav-encoder", () => ({
   encode: jest.fn(),
 }));
@@ -30,7 +36,42 @@ const mockAudioContext = {
 (global as any).AudioContext = jest.fn(() => mockAudioContext);
 (global as any).window = { AudioContext: (global as any).AudioContext };
 
+import { readFileSync } from "fs";
+import path from "path";
+import { MPEGDecoder } from "mpg123-decoder";
+import { OggOpusDecoder } from "ogg-opus-decoder";
+import { OpusDecoder } from "opus-decoder";
 import { LocalAudioConverter } from "../../src/AudioProcessor/LocalAudioConverter";
+import { downmix, resample, toMono } from "../../src/AudioProcessor/resample";
+import { demuxWebmOpus } from "../../src/AudioProcessor/webm";
+import { ResampleQuality } from "../../src/types";
+
+const { encode: encodeWavFixture } = jest.requireActual("wav-encoder");
+
+const sine = (frequency: number, sampleRate: number, seconds: number, amplitude = 0.5) =>
+  Float32Array.from(
+    { length: Math.round(sampleRate * seconds) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate),
+  );
+
+/** The largest difference between two signals, ignoring the edges where filters have less to work with */
+const maxInteriorError = (actual: Float32Array, expected: Float32Array, margin = 100) => {
+  let max = 0;
+  for (let i = margin; i < Math.min(actual.length, expected.length) - margin; i++) {
+    max = Math.max(max, Math.abs(actual[i] - expected[i]));
+  }
+  return max;
+};
+
+/**
+ * One second of a 440 Hz tone, 48 kHz mono, encoded with libopus; see tests/fixtures/README.md.
+ */
+const loadFixture = (filename: string) => {
+  const file = readFileSync(path.join(__dirname, "../fixtures/audio", filename));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+};
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
 
 describe("LocalAudioConverter", () => {
   let converter: LocalAudioConverter;
@@ -161,4 +202,184 @@ describe("LocalAudioConverter", () => {
       expect(mockAudioContext.close).toHaveBeenCalled();
     });
   });
+
+  describe("resampling to 16 kHz mono", () => {
+    const WavEncoder = require("wav-encoder");
+
+    beforeEach(() => {
+      WavEncoder.encode.mockReset();
+      WavEncoder.encode.mockResolvedValue(new ArrayBuffer(2048));
+    });
+
+    it("should downsample MP3 audio to 16 kHz mono before encoding", async () => {
+      (MPEGDecoder as unknown as jest.Mock).mockImplementation(() => ({
+        ready: Promise.resolve(),
+        decode: jest.fn(async () => ({
+          sampleRate: 48000,
+          channelData: [sine(440, 48000, 1), sine(440, 48000, 1)],
+        })),
+        free: jest.fn(),
+      }));
+
+      await converter.convertToWav(new ArrayBuffer(1024), ".mp3");
+
+      const encoded = WavEncoder.encode.mock.calls[0][0];
+      expect(encoded.sampleRate).toBe(16000);
+      expect(encoded.channelData).toHaveLength(1);
+      expect(encoded.channelData[0].length).toBe(16000);
+    });
+
+    it("should resample WAV files recorded at other rates", async () => {
+      const wav = await encodeWavFixture({
+        sampleRate: 44100,
+        channelData: [sine(440, 44100, 0.5), sine(440, 44100, 0.5)],
+      });
+
+      await converter.convertToWav(wav, ".wav");
+
+      const encoded = WavEncoder.encode.mock.calls[0][0];
+      expect(encoded.sampleRate).toBe(16000);
+      expect(encoded.channelData).toHaveLength(1);
+      expect(encoded.channelData[0].length).toBe(8000);
+    });
+
+    it("should pass through WAV files which are already 16 kHz mono", async () => {
+      const wav = await encodeWavFixture({ sampleRate: 16000, channelData: [sine(440, 16000, 0.5)] });
+
+      const result = await converter.convertToWav(wav, ".wav");
+
+      expect(result).toBe(wav);
+      expect(WavEncoder.encode).not.toHaveBeenCalled();
+    });
+
+    it("should average channels when downmixing", () => {
+      const mono = downmix([Float32Array.from([1, 0.5, -1]), Float32Array.from([0, 0.5, 1])]);
+
+      expect(Array.from(mono)).toEqual([0.5, 0.5, 0]);
+    });
+
+    it("should leave audio which is already 16 kHz mono untouched", async () => {
+      const audio = { sampleRate: 16000, channelData: [sine(440, 16000, 0.1)] };
+
+      await expect(toMono(audio, 16000, ResampleQuality.HIGH)).resolves.toBe(audio);
+    });
+
+    it.each([ResampleQuality.HIGH, ResampleQuality.FAST])(
+      "should accurately convert 44.1 kHz to 16 kHz (%s)",
+      async (quality) => {
+        const resampled = await resample(sine(440, 44100, 0.5), 44100, 16000, quality);
+
+        expect(maxInteriorError(resampled, sine(440, 16000, 0.5))).toBeLessThan(0.01);
+      },
+    );
+
+    it("should accurately upsample 8 kHz to 16 kHz", async () => {
+      const resampled = await resample(sine(300, 8000, 1), 8000, 16000, ResampleQuality.HIGH);
+
+      expect(maxInteriorError(resampled, sine(300, 16000, 1))).toBeLessThan(0.01);
+    });
+
+    it.each([
+      [48000, 16000],
+      [44100, 16000],
+      [22050, 16000],
+      [8000, 16000],
+    ])("should preserve the duration when converting %i Hz to %i Hz", async (fromRate, toRate) => {
+      const seconds = 1.3;
+      const resampled = await resample(sine(440, fromRate, seconds), fromRate, toRate, ResampleQuality.HIGH);
+
+      expect(resampled.length / toRate).toBeCloseTo(seconds, 3);
+    });
+
+    it("should filter out frequencies above the new Nyquist limit", async () => {
+      // 10 kHz can't be represented at 16 kHz; without filtering it would alias down to 6 kHz.
+      const resampled = await resample(sine(10000, 48000, 0.5), 48000, 16000, ResampleQuality.HIGH);
+
+      expect(rms(resampled.subarray(100, -100))).toBeLessThan(0.02);
+    });
+
+    it("should hand the thread back while filtering a long recording", async () => {
+      let hasYielded = false;
+      setTimeout(() => (hasYielded = true), 0);
+
+      // Without yielding, this would settle before the timer got a chance to fire.
+      const wasYieldedTo = await resample(sine(440, 48000, 3), 48000, 16000, ResampleQuality.HIGH).then(
+        () => hasYielded,
+      );
+
+      expect(wasYieldedTo).toBe(true);
+    });
+  });
+
+  describe("WebM and Opus support", () => {
+    const WavEncoder = require("wav-encoder");
+    const decodedOpus = { sampleRate: 48000, channelData: [sine(440, 48000, 1)], samplesDecoded: 48000, errors: [] };
+
+    let mockOpusDecoder: { ready: Promise<void>; decodeFrames: jest.Mock; free: jest.Mock };
+    let mockOggOpusDecoder: { ready: Promise<void>; decodeFile: jest.Mock; free: jest.Mock };
+
+    beforeEach(() => {
+      WavEncoder.encode.mockReset();
+      WavEncoder.encode.mockResolvedValue(new ArrayBuffer(2048));
+
+      mockOpusDecoder = { ready: Promise.resolve(), decodeFrames: jest.fn(() => decodedOpus), free: jest.fn() };
+      mockOggOpusDecoder = { ready: Promise.resolve(), decodeFile: jest.fn(async () => decodedOpus), free: jest.fn() };
+
+      (OpusDecoder as unknown as jest.Mock).mockReset().mockImplementation(() => mockOpusDecoder);
+      (OggOpusDecoder as unknown as jest.Mock).mockReset().mockImplementation(() => mockOggOpusDecoder);
+    });
+
+    describe("demuxWebmOpus", () => {
+      it("should read every Opus packet from a MediaRecorder style WebM file", () => {
+        const stream = demuxWebmOpus(loadFixture("recorder-opus.webm"));
+
+        expect(stream.frames).toHaveLength(50);
+        expect(stream.channels).toBe(1);
+        expect(stream.preSkip).toBe(312);
+        stream.frames.forEach((frame) => expect(frame.length).toBeGreaterThan(0));
+      });
+
+      it("should recover the complete packets from a recording that was cut off", () => {
+        const webm = loadFixture("recorder-opus.webm");
+
+        const stream = demuxWebmOpus(webm.slice(0, Math.floor(webm.byteLength * 0.6)));
+
+        expect(stream.frames.length).toBeGreaterThan(20);
+        expect(stream.frames.length).toBeLessThan(50);
+      });
+
+      it("should reject files without an Opus track", () => {
+        expect(() => demuxWebmOpus(loadFixture("voice-message.opus"))).toThrow(/does not contain an Opus audio track/);
+      });
+    });
+
+    it("should decode WebM recordings through the Opus decoder", async () => {
+      await converter.convertToWav(loadFixture("recorder-opus.webm"), ".webm");
+
+      expect(OpusDecoder).toHaveBeenCalledWith({ channels: 1, preSkip: 312 });
+      expect(mockOpusDecoder.decodeFrames.mock.calls[0][0]).toHaveLength(50);
+      expect(mockOpusDecoder.free).toHaveBeenCalled();
+      expect(WavEncoder.encode.mock.calls[0][0].sampleRate).toBe(16000);
+    });
+
+    it("should decode .opus files through the Ogg Opus decoder", async () => {
+      await converter.convertToWav(loadFixture("voice-message.opus"), ".opus");
+
+      expect(mockOggOpusDecoder.decodeFile).toHaveBeenCalledWith(expect.any(Uint8Array));
+      expect(mockOggOpusDecoder.free).toHaveBeenCalled();
+    });
+
+    it("should send Opus voice messages with an .ogg extension to the Opus decoder", async () => {
+      const { OggVorbisDecoder } = require("@wasm-audio-decoders/ogg-vorbis");
+
+      await converter.convertToWav(loadFixture("voice-message.opus"), ".ogg");
+
+      expect(mockOggOpusDecoder.decodeFile).toHaveBeenCalled();
+      expect(OggVorbisDecoder).not.toHaveBeenCalled();
+    });
+
+    it("should report WebM files which contain no audio", async () => {
+      await expect(converter.convertToWav(new ArrayBuffer(64), ".webm")).rejects.toThrow(/Opus audio track/);
+    });
+  });
 });
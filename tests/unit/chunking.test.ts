@@ -0,0 +1,177 @@
+/**
+ * Unit tests for splitting long recordings into chunks and stitching their transcriptions back together
+ */
+
+import { planChunks, sliceAudio } from "../../src/AudioProcessor/chunking";
+import { decodeWav, encodeWav, getDuration } from "../../src/AudioProcessor/wav";
+import { removeRepeatedWords, stitchTranscriptions } from "../../src/TranscriptionProcessor/stitch";
+import { TranscriptionResponse, TranscriptionSegment } from "../../src/types";
+
+const createSegment = (start: number, end: number, text: string): TranscriptionSegment => ({
+  id: 0,
+  start,
+  end,
+  text,
+  tokens: [],
+  temperature: 0,
+  avg_logprob: -0.2,
+  no_speech_prob: 0.01,
+});
+
+const createResponse = (segments: TranscriptionSegment[]): TranscriptionResponse => ({
+  text: segments.map((segment) => segment.text).join(""),
+  language: "en",
+  segments,
+});
+
+describe("Chunking", () => {
+  describe("planChunks", () => {
+    it("should return a single window for short recordings", () => {
+      expect(planChunks(120, 300, 5)).toEqual([{ index: 0, start: 0, end: 120 }]);
+    });
+
+    it("should return a single window when chunking is disabled", () => {
+      expect(planChunks(3600, 0, 5)).toEqual([{ index: 0, start: 0, end: 3600 }]);
+    });
+
+    it("should overlap consecutive windows", () => {
+      const windows = planChunks(700, 300, 5);
+
+      expect(windows).toEqual([
+        { index: 0, start: 0, end: 300 },
+        { index: 1, start: 295, end: 595 },
+        { index: 2, start: 590, end: 700 },
+      ]);
+    });
+
+    it("should fold a trailing sliver into the previous window", () => {
+      const windows = planChunks(598, 300, 5);
+
+      expect(windows).toHaveLength(2);
+      expect(windows[1]).toEqual({ index: 1, start: 295, end: 598 });
+    });
+
+    it("should cover an hour long recording", () => {
+      const windows = planChunks(3600, 300, 5);
+
+      expect(windows[0].start).toBe(0);
+      expect(windows[windows.length - 1].end).toBe(3600);
+      windows.slice(1).forEach((window, i) => expect(window.start).toBeLessThan(windows[i].end));
+    });
+  });
+
+  describe("sliceAudio", () => {
+    it("should cut samples from every channel", () => {
+      const audio = {
+        sampleRate: 10,
+        channelData: [
+          Float32Array.from({ length: 100 }, (_, i) => i),
+          Float32Array.from({ length: 100 }, (_, i) => -i),
+        ],
+      };
+
+      const slice = sliceAudio(audio, { index: 1, start: 2, end: 3.5 });
+
+      expect(slice.channelData[0].length).toBe(15);
+      expect(slice.channelData[0][0]).toBe(20);
+      expect(slice.channelData[1][0]).toBe(-20);
+    });
+  });
+
+  describe("WAV round trip", () => {
+    it("should decode what it encodes", async () => {
+      const samples = Float32Array.from({ length: 1600 }, (_, i) => Math.sin(i / 10) * 0.5);
+
+      const decoded = decodeWav(await encodeWav({ sampleRate: 16000, channelData: [samples] }));
+
+      expect(decoded.sampleRate).toBe(16000);
+      expect(decoded.channelData).toHaveLength(1);
+      expect(getDuration(decoded)).toBeCloseTo(0.1);
+      expect(decoded.channelData[0][100]).toBeCloseTo(samples[100], 3);
+    });
+
+    it("should reject files which are not WAV", () => {
+      expect(() => decodeWav(new TextEncoder().encode("not a wav file at all").buffer)).toThrow(/Not a WAV file/);
+    });
+  });
+});
+
+describe("Stitching", () => {
+  it("should offset segment and word timestamps by the chunk start", () => {
+    const first = createResponse([createSegment(0, 4, " Hello there.")]);
+    const second = createResponse([
+      {
+        ...createSegment(10, 14, " General Kenobi."),
+        words: [{ word: "General", start: 10, end: 11, t_dtw: -1, probability: 0.9 }],
+      },
+    ]);
+
+    const stitched = stitchTranscriptions([
+      { start: 0, end: 300, response: first },
+      { start: 295, end: 500, response: second },
+    ]);
+
+    expect(stitched.segments[1].start).toBe(305);
+    expect(stitched.segments[1].end).toBe(309);
+    expect(stitched.segments[1].words?.[0].start).toBe(305);
+    expect(stitched.segments.map((segment) => segment.id)).toEqual([0, 1]);
+    expect(stitched.duration).toBe(500);
+  });
+
+  it("should keep overlapping segments from only one chunk", () => {
+    // Both chunks heard 295-300; the boundary falls at 297.5.
+    const first = createResponse([
+      createSegment(290, 294, " Before the overlap."),
+      createSegment(295, 299, " In the overlap."),
+    ]);
+    const second = createResponse([
+      createSegment(0, 4, " In the overlap."),
+      createSegment(5, 9, " After the overlap."),
+    ]);
+
+    const stitched = stitchTranscriptions([
+      { start: 0, end: 300, response: first },
+      { start: 295, end: 600, response: second },
+    ]);
+
+    expect(stitched.text).toBe(" Before the overlap. In the overlap. After the overlap.");
+  });
+
+  it("should remove words repeated across the boundary", () => {
+    const first = createResponse([createSegment(294, 298, " We walked down to the")]);
+    const second = createResponse([createSegment(3, 6, " to the shops.")]);
+
+    const stitched = stitchTranscriptions([
+      { start: 0, end: 300, response: first },
+      { start: 295, end: 600, response: second },
+    ]);
+
+    expect(stitched.text).toBe(" We walked down to the shops.");
+  });
+
+  it("should return a single chunk unchanged apart from its duration", () => {
+    const response = createResponse([createSegment(0, 4, " Only chunk.")]);
+
+    const stitched = stitchTranscriptions([{ start: 0, end: 4, response }]);
+
+    expect(stitched.text).toBe(" Only chunk.");
+    expect(stitched.language).toBe("en");
+  });
+
+  describe("removeRepeatedWords", () => {
+    it("should ignore case and punctuation when comparing", () => {
+      const result = removeRepeatedWords(
+        createSegment(0, 1, " and then, Finally"),
+        createSegment(1, 2, " finally we left."),
+      );
+
+      expect(result.text).toBe(" we left.");
+    });
+
+    it("should leave segments without repeated words untouched", () => {
+      const segment = createSegment(1, 2, " something new");
+
+      expect(removeRepeatedWords(createSegment(0, 1, " entirely different"), segment)).toBe(segment);
+    });
+  });
+});
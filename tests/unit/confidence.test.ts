@@ -0,0 +1,136 @@
+/**
+ * Unit tests for marking what whisper wasn't sure of, and scoring the transcript's confidence
+ */
+
+import {
+  ConfidenceOptions,
+  formatSegmentText,
+  getTranscriptConfidence,
+  removeNoSpeech,
+} from "../../src/MarkdownProcessor/confidence";
+import { LowConfidenceStyle, NoSpeechAction, TranscriptionSegment, TranscriptionWord } from "../../src/types";
+
+const word = (text: string, probability?: number): TranscriptionWord => ({
+  word: text,
+  start: 0,
+  end: 0,
+  t_dtw: -1,
+  probability,
+});
+
+const segment = (text: string, overrides: Partial<TranscriptionSegment> = {}): TranscriptionSegment => ({
+  id: 0,
+  start: 0,
+  end: 2,
+  text,
+  tokens: [],
+  temperature: 0,
+  avg_logprob: -0.2,
+  no_speech_prob: 0.01,
+  ...overrides,
+});
+
+/** As whisper.cpp returns it: punctuation is part of the word before */
+const fish = segment(" I caught a big fish.", {
+  words: [word("I", 0.98), word("caught", 0.42), word("a", 0.95), word("big", 0.31), word("fish.", 0.9)],
+});
+
+/** A classic hallucination over the silence at the end of a recording */
+const thanks = segment(" Thanks for watching!", { start: 30, end: 32, avg_logprob: -1.2, no_speech_prob: 0.82 });
+
+const options: ConfidenceOptions = {
+  lowConfidenceStyle: LowConfidenceStyle.HIGHLIGHT,
+  lowConfidenceThreshold: 0.5,
+  noSpeechAction: NoSpeechAction.KEEP,
+  noSpeechThreshold: 0.6,
+};
+
+describe("Confidence", () => {
+  describe("formatSegmentText", () => {
+    it("should highlight the words below the threshold", () => {
+      expect(formatSegmentText(fish, options)).toBe("I ==caught== a ==big== fish.");
+    });
+
+    it("should mark words with a span to style", () => {
+      expect(formatSegmentText(fish, { ...options, lowConfidenceStyle: LowConfidenceStyle.SPAN })).toBe(
+        'I <span class="vox-low-confidence">caught</span> a <span class="vox-low-confidence">big</span> fish.',
+      );
+    });
+
+    it("should keep the punctuation of words which leave it out", () => {
+      // OpenAI-compatible servers return the words bare.
+      const bare = { ...fish, words: [word("I", 0.98), word("caught", 0.9), word("big", 0.2), word("fish", 0.3)] };
+
+      expect(formatSegmentText(bare, options)).toBe("I caught a ==big== ==fish==.");
+    });
+
+    it("should leave the text alone when not marking, or without word probabilities", () => {
+      expect(formatSegmentText(fish, { ...options, lowConfidenceStyle: LowConfidenceStyle.NONE })).toBe(
+        "I caught a big fish.",
+      );
+      expect(formatSegmentText(segment(" Hello there."), options)).toBe("Hello there.");
+    });
+
+    it("should leave alone the words the backend didn't score", () => {
+      const unscored = segment(" Hello there.", { words: [word("Hello"), word("there", 0.2)] });
+
+      expect(formatSegmentText(unscored, options)).toBe("Hello ==there==.");
+    });
+
+    it("should strike through a segment which is probably not speech, when flagging", () => {
+      expect(formatSegmentText(thanks, { ...options, noSpeechAction: NoSpeechAction.FLAG })).toBe(
+        "~~Thanks for watching!~~",
+      );
+      expect(formatSegmentText(thanks, options)).toBe("Thanks for watching!");
+    });
+  });
+
+  describe("removeNoSpeech", () => {
+    it("should leave out segments which are probably not speech, when dropping", () => {
+      expect(removeNoSpeech([fish, thanks], { ...options, noSpeechAction: NoSpeechAction.DROP })).toEqual([fish]);
+    });
+
+    it("should keep every segment otherwise", () => {
+      expect(removeNoSpeech([fish, thanks], { ...options, noSpeechAction: NoSpeechAction.FLAG })).toEqual([
+        fish,
+        thanks,
+      ]);
+    });
+
+    it("should follow the threshold", () => {
+      const dropping = { ...options, noSpeechAction: NoSpeechAction.DROP, noSpeechThreshold: 0.9 };
+
+      expect(removeNoSpeech([fish, thanks], dropping)).toEqual([fish, thanks]);
+    });
+  });
+
+  describe("getTranscriptConfidence", () => {
+    it("should average the probability of the words", () => {
+      expect(getTranscriptConfidence([fish])).toBe(0.71);
+    });
+
+    it("should weigh segments by their length without word probabilities", () => {
+      const segments = [
+        segment(" Sure.", { start: 0, end: 1, avg_logprob: Math.log(0.4) }),
+        segment(" Absolutely sure.", { start: 1, end: 4, avg_logprob: Math.log(0.8) }),
+      ];
+
+      expect(getTranscriptConfidence(segments)).toBe(0.7);
+    });
+
+    it("should weigh segments by their length when the words aren't scored", () => {
+      const segments = [
+        segment(" Sure.", { start: 0, end: 1, avg_logprob: Math.log(0.4), words: [word("Sure")] }),
+        segment(" Absolutely sure.", { start: 1, end: 4, avg_logprob: Math.log(0.8), words: [word("Absolutely")] }),
+      ];
+
+      expect(getTranscriptConfidence(segments)).toBe(0.7);
+      expect(getTranscriptConfidence([segment(" Hi.", { avg_logprob: 0, words: [word("Hi")] })])).toBeNull();
+    });
+
+    it("should have no score when the backend reports no probabilities", () => {
+      expect(getTranscriptConfidence([segment(" Hi.", { avg_logprob: 0 })])).toBeNull();
+      expect(getTranscriptConfidence([])).toBeNull();
+    });
+  });
+});
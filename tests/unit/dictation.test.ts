@@ -0,0 +1,92 @@
+/**
+ * Unit tests for dictating a recording into a note at the cursor
+ */
+
+import { DataAdapter } from "obsidian";
+import {
+  createDictationAnchor,
+  formatDictation,
+  insertDictation,
+  readDictationSidecar,
+  writeDictationSidecar,
+} from "../../src/utils/dictation";
+import { extractFileDetail } from "../../src/utils/format";
+
+const createAdapter = (files: Record<string, string>) =>
+  ({
+    exists: jest.fn(async (path: string) => path in files),
+    read: jest.fn(async (path: string) => files[path]),
+    write: jest.fn(async (path: string, data: string) => {
+      files[path] = data;
+    }),
+  }) as unknown as DataAdapter;
+
+describe("Dictation", () => {
+  const anchor = createDictationAnchor("lu8x2k");
+
+  it("should leave its anchor as a hidden comment", () => {
+    expect(anchor).toBe("%%VOX dictation lu8x2k%%");
+  });
+
+  describe("formatDictation", () => {
+    it("should trim the transcript", () => {
+      expect(formatDictation("  Buy more coffee. \n", null)).toBe("Buy more coffee.");
+    });
+
+    it("should follow the transcript with an embed of its audio", () => {
+      expect(formatDictation(" Buy more coffee.", "Voice/audio/Dictation.wav")).toBe(
+        "Buy more coffee.\n\n![[Voice/audio/Dictation.wav]]",
+      );
+    });
+  });
+
+  describe("insertDictation", () => {
+    it("should replace the anchor where the cursor was", () => {
+      const content = `# Groceries\n\n- Milk ${anchor}\n- Eggs\n`;
+
+      expect(insertDictation(content, anchor, "and bread")).toBe("# Groceries\n\n- Milk and bread\n- Eggs\n");
+    });
+
+    it("should insert the dictation as written", () => {
+      expect(insertDictation(anchor, anchor, "It costs $& now")).toBe("It costs $& now");
+    });
+
+    it("should add the dictation to the end of the note when the anchor is gone", () => {
+      expect(insertDictation("# Groceries\n\n- Milk\n\n", anchor, "Buy bread.")).toBe(
+        "# Groceries\n\n- Milk\n\nBuy bread.\n",
+      );
+    });
+  });
+
+  describe("sidecar", () => {
+    const audioFile = extractFileDetail("Voice/unprocessed/Dictation 20240309-140507.webm");
+    const sidecarPath = "Voice/unprocessed/Dictation 20240309-140507.dictation.json";
+    const target = { notePath: "Journal/2024-03-09.md", anchor, shouldEmbedAudio: true };
+
+    it("should read back the target written next to the audio", async () => {
+      const files: Record<string, string> = {};
+      const adapter = createAdapter(files);
+
+      await writeDictationSidecar(adapter, audioFile, target);
+
+      expect(Object.keys(files)).toEqual([sidecarPath]);
+      expect(await readDictationSidecar(adapter, audioFile)).toEqual(target);
+    });
+
+    it("should read no target for an ordinary recording", async () => {
+      expect(await readDictationSidecar(createAdapter({}), audioFile)).toBeNull();
+    });
+
+    it("should read no target from a sidecar it doesn't recognise", async () => {
+      const adapter = createAdapter({ [sidecarPath]: JSON.stringify({ version: 1, notePath: "Journal.md" }) });
+
+      expect(await readDictationSidecar(adapter, audioFile)).toBeNull();
+    });
+
+    it("should read no target from a corrupt sidecar", async () => {
+      const adapter = createAdapter({ [sidecarPath]: "{ not json" });
+
+      expect(await readDictationSidecar(adapter, audioFile)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the templates notes and their audio are named with
+ */
+
+import { DateTime } from "luxon";
+import { Settings } from "settings";
+import { DEFAULT_AUDIO_FILENAME_TEMPLATE, DEFAULT_TITLE_TEMPLATE } from "../../src/constants";
+import {
+  FilenameContext,
+  buildFilenameContext,
+  renderFilenameTemplate,
+  slugify,
+  validateFilenameTemplate,
+} from "../../src/utils/filename";
+import { AUDIO_EMBED_REGEX, extractFileDetail, formatAudioEmbed } from "../../src/utils/format";
+
+const context: FilenameContext = {
+  name: "i caught a BIG fish",
+  recordedAt: DateTime.fromISO("2021-07-15T14:02:03"),
+  category: "Life Notes",
+  categoryKey: "LN",
+  importance: 4,
+};
+
+describe("Filename Templates", () => {
+  describe("renderFilenameTemplate", () => {
+    it("should title notes as they always have been by default", () => {
+      expect(renderFilenameTemplate(DEFAULT_TITLE_TEMPLATE, context)).toBe("TXC - 2021-07-15 I Caught A BIG Fish");
+    });
+
+    it("should name audio without a colon by default", () => {
+      expect(renderFilenameTemplate(DEFAULT_AUDIO_FILENAME_TEMPLATE, context)).toBe(
+        "20210715-1402-i-caught-a-big-fish",
+      );
+    });
+
+    it("should format dates with any Luxon format", () => {
+      expect(renderFilenameTemplate("{{date:cccc d LLLL}} {{date}}", context)).toBe("Thursday 15 July 2021-07-15");
+    });
+
+    it("should fill in the category and importance", () => {
+      expect(renderFilenameTemplate("{{importance}}{{category_key}} {{category|slug}} {{name}}", context)).toBe(
+        "4LN life-notes i caught a BIG fish",
+      );
+    });
+
+    it("should tidy away separators left by empty tokens", () => {
+      const uncategorised = { ...context, category: "", categoryKey: "", importance: null };
+
+      expect(renderFilenameTemplate("{{category}} - {{name|slug}} - {{category_key}}", uncategorised)).toBe(
+        "i-caught-a-big-fish",
+      );
+    });
+
+    it("should strip characters which can't be used in a filename", () => {
+      expect(renderFilenameTemplate("{{name}}", { ...context, name: 'Q&A: "what/why?"' })).toBe("Q&A whatwhy");
+    });
+  });
+
+  describe("validateFilenameTemplate", () => {
+    it("should accept the default templates", () => {
+      expect(validateFilenameTemplate(DEFAULT_TITLE_TEMPLATE)).toBeNull();
+      expect(validateFilenameTemplate(DEFAULT_AUDIO_FILENAME_TEMPLATE)).toBeNull();
+    });
+
+    it("should reject characters illegal on common filesystems", () => {
+      expect(validateFilenameTemplate("{{date:yyyyMMdd-hh:mm}}-{{name}}")).toBe("Filenames can't contain :");
+      expect(validateFilenameTemplate("Memos/{{name}}?")).toBe("Filenames can't contain / ?");
+    });
+
+    it("should reject unknown placeholders and options", () => {
+      expect(validateFilenameTemplate("{{nam}}")).toBe("Unknown placeholder {{nam}}.");
+      expect(validateFilenameTemplate("{{name|kebab}}")).toBe('Unknown option "|kebab" in {{name|kebab}}.');
+    });
+
+    it("should reject a template which produces no name", () => {
+      expect(validateFilenameTemplate(" - ")).toBe("The template must produce a name.");
+    });
+  });
+
+  describe("buildFilenameContext", () => {
+    const settings = { shouldUseCategoryMaps: true, categoryMap: { LN: "Life Notes" } } as unknown as Settings;
+    const recordedAt = DateTime.fromISO("2021-07-15T14:02:03");
+
+    it("should take the category off the name", () => {
+      expect(buildFilenameContext(extractFileDetail("Voice/R4LN Big fish.m4a"), recordedAt, settings)).toEqual({
+        name: "Big fish",
+        recordedAt,
+        category: "Life Notes",
+        categoryKey: "LN",
+        importance: 4,
+      });
+    });
+
+    it("should leave the category out when category maps are off", () => {
+      const file = extractFileDetail("Voice/R4LN Big fish.m4a");
+
+      expect(buildFilenameContext(file, recordedAt, { ...settings, shouldUseCategoryMaps: false })).toEqual(
+        expect.objectContaining({ name: "Big fish", category: "", importance: null }),
+      );
+    });
+
+    it("should separate the words of a dashed name", () => {
+      const file = extractFileDetail("Voice/R4LN Big-fish.m4a");
+
+      expect(buildFilenameContext(file, recordedAt, settings)).toEqual(expect.objectContaining({ name: "Big fish" }));
+    });
+  });
+
+  it("should slugify names", () => {
+    expect(slugify("  Café: the BIG fish!  ")).toBe("café-the-big-fish");
+  });
+
+  describe("Audio embeds", () => {
+    it("should embed the audio next to the note", () => {
+      expect(formatAudioEmbed("20240309-0905-standup.wav")).toBe("![](./audio/20240309-0905-standup.wav)");
+    });
+
+    it("should wrap a path with spaces in angle brackets, so Obsidian can play it", () => {
+      expect(formatAudioEmbed("Morning standup.wav")).toBe("![](<./audio/Morning standup.wav>)");
+    });
+
+    it.each(["20240309-0905-standup.wav", "Morning standup.wav"])("should read back the audio of %s", (filename) => {
+      expect(`# Standup\n\n${formatAudioEmbed(filename)}\n`.match(AUDIO_EMBED_REGEX)?.[1]).toBe(filename);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for choosing the language to transcribe in, and reading back the language detected
+ */
+
+import {
+  formatLanguageOverrides,
+  parseLanguageOverrides,
+  resolveLanguage,
+  toLanguageCode,
+} from "../../src/utils/language";
+
+describe("Language", () => {
+  describe("toLanguageCode", () => {
+    it("should turn a language's name into its code", () => {
+      // OpenAI-compatible servers report the language by name.
+      expect(toLanguageCode("english")).toBe("en");
+      expect(toLanguageCode("German")).toBe("de");
+      expect(toLanguageCode("haitian creole")).toBe("ht");
+    });
+
+    it("should keep a code as it is", () => {
+      expect(toLanguageCode("de")).toBe("de");
+      expect(toLanguageCode(" EN ")).toBe("en");
+      expect(toLanguageCode("yue")).toBe("yue");
+    });
+
+    it("should be empty when there's no language", () => {
+      expect(toLanguageCode(undefined)).toBe("");
+      expect(toLanguageCode("")).toBe("");
+    });
+  });
+
+  describe("parseLanguageOverrides", () => {
+    it("should read a language for each folder", () => {
+      expect(parseLanguageOverrides("Voice/Deutsch: de\n\n/Voice/Meetings/ : auto\nVoice/Español: Spanish")).toEqual({
+        overrides: { "Voice/Deutsch": "de", "Voice/Meetings": "auto", "Voice/Español": "es" },
+        error: null,
+      });
+    });
+
+    it("should reject a line without a folder", () => {
+      expect(parseLanguageOverrides("Voice/Deutsch: de\nde").error).toBe('Line 2 should be "folder: language"');
+      expect(parseLanguageOverrides(": de").error).toBe('Line 1 should be "folder: language"');
+    });
+
+    it("should reject a language whisper doesn't know", () => {
+      expect(parseLanguageOverrides("Voice/Klingon: tlh").error).toBe(`Line 1: "tlh" isn't a language whisper knows`);
+    });
+
+    it("should read back what it writes", () => {
+      const overrides = { "Voice/Deutsch": "de", "Voice/Work/Paris": "fr" };
+
+      expect(parseLanguageOverrides(formatLanguageOverrides(overrides)).overrides).toEqual(overrides);
+    });
+  });
+
+  describe("resolveLanguage", () => {
+    const settings = {
+      language: "en",
+      languageOverrides: { "Voice/unprocessed/Deutsch": "de", "Voice/unprocessed/Deutsch/Wien": "auto" },
+    };
+
+    it("should use the default language outside the folders with their own", () => {
+      expect(resolveLanguage("Voice/unprocessed/Standup.m4a", settings)).toBe("en");
+    });
+
+    it("should use the language of the folder the audio is in, or any folder above it", () => {
+      expect(resolveLanguage("Voice/unprocessed/Deutsch/Einkauf.m4a", settings)).toBe("de");
+      expect(resolveLanguage("Voice/unprocessed/Deutsch/2024/Einkauf.m4a", settings)).toBe("de");
+    });
+
+    it("should prefer the deepest folder", () => {
+      expect(resolveLanguage("Voice/unprocessed/Deutsch/Wien/Heuriger.m4a", settings)).toBe("auto");
+    });
+
+    it("should not match a folder which only starts alike", () => {
+      expect(resolveLanguage("Voice/unprocessed/Deutschland.m4a", settings)).toBe("en");
+    });
+  });
+});
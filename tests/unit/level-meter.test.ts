@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the recorder's input level meter
+ */
+
+import { LevelMeter } from "../../src/AudioRecorder/LevelMeter";
+
+/**
+ * A stand-in for the Web Audio graph: the analyser reports whatever amplitude the test sets.
+ */
+const createFakeAudio = () => {
+  const audio = {
+    amplitude: 0,
+    isConnected: false,
+    isClosed: false,
+  };
+
+  const analyser = {
+    fftSize: 0,
+    getFloatTimeDomainData: (samples: Float32Array) => {
+      // A square wave; its RMS is exactly the amplitude.
+      samples.forEach((_, i) => (samples[i] = i % 2 === 0 ? audio.amplitude : -audio.amplitude));
+    },
+  };
+
+  const context = {
+    createMediaStreamSource: jest.fn(() => ({
+      connect: () => (audio.isConnected = true),
+      disconnect: () => (audio.isConnected = false),
+    })),
+    createAnalyser: () => analyser,
+    close: () => (audio.isClosed = true),
+  } as unknown as AudioContext;
+
+  return { audio, context };
+};
+
+const fakeStream = {} as MediaStream;
+
+describe("Level Meter", () => {
+  it("should analyse the given stream", () => {
+    const { audio, context } = createFakeAudio();
+    new LevelMeter(fakeStream, 10, () => context);
+
+    expect(context.createMediaStreamSource).toHaveBeenCalledWith(fakeStream);
+    expect(audio.isConnected).toBe(true);
+  });
+
+  it("should report the input level in dBFS", () => {
+    const { audio, context } = createFakeAudio();
+    const meter = new LevelMeter(fakeStream, 10, () => context);
+
+    audio.amplitude = 0.1;
+    expect(meter.sample(0).levelDb).toBeCloseTo(-20, 5);
+
+    audio.amplitude = 1;
+    expect(meter.sample(100).levelDb).toBeCloseTo(0, 5);
+  });
+
+  it("should report digital silence as -Infinity", () => {
+    const { context } = createFakeAudio();
+    const meter = new LevelMeter(fakeStream, 10, () => context);
+
+    expect(meter.sample(0)).toEqual({ levelDb: -Infinity, silentSeconds: 0, isSilent: false });
+  });
+
+  it("should warn once the input has been silent for the warning period", () => {
+    const { audio, context } = createFakeAudio();
+    const meter = new LevelMeter(fakeStream, 10, () => context);
+
+    // Quieter than a working microphone in a quiet room.
+    audio.amplitude = 0.0001;
+
+    expect(meter.sample(0).isSilent).toBe(false);
+    expect(meter.sample(9_900)).toEqual(expect.objectContaining({ silentSeconds: 9.9, isSilent: false }));
+    expect(meter.sample(10_000)).toEqual(expect.objectContaining({ silentSeconds: 10, isSilent: true }));
+  });
+
+  it("should start counting again when sound returns", () => {
+    const { audio, context } = createFakeAudio();
+    const meter = new LevelMeter(fakeStream, 10, () => context);
+
+    meter.sample(0);
+    meter.sample(12_000);
+
+    audio.amplitude = 0.2;
+    expect(meter.sample(12_100)).toEqual(expect.objectContaining({ silentSeconds: 0, isSilent: false }));
+
+    audio.amplitude = 0;
+    meter.sample(13_000);
+    expect(meter.sample(20_000).isSilent).toBe(false);
+  });
+
+  it("should start counting again after a reset", () => {
+    const { context } = createFakeAudio();
+    const meter = new LevelMeter(fakeStream, 10, () => context);
+
+    meter.sample(0);
+    meter.reset();
+
+    expect(meter.sample(15_000).silentSeconds).toBe(0);
+    expect(meter.sample(20_000).silentSeconds).toBe(5);
+  });
+
+  it("should never warn with a warning period of 0", () => {
+    const { context } = createFakeAudio();
+    const meter = new LevelMeter(fakeStream, 0, () => context);
+
+    meter.sample(0);
+    expect(meter.sample(600_000)).toEqual(expect.objectContaining({ silentSeconds: 600, isSilent: false }));
+  });
+
+  it("should release the audio context when closed", () => {
+    const { audio, context } = createFakeAudio();
+    const meter = new LevelMeter(fakeStream, 10, () => context);
+
+    meter.close();
+
+    expect(audio.isConnected).toBe(false);
+    expect(audio.isClosed).toBe(true);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for live transcription: windowing the captured audio, and keeping the provisional transcript
+ */
+
+import { PcmWindow, PcmWindowBuffer } from "../../src/AudioRecorder/PcmCapture";
+import { LiveTranscriber, LiveTranscriptionState } from "../../src/TranscriptionProcessor/LiveTranscriber";
+import { TranscriptionResponse } from "../../src/types";
+
+const SAMPLE_RATE = 10;
+
+const samples = (seconds: number, value = 0.5) => new Float32Array(seconds * SAMPLE_RATE).fill(value);
+
+const pcmWindow = (index: number, isComplete: boolean): PcmWindow => ({
+  index,
+  start: index * 30,
+  audio: { sampleRate: SAMPLE_RATE, channelData: [samples(1)] },
+  isComplete,
+});
+
+const response = (text: string) => ({ text, language: "en", segments: [] }) as unknown as TranscriptionResponse;
+
+/**
+ * A backend which answers each window when the test says so.
+ */
+const createBackend = () => {
+  const requests: Array<{ window: PcmWindow; resolve: (text: string) => void; reject: (error: Error) => void }> = [];
+
+  const transcribe = jest.fn(
+    (window: PcmWindow) =>
+      new Promise<TranscriptionResponse>((resolve, reject) =>
+        requests.push({ window, resolve: (text) => resolve(response(text)), reject }),
+      ),
+  );
+
+  // Let the transcriber pick up the next window after an answer.
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  return { requests, transcribe, settle };
+};
+
+describe("Live Transcription", () => {
+  describe("PcmWindowBuffer", () => {
+    it("should hand over everything recorded in the window so far", () => {
+      const buffer = new PcmWindowBuffer(SAMPLE_RATE, 30);
+
+      buffer.append(samples(5));
+      expect(buffer.take()).toEqual(expect.objectContaining({ index: 0, start: 0, isComplete: false }));
+
+      buffer.append(samples(5));
+      const window = buffer.take();
+
+      expect(window?.audio.channelData[0].length).toBe(10 * SAMPLE_RATE);
+      expect(window?.audio.sampleRate).toBe(SAMPLE_RATE);
+    });
+
+    it("should have nothing to hand over until more is recorded", () => {
+      const buffer = new PcmWindowBuffer(SAMPLE_RATE, 30);
+
+      expect(buffer.take()).toBeNull();
+
+      buffer.append(samples(5));
+      buffer.take();
+
+      expect(buffer.take()).toBeNull();
+    });
+
+    it("should complete a full window and start the next with what spilled over", () => {
+      const buffer = new PcmWindowBuffer(SAMPLE_RATE, 30);
+
+      buffer.append(samples(28, 0.1));
+      buffer.append(samples(4, 0.2));
+
+      const full = buffer.take();
+      const next = buffer.take();
+
+      expect(full).toEqual(expect.objectContaining({ index: 0, isComplete: true }));
+      expect(full?.audio.channelData[0].length).toBe(30 * SAMPLE_RATE);
+
+      expect(next).toEqual(expect.objectContaining({ index: 1, start: 30, isComplete: false }));
+      expect(Array.from(next?.audio.channelData[0] ?? [])).toEqual(Array.from(samples(2, 0.2)));
+    });
+
+    it("should keep its own copy of the samples", () => {
+      const buffer = new PcmWindowBuffer(SAMPLE_RATE, 30);
+      const reused = samples(1, 0.5);
+
+      buffer.append(reused);
+      reused.fill(0);
+
+      expect(buffer.take()?.audio.channelData[0][0]).toBe(0.5);
+    });
+  });
+
+  describe("LiveTranscriber", () => {
+    let states: LiveTranscriptionState[];
+    const latest = () => states[states.length - 1];
+
+    beforeEach(() => {
+      states = [];
+      jest.mocked(console.warn).mockClear();
+    });
+
+    it("should replace the pending text as the window grows, and commit it once complete", async () => {
+      const { requests, transcribe, settle } = createBackend();
+      const transcriber = new LiveTranscriber(transcribe, (state) => states.push(state));
+
+      transcriber.push(pcmWindow(0, false));
+      requests[0].resolve(" Hello ");
+      await settle();
+      expect(latest()).toEqual(expect.objectContaining({ committed: "", pending: "Hello" }));
+
+      transcriber.push(pcmWindow(0, true));
+      requests[1].resolve("Hello world.");
+      await settle();
+      expect(latest()).toEqual(expect.objectContaining({ committed: "Hello world.", pending: "" }));
+
+      transcriber.push(pcmWindow(1, false));
+      requests[2].resolve("How are");
+      await settle();
+      expect(latest()).toEqual(expect.objectContaining({ committed: "Hello world.", pending: "How are" }));
+    });
+
+    it("should only send the newest take of a window when the backend falls behind", async () => {
+      const { requests, transcribe, settle } = createBackend();
+      const transcriber = new LiveTranscriber(transcribe, (state) => states.push(state));
+
+      transcriber.push(pcmWindow(0, false));
+      transcriber.push(pcmWindow(0, false));
+      transcriber.push(pcmWindow(0, true));
+      transcriber.push(pcmWindow(1, false));
+      transcriber.push(pcmWindow(1, false));
+
+      requests[0].resolve("one");
+      await settle();
+      requests[1].resolve("one two");
+      await settle();
+      requests[2].resolve("three");
+      await settle();
+
+      expect(requests.map(({ window }) => [window.index, window.isComplete])).toEqual([
+        [0, false],
+        [0, true],
+        [1, false],
+      ]);
+      expect(latest()).toEqual(expect.objectContaining({ committed: "one two", pending: "three" }));
+    });
+
+    it("should keep going when a window fails, holding on to what was heard of a complete one", async () => {
+      const { requests, transcribe, settle } = createBackend();
+      const transcriber = new LiveTranscriber(transcribe, (state) => states.push(state));
+
+      transcriber.push(pcmWindow(0, false));
+      requests[0].resolve("Hello");
+      await settle();
+
+      transcriber.push(pcmWindow(0, true));
+      requests[1].reject(new Error("Network Error"));
+      await settle();
+
+      transcriber.push(pcmWindow(1, false));
+      requests[2].resolve("again");
+      await settle();
+
+      expect(latest()).toEqual(expect.objectContaining({ committed: "Hello", pending: "again" }));
+      expect(console.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should replace the provisional text once every saved file is transcribed", async () => {
+      const { requests, transcribe, settle } = createBackend();
+      const transcriber = new LiveTranscriber(transcribe, (state) => states.push(state));
+
+      transcriber.push(pcmWindow(0, false));
+      requests[0].resolve("provisional");
+      await settle();
+
+      // A split recording; the first part finishes transcribing before the recording does.
+      transcriber.addFile("part-1");
+      expect(transcriber.complete("part-1", "First part.")).toBe(true);
+
+      transcriber.addFile("part-2");
+      transcriber.finish();
+      expect(latest()).toEqual(expect.objectContaining({ status: "finalizing", final: null }));
+
+      expect(transcriber.complete("other", "Another recording.")).toBe(false);
+      transcriber.complete("part-2", " Second part. ");
+
+      expect(latest()).toEqual(
+        expect.objectContaining({ status: "final", final: "First part.\n\nSecond part.", committed: "" }),
+      );
+    });
+
+    it("should stop taking windows once the recording has finished", () => {
+      const { transcribe } = createBackend();
+      const transcriber = new LiveTranscriber(transcribe, (state) => states.push(state));
+
+      transcriber.finish();
+      transcriber.push(pcmWindow(0, false));
+
+      expect(transcribe).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for laying out transcript notes with a template
+ */
+
+import { TRANSCRIPT_BLOCK_END, TRANSCRIPT_BLOCK_START } from "../../src/MarkdownProcessor/revisions";
+import {
+  DEFAULT_NOTE_TEMPLATE,
+  TemplateContext,
+  markSegmentsSections,
+  renderTemplate,
+} from "../../src/MarkdownProcessor/template";
+
+const context: TemplateContext = {
+  title: "TXC - 2024-03-09 Standup",
+  recorded_at: "2024-03-09 02:05",
+  duration: "1:35",
+  language: "en",
+  tags: "#transcribed #standup",
+  audio_embed: "![](./audio/Standup.wav)",
+  transcript: "Morning all. Let's start.",
+  segments: [
+    { start: "0:00", end: "0:02", text: "Morning all." },
+    { start: "0:02", end: "0:04", text: "Let's start." },
+  ],
+  category: "Work",
+  part: "",
+  previous_part: "",
+};
+
+describe("Note Template", () => {
+  describe("renderTemplate", () => {
+    it("should fill in placeholders", () => {
+      expect(renderTemplate("# {{title}} ({{duration}}, {{language}})", context)).toBe(
+        "# TXC - 2024-03-09 Standup (1:35, en)",
+      );
+    });
+
+    it("should repeat a section for every segment", () => {
+      expect(renderTemplate("{{#segments}}- [{{start}}] {{text}}\n{{/segments}}", context)).toBe(
+        "- [0:00] Morning all.\n- [0:02] Let's start.\n",
+      );
+    });
+
+    it("should keep what's in scope inside a loop", () => {
+      expect(renderTemplate("{{#segments}}{{category}}: {{text}} {{/segments}}", context)).toBe(
+        "Work: Morning all. Work: Let's start. ",
+      );
+    });
+
+    it("should show a section for a value only when it is set", () => {
+      const template = "{{#category}}Category: {{category}}{{/category}}{{#part}}Part {{part}}{{/part}}";
+
+      expect(renderTemplate(template, context)).toBe("Category: Work");
+    });
+
+    it("should leave placeholders it doesn't know alone", () => {
+      expect(renderTemplate("{{date}} · {{title}}", context)).toBe("{{date}} · TXC - 2024-03-09 Standup");
+    });
+
+    it("should not fill in placeholders found in the transcript", () => {
+      expect(renderTemplate("{{transcript}}", { ...context, transcript: "Say {{title}}" })).toBe("Say {{title}}");
+    });
+
+    it("should lay out the built-in template as notes always have been", () => {
+      expect(renderTemplate(DEFAULT_NOTE_TEMPLATE, context)).toBe(
+        "\n# TXC - 2024-03-09 Standup\n\n#transcribed #standup\n\n![](./audio/Standup.wav)\n\nMorning all. Let's start.\n",
+      );
+    });
+
+    it("should link a later part of a series back to the part before", () => {
+      const part = { ...context, tags: "", part: 2, previous_part: "TXC - 2024-03-09 Standup Part 1" };
+
+      expect(renderTemplate(DEFAULT_NOTE_TEMPLATE, part)).toContain(
+        "![](./audio/Standup.wav)\n\nPart 2, continued from [[TXC - 2024-03-09 Standup Part 1]]\n\nMorning all.",
+      );
+    });
+  });
+
+  describe("markSegmentsSections", () => {
+    it("should mark out a segments loop as the transcript", () => {
+      expect(markSegmentsSections("# {{title}}\n\n{{#segments}}{{text}}\n{{/segments}}")).toBe(
+        `# {{title}}\n\n${TRANSCRIPT_BLOCK_START}\n{{#segments}}{{text}}\n{{/segments}}\n${TRANSCRIPT_BLOCK_END}`,
+      );
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for grouping whisper's segments into paragraphs
+ */
+
+import { buildParagraphs, getPause } from "../../src/MarkdownProcessor/paragraphs";
+import { TranscriptionSegment, TranscriptionWord } from "../../src/types";
+
+const word = (text: string, start: number, end: number): TranscriptionWord => ({
+  word: text,
+  start,
+  end,
+  t_dtw: -1,
+  probability: 0.9,
+});
+
+const segment = (
+  id: number,
+  start: number,
+  end: number,
+  text: string,
+  words?: TranscriptionWord[],
+): TranscriptionSegment => ({
+  id,
+  start,
+  end,
+  text,
+  tokens: [],
+  temperature: 0,
+  avg_logprob: -0.25,
+  no_speech_prob: 0.02,
+  words,
+});
+
+/**
+ * As whisper.cpp returns a short voice memo: each segment ends where the next one starts,
+ * so the pauses only show in the word timings.
+ */
+const voiceMemo = [
+  segment(0, 0, 3.2, " Okay, quick note about the garden.", [
+    word("Okay,", 0.3, 0.7),
+    word("quick", 0.8, 1.1),
+    word("note", 1.1, 1.4),
+    word("about", 1.4, 1.7),
+    word("the", 1.7, 1.8),
+    word("garden.", 1.8, 2.3),
+  ]),
+  segment(1, 3.2, 6.4, " The tomatoes need staking this weekend.", [
+    word("The", 3.3, 3.4),
+    word("tomatoes", 3.4, 3.9),
+    word("need", 3.9, 4.1),
+    word("staking", 4.1, 4.6),
+    word("this", 4.6, 4.8),
+    word("weekend.", 4.8, 5.3),
+  ]),
+  segment(2, 6.4, 10.0, " Did I order more mulch?", [
+    word("Did", 7.9, 8.0),
+    word("I", 8.0, 8.1),
+    word("order", 8.1, 8.4),
+    word("more", 8.4, 8.6),
+    word("mulch?", 8.6, 9.1),
+  ]),
+  segment(3, 10.0, 12.0, " I think so!", [word("I", 10.1, 10.2), word("think", 10.2, 10.5), word("so!", 10.5, 10.9)]),
+];
+
+const paragraphTexts = (paragraphs: TranscriptionSegment[][]) =>
+  paragraphs.map((paragraph) => paragraph.map((segment) => segment.text.trim()).join(" "));
+
+const options = { pauseSeconds: 1.5, targetWords: 80 };
+
+describe("Paragraphs", () => {
+  describe("buildParagraphs", () => {
+    it("should break at a pause between sentences, measured between the spoken words", () => {
+      expect(paragraphTexts(buildParagraphs(voiceMemo, options))).toEqual([
+        "Okay, quick note about the garden. The tomatoes need staking this weekend.",
+        "Did I order more mulch? I think so!",
+      ]);
+    });
+
+    it("should break after a question or an exclamation", () => {
+      const segments = [
+        segment(0, 0, 2, " Are you recording?"),
+        segment(1, 4, 6, " Yes!"),
+        segment(2, 8, 10, " Good."),
+      ];
+
+      expect(buildParagraphs(segments, options)).toHaveLength(3);
+    });
+
+    it("should break after a sentence ending in a quote", () => {
+      const segments = [segment(0, 0, 2, ' She said "not today."'), segment(1, 4, 6, " Fine.")];
+
+      expect(buildParagraphs(segments, options)).toHaveLength(2);
+    });
+
+    it("should not break at a short pause mid-sentence", () => {
+      const segments = [segment(0, 0, 2, " So what I was thinking"), segment(1, 4, 6, " was that we could go.")];
+
+      expect(buildParagraphs(segments, options)).toHaveLength(1);
+    });
+
+    it("should break at a long pause, even mid-sentence", () => {
+      const segments = [segment(0, 0, 2, " So what I was thinking"), segment(1, 5, 7, " never mind.")];
+
+      expect(buildParagraphs(segments, options)).toHaveLength(2);
+    });
+
+    it("should end a long paragraph at the next sentence end", () => {
+      const segments = [
+        segment(0, 0, 2, " One two three four"),
+        segment(1, 2, 4, " five six."),
+        segment(2, 4, 6, " Seven eight."),
+        segment(3, 6, 8, " Nine."),
+      ];
+
+      expect(paragraphTexts(buildParagraphs(segments, { ...options, targetWords: 4 }))).toEqual([
+        "One two three four five six.",
+        "Seven eight. Nine.",
+      ]);
+    });
+
+    it("should break a paragraph which runs on to twice the length without punctuation", () => {
+      const segments = [
+        segment(0, 0, 2, " one two three"),
+        segment(1, 2, 4, " four five"),
+        segment(2, 4, 6, " six seven"),
+        segment(3, 6, 8, " eight"),
+      ];
+
+      expect(paragraphTexts(buildParagraphs(segments, { ...options, targetWords: 2 }))).toEqual([
+        "one two three four five",
+        "six seven eight",
+      ]);
+    });
+
+    it("should keep every segment, in order", () => {
+      expect(buildParagraphs(voiceMemo, options).flat()).toEqual(voiceMemo);
+    });
+
+    it("should return no paragraphs for no segments", () => {
+      expect(buildParagraphs([], options)).toEqual([]);
+    });
+  });
+
+  describe("getPause", () => {
+    it("should measure between the words when there are word timings", () => {
+      expect(getPause(voiceMemo[1], voiceMemo[2])).toBeCloseTo(2.6, 5);
+    });
+
+    it("should measure between the segments without word timings", () => {
+      expect(getPause(segment(0, 0, 2, " Hi."), segment(1, 3.5, 5, " There."))).toBe(1.5);
+    });
+
+    it("should never be negative where overlapping chunks were stitched together", () => {
+      expect(getPause(segment(0, 0, 5, " Hi."), segment(1, 4, 6, " There."))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for streaming recordings to disk and recovering them after a crash
+ */
+
+import { DataAdapter } from "obsidian";
+import { PartialRecordingStore } from "../../src/AudioRecorder/PartialRecordingStore";
+import { RecordingMarkerType } from "../../src/types";
+
+const DIRECTORY = ".obsidian/.vox-cache/recordings";
+
+/**
+ * An in-memory adapter; folders exist implicitly whenever a file lives inside them.
+ */
+const createAdapter = (files: Record<string, string | ArrayBuffer>) => {
+  const folders = new Set<string>();
+  const childrenOf = (directory: string) =>
+    [...Object.keys(files), ...folders].filter((path) => path.startsWith(`${directory}/`));
+
+  return {
+    exists: jest.fn(async (path: string) => path in files || folders.has(path) || childrenOf(path).length > 0),
+    mkdir: jest.fn(async (path: string) => {
+      folders.add(path);
+    }),
+    read: jest.fn(async (path: string) => files[path] as string),
+    write: jest.fn(async (path: string, data: string) => {
+      files[path] = data;
+    }),
+    readBinary: jest.fn(async (path: string) => files[path] as ArrayBuffer),
+    writeBinary: jest.fn(async (path: string, data: ArrayBuffer) => {
+      files[path] = data;
+    }),
+    list: jest.fn(async (directory: string) => {
+      const children = childrenOf(directory).map(
+        (path) => `${directory}/${path.slice(directory.length + 1).split("/")[0]}`,
+      );
+      const unique = [...new Set(children)];
+
+      return {
+        files: unique.filter((path) => path in files),
+        folders: unique.filter((path) => !(path in files)),
+      };
+    }),
+    rmdir: jest.fn(async (directory: string) => {
+      childrenOf(directory).forEach((path) => {
+        delete files[path];
+        folders.delete(path);
+      });
+      folders.delete(directory);
+    }),
+  } as unknown as DataAdapter;
+};
+
+const bytes = (...values: number[]) => new Blob([new Uint8Array(values)]);
+
+describe("Partial Recording Store", () => {
+  let files: Record<string, string | ArrayBuffer>;
+  let store: PartialRecordingStore;
+
+  beforeEach(() => {
+    files = {};
+    store = new PartialRecordingStore(createAdapter(files), DIRECTORY);
+  });
+
+  it("should write each slice as its own part", async () => {
+    await store.begin("abc", { startedAt: 1_700_000_000_000, mimeType: "audio/webm;codecs=opus" });
+    store.appendPart("abc", 0, bytes(1, 2));
+    store.appendPart("abc", 1, bytes(3));
+    await store.flush();
+
+    expect(Object.keys(files).sort()).toEqual([
+      `${DIRECTORY}/abc/00000.part`,
+      `${DIRECTORY}/abc/00001.part`,
+      `${DIRECTORY}/abc/recording.json`,
+    ]);
+  });
+
+  it("should find recordings left behind and join their parts in order", async () => {
+    await store.begin("abc", { startedAt: 1_700_000_000_000, mimeType: "audio/webm;codecs=opus" });
+    // Parts are written in order, but may be listed in any order.
+    store.appendPart("abc", 10, bytes(3));
+    store.appendPart("abc", 9, bytes(1, 2));
+    await store.flush();
+
+    const [recording, ...others] = await store.list();
+    const joined = new Uint8Array(await store.read(recording));
+
+    expect(others).toHaveLength(0);
+    expect(recording.id).toBe("abc");
+    expect(recording.startedAt).toBe(1_700_000_000_000);
+    expect(Array.from(joined)).toEqual([1, 2, 3]);
+  });
+
+  it("should recover the markers dropped while recording", async () => {
+    const markers = [{ time: 12.5, type: RecordingMarkerType.IMPORTANT }];
+
+    await store.begin("abc", { startedAt: 1_000, mimeType: "" });
+    store.appendPart("abc", 0, bytes(1));
+    await store.saveMarkers("abc", markers);
+
+    const [recording] = await store.list();
+
+    expect(recording.markers).toEqual(markers);
+  });
+
+  it("should list a recording without markers as having none", async () => {
+    await store.begin("abc", { startedAt: 1_000, mimeType: "" });
+    await store.appendPart("abc", 0, bytes(1));
+
+    const [recording] = await store.list();
+
+    expect(recording.markers).toEqual([]);
+  });
+
+  it("should list the oldest recording first", async () => {
+    await store.begin("newer", { startedAt: 2_000, mimeType: "" });
+    await store.begin("older", { startedAt: 1_000, mimeType: "" });
+    await store.appendPart("newer", 0, bytes(1));
+    await store.appendPart("older", 0, bytes(1));
+
+    expect((await store.list()).map((recording) => recording.id)).toEqual(["older", "newer"]);
+  });
+
+  it("should clear away recordings which captured nothing", async () => {
+    await store.begin("empty", { startedAt: 1_000, mimeType: "" });
+
+    expect(await store.list()).toEqual([]);
+    expect(files).toEqual({});
+  });
+
+  it("should still recover a recording whose manifest was lost", async () => {
+    await store.appendPart("abc", 0, bytes(1));
+
+    const [recording] = await store.list();
+
+    expect(recording.id).toBe("abc");
+    expect(recording.startedAt).toEqual(expect.any(Number));
+  });
+
+  it("should remove a recording once it has been saved", async () => {
+    await store.begin("abc", { startedAt: 1_000, mimeType: "" });
+    store.appendPart("abc", 0, bytes(1));
+
+    // Removal waits for pending writes, so a late part can't bring the recording back.
+    await store.remove("abc");
+
+    expect(files).toEqual({});
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the persistent transcription queue journal
+ */
+
+import { DataAdapter } from "obsidian";
+import { QueueJournal, deserializeStatusMap, serializeStatusMap } from "../../src/TranscriptionProcessor/QueueJournal";
+import { VoxStatusItem, VoxStatusItemStatus, VoxStatusMap } from "../../src/types";
+
+const createItem = (hash: string, overrides: Partial<VoxStatusItem> = {}): VoxStatusItem => ({
+  hash,
+  details: {
+    name: `memo-${hash}`,
+    filename: `memo-${hash}.m4a`,
+    extension: ".m4a",
+    directory: "Voice/unprocessed/",
+    filepath: `Voice/unprocessed/memo-${hash}.m4a`,
+  },
+  status: VoxStatusItemStatus.QUEUED,
+  addedAt: new Date("2024-01-01T10:00:00.000Z"),
+  finalizedAt: null,
+  retryCount: 0,
+  lastRetryAt: null,
+  lastError: null,
+  progress: null,
+  chunk: null,
+  ...overrides,
+});
+
+describe("Queue Journal", () => {
+  describe("serializeStatusMap", () => {
+    it("should store dates as ISO strings", () => {
+      const items: VoxStatusMap = {
+        abc: createItem("abc", { lastRetryAt: new Date("2024-01-01T10:05:00.000Z"), retryCount: 1 }),
+      };
+
+      const data = serializeStatusMap(items);
+
+      expect(data.version).toBe(1);
+      expect(data.items[0].addedAt).toBe("2024-01-01T10:00:00.000Z");
+      expect(data.items[0].lastRetryAt).toBe("2024-01-01T10:05:00.000Z");
+      expect(data.items[0].retryCount).toBe(1);
+    });
+
+    it("should not journal completed items", () => {
+      const items: VoxStatusMap = {
+        done: createItem("done", { status: VoxStatusItemStatus.COMPLETE }),
+        failed: createItem("failed", { status: VoxStatusItemStatus.FAILED }),
+      };
+
+      const data = serializeStatusMap(items);
+
+      expect(data.items.map((item) => item.hash)).toEqual(["failed"]);
+    });
+  });
+
+  describe("deserializeStatusMap", () => {
+    it("should round-trip failed items with their retry state", () => {
+      const failedAt = new Date("2024-01-01T11:00:00.000Z");
+      const items: VoxStatusMap = {
+        abc: createItem("abc", {
+          status: VoxStatusItemStatus.FAILED,
+          retryCount: 3,
+          lastRetryAt: failedAt,
+          finalizedAt: failedAt,
+          lastError: "Request failed with status code 500",
+        }),
+      };
+
+      const restored = deserializeStatusMap(JSON.parse(JSON.stringify(serializeStatusMap(items))));
+
+      expect(restored.abc.status).toBe(VoxStatusItemStatus.FAILED);
+      expect(restored.abc.retryCount).toBe(3);
+      expect(restored.abc.lastRetryAt).toEqual(failedAt);
+      expect(restored.abc.finalizedAt).toEqual(failedAt);
+      expect(restored.abc.lastError).toBe("Request failed with status code 500");
+    });
+
+    it("should move interrupted items back into the queue", () => {
+      const items: VoxStatusMap = {
+        a: createItem("a", { status: VoxStatusItemStatus.PROCESSING_AUDIO }),
+        b: createItem("b", { status: VoxStatusItemStatus.TRANSCRIBING }),
+      };
+
+      const restored = deserializeStatusMap(serializeStatusMap(items));
+
+      expect(restored.a.status).toBe(VoxStatusItemStatus.QUEUED);
+      expect(restored.b.status).toBe(VoxStatusItemStatus.QUEUED);
+    });
+
+    it("should ignore missing, malformed or unknown journal versions", () => {
+      expect(deserializeStatusMap(null)).toEqual({});
+      expect(deserializeStatusMap({ version: 99, items: [] })).toEqual({});
+      expect(deserializeStatusMap({ version: 1 })).toEqual({});
+    });
+  });
+
+  describe("QueueJournal", () => {
+    let files: Record<string, string>;
+    let mockAdapter: DataAdapter;
+
+    beforeEach(() => {
+      files = {};
+      mockAdapter = {
+        exists: jest.fn(async (path: string) => path in files),
+        read: jest.fn(async (path: string) => files[path]),
+        write: jest.fn(async (path: string, data: string) => {
+          files[path] = data;
+        }),
+      } as unknown as DataAdapter;
+    });
+
+    it("should return an empty map when no journal exists", async () => {
+      const journal = new QueueJournal(mockAdapter, ".obsidian/plugins/vox/queue.json");
+
+      expect(await journal.load()).toEqual({});
+    });
+
+    it("should persist and reload items", async () => {
+      const journal = new QueueJournal(mockAdapter, ".obsidian/plugins/vox/queue.json");
+
+      await journal.save({ abc: createItem("abc", { status: VoxStatusItemStatus.FAILED, retryCount: 3 }) });
+      const restored = await journal.load();
+
+      expect(restored.abc.retryCount).toBe(3);
+      expect(restored.abc.status).toBe(VoxStatusItemStatus.FAILED);
+    });
+
+    it("should return an empty map when the journal is corrupt", async () => {
+      files[".obsidian/plugins/vox/queue.json"] = "{ not json";
+      const journal = new QueueJournal(mockAdapter, ".obsidian/plugins/vox/queue.json");
+
+      expect(await journal.load()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { DateTime } from "luxon";
+import { DataAdapter } from "obsidian";
+import { Settings } from "settings";
+import { categorizeVoiceMemo } from "../../src/utils/categorize";
+import { extractFileDetail } from "../../src/utils/format";
+import {
+  buildRecordingFilename,
+  parseRecordingSeriesPart,
+  readSeriesSidecar,
+  writeSeriesSidecar,
+} from "../../src/utils/recording";
+
+const settings = {
+  categoryMap: {
+    LN: "Life Note",
+    IN: "Insight",
+  },
+} as unknown as Settings;
+
+const recordedAt = DateTime.fromObject({ year: 2024, month: 3, day: 9, hour: 14, minute: 5, second: 7 });
+
+describe("Recording Filenames", () => {
+  it("should prefix the importance and category, and end with the timestamp", () => {
+    const filename = buildRecordingFilename(
+      { title: "Big fish", categoryKey: "LN", importance: 4 },
+      settings,
+      recordedAt,
+    );
+
+    expect(filename).toBe("R4LN Big fish 20240309-140507");
+  });
+
+  it("should be categorised like a hand-named voice memo", () => {
+    const filename = buildRecordingFilename(
+      { title: "Big fish", categoryKey: "IN", importance: 2 },
+      settings,
+      recordedAt,
+    );
+    const categorization = categorizeVoiceMemo(filename, settings);
+
+    expect(categorization.importance).toBe(2);
+    expect(categorization.category?.display).toBe("Insight");
+  });
+
+  it("should leave out the prefix without a known category", () => {
+    expect(buildRecordingFilename({ title: "Idea", categoryKey: null, importance: 5 }, settings, recordedAt)).toBe(
+      "Idea 20240309-140507",
+    );
+    expect(buildRecordingFilename({ title: "Idea", categoryKey: "XX", importance: 5 }, settings, recordedAt)).toBe(
+      "Idea 20240309-140507",
+    );
+  });
+
+  it("should fall back to the timestamp alone without a title", () => {
+    expect(buildRecordingFilename({ title: "  ", categoryKey: "LN", importance: 1 }, settings, recordedAt)).toBe(
+      "R1LN 20240309-140507",
+    );
+  });
+
+  it("should strip characters which aren't allowed in filenames", () => {
+    const filename = buildRecordingFilename(
+      { title: 'What: is a #tag / "quote"?', categoryKey: null, importance: 1 },
+      settings,
+      recordedAt,
+    );
+
+    expect(filename).toBe("What is a tag quote 20240309-140507");
+  });
+
+  describe("Split Recordings", () => {
+    it("should number each part after the shared timestamp", () => {
+      const details = { title: "Meeting", categoryKey: "LN", importance: 3 } as const;
+
+      expect(buildRecordingFilename(details, settings, recordedAt, 1)).toBe("R3LN Meeting 20240309-140507 part 1");
+      expect(buildRecordingFilename(details, settings, recordedAt, 12)).toBe("R3LN Meeting 20240309-140507 part 12");
+    });
+
+    it("should recognise the series and part from a filename", () => {
+      expect(parseRecordingSeriesPart("R3LN Meeting 20240309-140507 part 2")).toEqual({
+        series: "R3LN Meeting 20240309-140507",
+        part: 2,
+      });
+    });
+
+    it("should not treat other filenames as parts", () => {
+      expect(parseRecordingSeriesPart("R3LN Meeting 20240309-140507")).toBeNull();
+      expect(parseRecordingSeriesPart("part 2")).toBeNull();
+      expect(parseRecordingSeriesPart("Spare part two")).toBeNull();
+    });
+
+    it("should remember where the part before was saved", async () => {
+      const files: Record<string, string> = {};
+      const adapter = {
+        exists: async (path: string) => path in files,
+        read: async (path: string) => files[path],
+        write: async (path: string, data: string) => void (files[path] = data),
+      } as unknown as DataAdapter;
+      const part = extractFileDetail("Voice/unprocessed/R3LN Meeting 20240309-140507 part 2.webm");
+
+      await expect(readSeriesSidecar(adapter, part)).resolves.toBeNull();
+
+      await writeSeriesSidecar(adapter, part, "Voice/unprocessed/R3LN Meeting 20240309-140507 part 1.webm");
+
+      expect(Object.keys(files)).toEqual(["Voice/unprocessed/R3LN Meeting 20240309-140507 part 2.series.json"]);
+      await expect(readSeriesSidecar(adapter, part)).resolves.toBe(
+        "Voice/unprocessed/R3LN Meeting 20240309-140507 part 1.webm",
+      );
+    });
+  });
+});
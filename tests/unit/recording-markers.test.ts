@@ -0,0 +1,124 @@
+/**
+ * Unit tests for markers dropped while recording, and how they're called out in the transcript
+ */
+
+import { DataAdapter } from "obsidian";
+import { formatMarkerCallout, placeMarkers } from "../../src/MarkdownProcessor/markers";
+import { RecordingMarker, RecordingMarkerType, TranscriptionSegment } from "../../src/types";
+import { extractFileDetail, formatTimestamp } from "../../src/utils/format";
+import { getMarkerSidecarPath, readMarkerSidecar, writeMarkerSidecar } from "../../src/utils/markers";
+
+const segment = (start: number, end: number): TranscriptionSegment =>
+  ({ id: start, start, end, text: ` ${start}-${end}` }) as TranscriptionSegment;
+
+const createAdapter = (files: Record<string, string>) =>
+  ({
+    exists: jest.fn(async (path: string) => path in files),
+    read: jest.fn(async (path: string) => files[path]),
+    write: jest.fn(async (path: string, data: string) => {
+      files[path] = data;
+    }),
+  }) as unknown as DataAdapter;
+
+describe("Recording Markers", () => {
+  describe("placeMarkers", () => {
+    const segments = [segment(0, 4), segment(4, 9), segment(9, 15)];
+
+    it("should place a marker before the segment boundary nearest to it", () => {
+      const marker = { time: 8, type: RecordingMarkerType.IMPORTANT };
+
+      expect(placeMarkers(segments, [marker])).toEqual(new Map([[2, [marker]]]));
+    });
+
+    it("should place a marker after the last segment when it was dropped at the end", () => {
+      const marker = { time: 14, type: RecordingMarkerType.NOTE };
+
+      expect(placeMarkers(segments, [marker])).toEqual(new Map([[3, [marker]]]));
+    });
+
+    it("should keep markers at the same boundary in the order they were dropped", () => {
+      const first = { time: 3.5, type: RecordingMarkerType.IMPORTANT };
+      const second = { time: 4.5, type: RecordingMarkerType.ACTION_ITEM };
+
+      expect(placeMarkers(segments, [first, second]).get(1)).toEqual([first, second]);
+    });
+
+    it("should place markers at the start of a transcript without segments", () => {
+      const marker = { time: 30, type: RecordingMarkerType.NOTE };
+
+      expect(placeMarkers([], [marker])).toEqual(new Map([[0, [marker]]]));
+    });
+
+    it("should place nothing without markers", () => {
+      expect(placeMarkers(segments, []).size).toBe(0);
+    });
+  });
+
+  describe("formatMarkerCallout", () => {
+    it.each([
+      [RecordingMarkerType.IMPORTANT, "> [!important] Important · 1:35"],
+      [RecordingMarkerType.ACTION_ITEM, "> [!todo] Action item · 1:35"],
+      [RecordingMarkerType.NOTE, "> [!note] Note · 1:35"],
+    ])("should call out a %s marker", (type, expected) => {
+      expect(formatMarkerCallout({ time: 95, type })).toBe(expected);
+    });
+
+    it("should quote the marker's text inside the callout", () => {
+      const marker = { time: 95, type: RecordingMarkerType.ACTION_ITEM, text: "Email Sam\n\nabout the budget " };
+
+      expect(formatMarkerCallout(marker)).toBe("> [!todo] Action item · 1:35\n> Email Sam\n> about the budget");
+    });
+  });
+
+  describe("formatTimestamp", () => {
+    it.each([
+      [0, "0:00"],
+      [9.9, "0:09"],
+      [95, "1:35"],
+      [3725, "1:02:05"],
+    ])("should format %p seconds as %p", (seconds, expected) => {
+      expect(formatTimestamp(seconds)).toBe(expected);
+    });
+  });
+
+  describe("sidecar", () => {
+    const audioFile = extractFileDetail("Voice/unprocessed/Meeting 20240309-140507.webm");
+
+    it("should sit next to the audio", () => {
+      expect(getMarkerSidecarPath(audioFile)).toBe("Voice/unprocessed/Meeting 20240309-140507.markers.json");
+    });
+
+    it("should read back the markers written, in time order", async () => {
+      const adapter = createAdapter({});
+      const markers: RecordingMarker[] = [
+        { time: 40, type: RecordingMarkerType.NOTE, text: "Budget" },
+        { time: 12, type: RecordingMarkerType.IMPORTANT },
+      ];
+
+      await writeMarkerSidecar(adapter, audioFile, markers);
+
+      expect(await readMarkerSidecar(adapter, audioFile)).toEqual([markers[1], markers[0]]);
+    });
+
+    it("should read no markers when the audio has no sidecar", async () => {
+      expect(await readMarkerSidecar(createAdapter({}), audioFile)).toEqual([]);
+    });
+
+    it("should skip markers it doesn't recognise", async () => {
+      const adapter = createAdapter({
+        [getMarkerSidecarPath(audioFile)]: JSON.stringify({
+          version: 1,
+          markers: [{ time: 5, type: "important" }, { time: 6, type: "unknown" }, { type: "note" }],
+        }),
+      });
+
+      expect(await readMarkerSidecar(adapter, audioFile)).toEqual([{ time: 5, type: RecordingMarkerType.IMPORTANT }]);
+    });
+
+    it("should read no markers from a corrupt sidecar", async () => {
+      const adapter = createAdapter({ [getMarkerSidecarPath(audioFile)]: "{ not json" });
+
+      expect(await readMarkerSidecar(adapter, audioFile)).toEqual([]);
+    });
+  });
+});
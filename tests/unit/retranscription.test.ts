@@ -0,0 +1,123 @@
+/**
+ * Unit tests for re-transcribing a note while keeping the user's edits
+ */
+
+import matter from "gray-matter";
+import {
+  TRANSCRIPT_BLOCK_END,
+  TRANSCRIPT_BLOCK_START,
+  formatRevision,
+  mergeRetranscription,
+  wrapTranscript,
+} from "../../src/MarkdownProcessor/revisions";
+
+const note = (frontmatter: Record<string, unknown>, content: string) => matter.stringify(content, frontmatter);
+
+const generated = note(
+  { title: "TXC - 2024-03-09 Standup", transcribed_at: "2024-03-10 09:00", transcribed_vox_version: "0.9.0" },
+  `\n# TXC - 2024-03-09 Standup\n\n![](./audio/Standup.wav)\n\n${wrapTranscript("The new transcript.")}\n`,
+);
+
+describe("Re-transcription", () => {
+  describe("wrapTranscript", () => {
+    it("should mark out the transcript with hidden comments", () => {
+      expect(wrapTranscript(" Hello there. \n\n")).toBe(
+        `${TRANSCRIPT_BLOCK_START}\nHello there.\n${TRANSCRIPT_BLOCK_END}`,
+      );
+    });
+  });
+
+  describe("formatRevision", () => {
+    it("should keep the transcript in a collapsed callout", () => {
+      expect(formatRevision("First paragraph.\n\nSecond paragraph.", "2024-03-09 02:05")).toBe(
+        "> [!quote]- Previous transcript · 2024-03-09 02:05\n> First paragraph.\n>\n> Second paragraph.",
+      );
+    });
+
+    it("should leave out an unknown transcription time", () => {
+      expect(formatRevision("Hello.", null)).toBe("> [!quote]- Previous transcript\n> Hello.");
+    });
+  });
+
+  describe("mergeRetranscription", () => {
+    const existing = note(
+      { title: "TXC - 2024-03-09 Standup", transcribed_at: "2024-03-09 02:05", project: "Apollo" },
+      [
+        "\n# TXC - 2024-03-09 Standup\n",
+        "My summary, written by hand.\n",
+        "![](./audio/Standup.wav)\n",
+        wrapTranscript("The old transcript."),
+        "\n## Follow-ups\n\n- Ask about the budget\n",
+      ].join("\n"),
+    );
+
+    it("should replace the transcript and keep everything around it", () => {
+      const { content } = matter(mergeRetranscription(existing, generated), {});
+
+      expect(content).toContain(wrapTranscript("The new transcript."));
+      expect(content).not.toContain(`${TRANSCRIPT_BLOCK_START}\nThe old transcript.`);
+      expect(content).toContain("My summary, written by hand.");
+      expect(content).toContain("## Follow-ups\n\n- Ask about the budget");
+    });
+
+    it("should keep the old transcript as a revision below the new one", () => {
+      const { content } = matter(mergeRetranscription(existing, generated), {});
+
+      expect(content).toContain(
+        `${TRANSCRIPT_BLOCK_END}\n\n> [!quote]- Previous transcript · 2024-03-09 02:05\n> The old transcript.\n\n## Follow-ups`,
+      );
+    });
+
+    it("should update the frontmatter written by VOX and keep the rest", () => {
+      const { data } = matter(mergeRetranscription(existing, generated), {});
+
+      expect(data).toEqual({
+        title: "TXC - 2024-03-09 Standup",
+        transcribed_at: "2024-03-10 09:00",
+        transcribed_vox_version: "0.9.0",
+        project: "Apollo",
+      });
+    });
+
+    it("should list revisions newest first", () => {
+      const once = mergeRetranscription(existing, generated);
+      const twice = mergeRetranscription(once, generated.replace("The new transcript.", "The newest transcript."));
+      const { content } = matter(twice, {});
+
+      expect(content.indexOf("· 2024-03-10 09:00\n> The new transcript.")).toBeGreaterThan(-1);
+      expect(content.indexOf("· 2024-03-10 09:00")).toBeLessThan(content.indexOf("· 2024-03-09 02:05"));
+      expect(content).toContain(wrapTranscript("The newest transcript."));
+    });
+
+    it("should leave out the revision when only the layout has changed", () => {
+      const { content } = matter(mergeRetranscription(existing, generated, false), {});
+
+      expect(content).toContain(`${wrapTranscript("The new transcript.")}\n\n## Follow-ups`);
+      expect(content).not.toContain("Previous transcript");
+    });
+
+    it("should rebuild a note from before the transcript was marked out, keeping the old transcript", () => {
+      const legacy = note(
+        { title: "TXC - 2024-03-09 Standup", transcribed_at: "2024-03-09 02:05" },
+        "\n# TXC - 2024-03-09 Standup\n\n![](./audio/Standup.wav)\n\nThe old transcript.\n",
+      );
+      const { content } = matter(mergeRetranscription(legacy, generated), {});
+
+      expect(content).toContain(
+        `${wrapTranscript("The new transcript.")}\n\n> [!quote]- Previous transcript · 2024-03-09 02:05\n> The old transcript.`,
+      );
+      expect(content.match(/!\[\]\(\.\/audio\/Standup\.wav\)/g)).toHaveLength(1);
+    });
+
+    it("should only update the frontmatter when the template has no transcript", () => {
+      const withoutTranscript = note(
+        { title: "TXC - 2024-03-09 Standup", transcribed_at: "2024-03-10 09:00" },
+        "\n# TXC - 2024-03-09 Standup\n\nRecorded on 2024-03-09.\n",
+      );
+      const { data, content } = matter(mergeRetranscription(existing, withoutTranscript), {});
+
+      expect(content).toBe(matter(existing, {}).content);
+      expect(data).toEqual(expect.objectContaining({ transcribed_at: "2024-03-10 09:00", project: "Apollo" }));
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for silence trimming and mapping timestamps back onto the original audio
+ */
+
+import { restoreOriginalTimestamps, toOriginalTime, trimSilence } from "../../src/AudioProcessor/silence";
+import { DecodedAudio, TranscriptionResponse } from "../../src/types";
+
+const SAMPLE_RATE = 16000;
+const OPTIONS = { thresholdDb: -45, minSilenceSeconds: 2, paddingSeconds: 0.5 };
+
+const tone = (seconds: number) =>
+  Float32Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => 0.3 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE));
+
+const silence = (seconds: number) => new Float32Array(seconds * SAMPLE_RATE);
+
+/** Join tones and silences into one mono recording */
+const recording = (...parts: Float32Array[]): DecodedAudio => {
+  const samples = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (samples.set(part, offset), offset + part.length), 0);
+
+  return { sampleRate: SAMPLE_RATE, channelData: [samples] };
+};
+
+const duration = (audio: DecodedAudio) => audio.channelData[0].length / audio.sampleRate;
+
+describe("Silence Trimming", () => {
+  describe("trimSilence", () => {
+    it("should compress a long pause down to its padding", () => {
+      const result = trimSilence(recording(tone(3), silence(10), tone(3)), OPTIONS);
+
+      expect(result).not.toBeNull();
+      expect(duration(result!.audio)).toBeCloseTo(7, 1);
+      expect(result!.timeMap).toHaveLength(2);
+    });
+
+    it("should remove leading and trailing silence entirely, apart from padding", () => {
+      const result = trimSilence(recording(silence(5), tone(2), silence(5)), OPTIONS);
+
+      expect(duration(result!.audio)).toBeCloseTo(3, 1);
+      expect(result!.timeMap[0].originalStart).toBeCloseTo(4.5, 1);
+    });
+
+    it("should leave short pauses alone", () => {
+      expect(trimSilence(recording(tone(2), silence(1), tone(2)), OPTIONS)).toBeNull();
+    });
+
+    it("should leave recordings of nothing but silence alone", () => {
+      expect(trimSilence(recording(silence(10)), OPTIONS)).toBeNull();
+    });
+
+    it("should respect the threshold", () => {
+      const quietTone = tone(10).map((sample) => sample / 100); // roughly -53 dBFS
+
+      expect(trimSilence(recording(tone(2), quietTone, tone(2)), OPTIONS)).not.toBeNull();
+      expect(trimSilence(recording(tone(2), quietTone, tone(2)), { ...OPTIONS, thresholdDb: -60 })).toBeNull();
+    });
+  });
+
+  describe("toOriginalTime", () => {
+    const { timeMap } = trimSilence(recording(tone(3), silence(10), tone(3)), OPTIONS)!;
+
+    it("should leave times before the first cut unchanged", () => {
+      expect(toOriginalTime(1, timeMap)).toBeCloseTo(1, 2);
+    });
+
+    it("should shift times after a cut by the removed silence", () => {
+      // The second tone starts 4s into the trimmed audio (3s tone + 2 x 0.5s padding) and 13s into the original.
+      expect(toOriginalTime(4.5, timeMap)).toBeCloseTo(13.5, 1);
+    });
+
+    it("should keep an end on a cut with the stretch before it, and a start with the stretch after it", () => {
+      const cut = timeMap[0].trimmedStart + timeMap[0].duration;
+
+      expect(toOriginalTime(cut, timeMap, true)).toBeCloseTo(timeMap[0].originalStart + timeMap[0].duration, 5);
+      expect(toOriginalTime(cut, timeMap)).toBeCloseTo(timeMap[1].originalStart, 5);
+    });
+
+    it("should clamp times beyond the end onto the last stretch", () => {
+      expect(toOriginalTime(7.5, timeMap)).toBeCloseTo(16.5, 1);
+    });
+  });
+
+  describe("restoreOriginalTimestamps", () => {
+    it("should map segment and word timestamps back onto the original audio", () => {
+      const { timeMap } = trimSilence(recording(tone(3), silence(10), tone(3)), OPTIONS)!;
+      const response: TranscriptionResponse = {
+        text: " First. Second.",
+        language: "en",
+        segments: [
+          { id: 0, start: 0, end: 3, text: " First.", tokens: [], temperature: 0, avg_logprob: 0, no_speech_prob: 0 },
+          {
+            id: 1,
+            start: 4,
+            end: 7,
+            text: " Second.",
+            tokens: [],
+            temperature: 0,
+            avg_logprob: 0,
+            no_speech_prob: 0,
+            words: [{ word: "Second.", start: 4, end: 7, t_dtw: -1, probability: 0.9 }],
+          },
+        ],
+      };
+
+      const restored = restoreOriginalTimestamps(response, timeMap, 16);
+
+      expect(restored.segments[0].start).toBeCloseTo(0, 2);
+      expect(restored.segments[1].start).toBeCloseTo(13, 1);
+      expect(restored.segments[1].end).toBeCloseTo(16, 1);
+      expect(restored.segments[1].words?.[0].start).toBeCloseTo(13, 1);
+      expect(restored.duration).toBe(16);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for exporting a transcript as SRT and WebVTT subtitles
+ */
+
+import { DataAdapter } from "obsidian";
+import { SubtitleFormat, TranscriptionSegment, TranscriptionWord } from "../../src/types";
+import { extractFileDetail } from "../../src/utils/format";
+import {
+  SubtitleOptions,
+  buildCues,
+  formatSrt,
+  formatVtt,
+  getSubtitlePath,
+  writeSubtitles,
+} from "../../src/utils/subtitles";
+
+const word = (text: string, start: number, end: number): TranscriptionWord => ({
+  word: text,
+  start,
+  end,
+  t_dtw: -1,
+  probability: 0.9,
+});
+
+const segment = (start: number, end: number, text: string, words?: TranscriptionWord[]): TranscriptionSegment => ({
+  id: start,
+  start,
+  end,
+  text,
+  tokens: [],
+  temperature: 0,
+  avg_logprob: -0.2,
+  no_speech_prob: 0.01,
+  words,
+});
+
+const options: SubtitleOptions = {
+  subtitleMaxLineLength: 42,
+  subtitleMaxCueSeconds: 7,
+  shouldTimeSubtitlesByWord: true,
+};
+
+describe("Subtitles", () => {
+  describe("buildCues", () => {
+    it("should make a cue of each short segment", () => {
+      const segments = [segment(0, 2.5, " Morning all."), segment(3, 5, " Let's start.")];
+
+      expect(buildCues(segments, options)).toEqual([
+        { start: 0, end: 2.5, lines: ["Morning all."] },
+        { start: 3, end: 5, lines: ["Let's start."] },
+      ]);
+    });
+
+    it("should wrap a cue over two lines no longer than the line length", () => {
+      const cues = buildCues([segment(0, 4, " The tomatoes need staking this weekend, and the beans.")], options);
+
+      expect(cues).toHaveLength(1);
+      expect(cues[0].lines).toEqual(["The tomatoes need staking this weekend,", "and the beans."]);
+    });
+
+    it("should split a segment too long for two lines", () => {
+      const text = " one two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen";
+      const cues = buildCues([segment(0, 6, text)], { ...options, subtitleMaxLineLength: 20 });
+
+      expect(cues.map((cue) => cue.lines)).toEqual([
+        ["one two three four", "five six seven eight"],
+        ["nine ten eleven", "twelve thirteen"],
+        ["fourteen fifteen", "sixteen"],
+      ]);
+      cues.forEach((cue) => cue.lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(20)));
+    });
+
+    it("should split a segment which runs longer than the cue duration", () => {
+      const cues = buildCues([segment(0, 12, " So what I was thinking was that we could go.")], {
+        ...options,
+        subtitleMaxCueSeconds: 5,
+      });
+
+      expect(cues.length).toBeGreaterThan(2);
+      cues.forEach((cue) => expect(cue.end - cue.start).toBeLessThanOrEqual(5));
+      expect(cues[cues.length - 1].end).toBe(12);
+    });
+
+    it("should time cues by their words, keeping the text's punctuation", () => {
+      // OpenAI-compatible servers leave the punctuation out of their words.
+      const words = [word("Did", 7.9, 8.0), word("I", 8.0, 8.1), word("order", 8.1, 8.4), word("mulch", 8.6, 9.1)];
+      const cues = buildCues([segment(6.4, 10, " Did I order mulch?", words)], {
+        ...options,
+        subtitleMaxCueSeconds: 0.5,
+      });
+
+      expect(cues).toEqual([
+        { start: 7.9, end: 8.4, lines: ["Did I order"] },
+        { start: 8.6, end: 9.1, lines: ["mulch?"] },
+      ]);
+    });
+
+    it("should share out the segment's time when not timing by word", () => {
+      const words = [word("Did", 7.9, 8.0), word("I", 8.0, 8.1)];
+      const cues = buildCues([segment(6, 10, " Did I", words)], { ...options, shouldTimeSubtitlesByWord: false });
+
+      expect(cues).toEqual([{ start: 6, end: 10, lines: ["Did I"] }]);
+    });
+
+    it("should never start a cue before the last one ends", () => {
+      const cues = buildCues([segment(0, 5, " Overlapping"), segment(4, 6, " chunks.")], options);
+
+      expect(cues[1].start).toBe(5);
+    });
+
+    it("should skip segments with nothing said", () => {
+      expect(buildCues([segment(0, 2, " "), segment(2, 4, "")], options)).toEqual([]);
+    });
+  });
+
+  describe("formats", () => {
+    const cues = [
+      { start: 1.5, end: 4, lines: ["Morning all."] },
+      { start: 3725.25, end: 3727, lines: ["The tomatoes need staking", "this weekend."] },
+    ];
+
+    it("should write SubRip", () => {
+      expect(formatSrt(cues)).toBe(
+        "1\n00:00:01,500 --> 00:00:04,000\nMorning all.\n\n" +
+          "2\n01:02:05,250 --> 01:02:07,000\nThe tomatoes need staking\nthis weekend.\n",
+      );
+    });
+
+    it("should write WebVTT", () => {
+      expect(formatVtt(cues)).toBe(
+        "WEBVTT\n\n00:00:01.500 --> 00:00:04.000\nMorning all.\n\n" +
+          "01:02:05.250 --> 01:02:07.000\nThe tomatoes need staking\nthis weekend.\n",
+      );
+    });
+  });
+
+  describe("writeSubtitles", () => {
+    it("should write each format next to the audio", async () => {
+      const files: Record<string, string> = {};
+      const adapter = {
+        write: jest.fn(async (path: string, data: string) => {
+          files[path] = data;
+        }),
+      } as unknown as DataAdapter;
+      const audioFile = extractFileDetail("Voice/audio/20240309-0905-standup.wav");
+
+      const written = await writeSubtitles(
+        adapter,
+        audioFile,
+        [segment(0, 2, " Morning all.")],
+        [SubtitleFormat.SRT, SubtitleFormat.VTT],
+        options,
+      );
+
+      expect(written).toEqual(["Voice/audio/20240309-0905-standup.srt", "Voice/audio/20240309-0905-standup.vtt"]);
+      expect(files[getSubtitlePath(audioFile, SubtitleFormat.SRT)]).toContain("00:00:00,000 --> 00:00:02,000");
+      expect(files[getSubtitlePath(audioFile, SubtitleFormat.VTT)]).toMatch(/^WEBVTT\n/);
+    });
+  });
+});
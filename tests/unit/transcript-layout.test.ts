@@ -0,0 +1,98 @@
+/**
+ * Unit tests for laying out the transcript, with or without timestamps which play the audio
+ */
+
+import { buildTranscript } from "../../src/MarkdownProcessor/transcript";
+import {
+  LowConfidenceStyle,
+  NoSpeechAction,
+  RecordingMarkerType,
+  TranscriptLayout,
+  TranscriptionSegment,
+} from "../../src/types";
+import { formatSeekTimestamp, parseSeekTimestamp } from "../../src/utils/timestamps";
+
+const segment = (start: number, end: number, text: string): TranscriptionSegment =>
+  ({ id: start, start, end, text: ` ${text}` }) as TranscriptionSegment;
+
+// A pause after the first sentence, then one paragraph.
+const segments = [
+  segment(0, 2, "Morning all."),
+  segment(4, 7, "Let's start with the roadmap"),
+  segment(7, 12, "and then the budget."),
+];
+
+const options = {
+  pauseSeconds: 1.5,
+  targetWords: 80,
+  lowConfidenceStyle: LowConfidenceStyle.NONE,
+  lowConfidenceThreshold: 0.5,
+  noSpeechAction: NoSpeechAction.KEEP,
+  noSpeechThreshold: 0.6,
+};
+
+describe("Transcript Layout", () => {
+  describe("buildTranscript", () => {
+    it("should lay out plain paragraphs", () => {
+      expect(buildTranscript(segments, [], { ...options, layout: TranscriptLayout.PLAIN })).toBe(
+        "Morning all.\n\nLet's start with the roadmap and then the budget.",
+      );
+    });
+
+    it("should start each paragraph with a timestamp", () => {
+      expect(buildTranscript(segments, [], { ...options, layout: TranscriptLayout.PARAGRAPH_TIMESTAMPS })).toBe(
+        "`@0:00` Morning all.\n\n`@0:04` Let's start with the roadmap and then the budget.",
+      );
+    });
+
+    it("should put each segment on a line of its own with a timestamp", () => {
+      expect(buildTranscript(segments, [], { ...options, layout: TranscriptLayout.SEGMENT_TIMESTAMPS })).toBe(
+        "`@0:00` Morning all.\n\n`@0:04` Let's start with the roadmap\n`@0:07` and then the budget.",
+      );
+    });
+
+    it("should call out markers between paragraphs", () => {
+      const marker = { time: 7, type: RecordingMarkerType.NOTE, text: "Budget" };
+
+      expect(buildTranscript(segments, [marker], { ...options, layout: TranscriptLayout.PARAGRAPH_TIMESTAMPS })).toBe(
+        "`@0:00` Morning all.\n\n`@0:04` Let's start with the roadmap\n\n> [!note] Note · 0:07\n> Budget\n\n" +
+          "`@0:07` and then the budget.",
+      );
+    });
+
+    it("should call out markers after the last segment", () => {
+      const marker = { time: 20, type: RecordingMarkerType.IMPORTANT };
+
+      expect(buildTranscript(segments, [marker], { ...options, layout: TranscriptLayout.PLAIN })).toMatch(
+        /the budget\.\n\n> \[!important\] Important · 0:20$/,
+      );
+    });
+
+    it("should skip segments with nothing said", () => {
+      const silent = [segment(0, 2, ""), segment(2, 5, "Hello.")];
+
+      expect(buildTranscript(silent, [], { ...options, layout: TranscriptLayout.SEGMENT_TIMESTAMPS })).toBe(
+        "`@0:02` Hello.",
+      );
+    });
+  });
+
+  describe("timestamps", () => {
+    it("should write a timestamp as inline code", () => {
+      expect(formatSeekTimestamp(95.6)).toBe("`@1:35`");
+      expect(formatSeekTimestamp(3725)).toBe("`@1:02:05`");
+    });
+
+    it("should read a timestamp back in seconds", () => {
+      expect(parseSeekTimestamp("@1:35")).toBe(95);
+      expect(parseSeekTimestamp("@1:02:05")).toBe(3725);
+      expect(parseSeekTimestamp(" @0:07 ")).toBe(7);
+    });
+
+    it("should leave any other code alone", () => {
+      expect(parseSeekTimestamp("1:35")).toBeNull();
+      expect(parseSeekTimestamp("@1:5")).toBeNull();
+      expect(parseSeekTimestamp("@decorator")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,721 @@
+/**
+ * Unit tests for the transcription queue: what gets queued, how often, and how failed files are retried
+ */
+
+jest.mock(
+  "obsidian",
+  () => {
+    class TFile {
+      path = "";
+
+      get name() {
+        return this.path.split("/").pop() ?? "";
+      }
+
+      get basename() {
+        return this.name.replace(/\.[^.]+$/, "");
+      }
+    }
+
+    class TFolder {
+      path = "";
+      children: TFile[] = [];
+    }
+
+    return {
+      MarkdownView: class {},
+      Notice: jest.fn(),
+      TFile,
+      TFolder,
+      Vault: {
+        recurseChildren: (folder: TFolder, callback: (file: TFile) => void) => folder.children.forEach(callback),
+      },
+      normalizePath: (path: string) => path.replace(/\/+/g, "/").replace(/^\/|\/$/g, ""),
+    };
+  },
+  { virtual: true },
+);
+
+/** How many chunks each recording is split into */
+let mockChunkCount = 1;
+
+// Audio is "converted" by copying it into the cache, where the processor expects to find it.
+jest.mock("AudioProcessor", () => {
+  const { extractFileDetail } = jest.requireActual("../../src/utils/format");
+  const { CACHE_DIRECTORY } = jest.requireActual("../../src/constants");
+
+  return {
+    AudioProcessor: class {
+      constructor(
+        _appId: string,
+        private readonly vault: App["vault"],
+      ) {}
+
+      async transformAudio(audioFile: FileDetail, hash: string) {
+        const processed = extractFileDetail(`${CACHE_DIRECTORY}/${hash}/${audioFile.name}.wav`);
+        await this.vault.adapter.copy(audioFile.filepath, processed.filepath);
+        return processed;
+      }
+
+      async removeSilence() {
+        return null;
+      }
+
+      async splitIntoChunks(file: FileDetail) {
+        if (mockChunkCount === 1) {
+          return [{ index: 0, start: 0, end: 1, file }];
+        }
+
+        return Array.from({ length: mockChunkCount }, (_, index) => ({
+          index,
+          start: index,
+          end: index + 1,
+          file: extractFileDetail(`${file.directory}${file.name}.chunk-${index + 1}.wav`),
+        }));
+      }
+
+      async removeChunks() {}
+
+      async removeTrimmedAudio() {}
+
+      async removeCachedAudio() {}
+    },
+  };
+});
+
+// Notes carry the frontmatter which tells the processor their audio has been transcribed.
+jest.mock("MarkdownProcessor", () => {
+  const { wrapTranscript } = jest.requireActual("../../src/MarkdownProcessor/revisions");
+
+  return {
+    MarkdownProcessor: class {
+      async generate(
+        audioFile: FileDetail,
+        processedAudio: FileDetail,
+        hash: string,
+        transcription: { text: string },
+        { previousPart }: { previousPart?: string | null } = {},
+      ) {
+        const frontmatter = `---\noriginal_file_name: ${audioFile.filename}\noriginal_file_hash: ${hash}\n---`;
+        const continued = previousPart ? `Continued from [[${previousPart}]]\n` : "";
+
+        return {
+          title: audioFile.name,
+          content: `${frontmatter}\n![](./audio/${processedAudio.filename})\n\n${continued}${wrapTranscript(transcription.text)}\n`,
+        };
+      }
+
+      generateMarkdownTitle(file: FileDetail) {
+        return file.name;
+      }
+    },
+  };
+});
+
+const mockTranscribe = jest.fn();
+
+jest.mock("../../src/TranscriptionProcessor/backends", () => ({
+  createTranscriptionBackend: () => ({ name: "test", transcribe: mockTranscribe }),
+}));
+
+import matter from "gray-matter";
+import { App, TFile, TFolder } from "obsidian";
+import { Settings } from "../../src/settings";
+import { TranscriptionProcessor } from "../../src/TranscriptionProcessor";
+import { serializeStatusMap } from "../../src/TranscriptionProcessor/QueueJournal";
+import {
+  FileDetail,
+  LowConfidenceStyle,
+  NoSpeechAction,
+  TranscriptionBackendType,
+  VoxStatusItemStatus,
+} from "../../src/types";
+import { extractFileDetail } from "../../src/utils/format";
+import { Logger } from "../../src/utils/log";
+
+// Retries are scheduled on the window's timers.
+Object.assign(global, { window: global });
+
+const createSettings = (settings: Partial<Settings> = {}) =>
+  ({
+    watchDirectory: "Voice/unprocessed",
+    outputDirectory: "Voice",
+    shouldDeleteOriginal: false,
+    shouldPlaceTranscriptNextToAudio: false,
+    maxRetries: 3,
+    retryBaseDelayMs: 10,
+    retryMaxDelayMs: 10,
+    language: "auto",
+    languageOverrides: {},
+    shouldTranslate: false,
+    shouldExportSrt: false,
+    shouldExportVtt: false,
+    subtitleMaxLineLength: 42,
+    subtitleMaxCueSeconds: 7,
+    shouldTimeSubtitlesByWord: true,
+    lowConfidenceStyle: LowConfidenceStyle.NONE,
+    lowConfidenceThreshold: 0.5,
+    noSpeechAction: NoSpeechAction.KEEP,
+    noSpeechThreshold: 0.6,
+    ...settings,
+  }) as Settings;
+
+/**
+ * A vault held in memory; its files are whatever the test puts in, and whatever the processor writes.
+ */
+const createApp = (audio: Record<string, string>) => {
+  const files = new Map<string, string>(Object.entries(audio));
+  const read = async (filepath: string) => files.get(filepath) ?? "";
+  const readFile = (file: TFile) => read(file.path);
+
+  const adapter = {
+    exists: async (filepath: string) =>
+      files.has(filepath) || [...files.keys()].some((file) => file.startsWith(`${filepath}/`)),
+    read,
+    readBinary: async (filepath: string) => new TextEncoder().encode(files.get(filepath)).buffer,
+    write: async (filepath: string, data: string) => void files.set(filepath, data),
+    writeBinary: async (filepath: string, data: ArrayBuffer) =>
+      void files.set(filepath, new TextDecoder().decode(data)),
+    mkdir: async () => {},
+    copy: async (from: string, to: string) => void files.set(to, files.get(from) ?? ""),
+    rename: async (from: string, to: string) => {
+      files.set(to, files.get(from) ?? "");
+      files.delete(from);
+    },
+    remove: async (filepath: string) => void files.delete(filepath),
+    stat: async () => ({ ctime: 0, mtime: 0 }),
+  };
+
+  const getFiles = () => [...files.keys()].map((filepath) => Object.assign(new TFile(), { path: filepath }));
+
+  const vault = {
+    adapter,
+    configDir: ".obsidian",
+    getFiles,
+    getMarkdownFiles: () => getFiles().filter((file) => file.path.endsWith(".md")),
+    getAbstractFileByPath: (filepath: string) => {
+      const children = getFiles().filter((file) => file.path.startsWith(`${filepath}/`));
+
+      if (files.has(filepath)) {
+        return Object.assign(new TFile(), { path: filepath });
+      }
+
+      return children.length > 0 ? Object.assign(new TFolder(), { path: filepath, children }) : null;
+    },
+    read: readFile,
+    cachedRead: readFile,
+    modify: async (file: TFile, data: string) => void files.set(file.path, data),
+  };
+
+  const app = {
+    appId: "test",
+    vault,
+    metadataCache: { getFileCache: (file: TFile) => ({ frontmatter: matter(files.get(file.path) ?? "").data }) },
+    workspace: { getLeavesOfType: () => [] },
+  } as unknown as App;
+
+  return { app, files };
+};
+
+const createProcessor = (audio: Record<string, string>, settings = createSettings()) => {
+  const { app, files } = createApp(audio);
+  const plugin = { manifest: { id: "vox", dir: ".obsidian/plugins/vox" } };
+  const processor = new TranscriptionProcessor(
+    app,
+    settings,
+    { log: jest.fn() } as unknown as Logger,
+    plugin as unknown as ConstructorParameters<typeof TranscriptionProcessor>[3],
+  );
+
+  // How the file menu and the folder watcher queue a single file.
+  const getCandidate = async (filepath: string) =>
+    processor.getTranscribedStatus(filepath, await processor.getTranscribedFiles());
+
+  return { processor, files, getCandidate };
+};
+
+const transcription = (text: string) => ({ text, segments: [{ id: 0, start: 0, end: 1, text }] });
+
+/**
+ * Wait for the queue to get somewhere; it runs on promises and timers of its own.
+ */
+const waitFor = async (isDone: () => boolean) => {
+  for (let waited = 0; !isDone(); waited += 5) {
+    if (waited > 2_000) {
+      throw new Error("Timed out waiting for the transcription queue");
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+const statuses = (processor: TranscriptionProcessor) => Object.values(processor.state.items).map((item) => item.status);
+
+const isSettled = (processor: TranscriptionProcessor) =>
+  statuses(processor).every(
+    (status) => status === VoxStatusItemStatus.COMPLETE || status === VoxStatusItemStatus.FAILED,
+  );
+
+describe("Transcription Queue", () => {
+  let processor: TranscriptionProcessor;
+
+  beforeEach(() => {
+    mockChunkCount = 1;
+    mockTranscribe.mockReset();
+    mockTranscribe.mockImplementation(async () => transcription("Hello"));
+  });
+
+  afterEach(() => processor?.stop());
+
+  describe("queueFiles", () => {
+    it("should count the files it queues from the watch folder", async () => {
+      ({ processor } = createProcessor({
+        "Voice/unprocessed/standup.m4a": "standup",
+        "Voice/unprocessed/Ideas/fish.m4a": "fish",
+        "Voice/unprocessed/fish.markers.json": "[]",
+      }));
+
+      await expect(processor.queueFiles()).resolves.toBe(2);
+      await waitFor(() => mockTranscribe.mock.calls.length === 2 && isSettled(processor));
+
+      expect(statuses(processor)).toEqual([VoxStatusItemStatus.COMPLETE, VoxStatusItemStatus.COMPLETE]);
+    });
+
+    it("should number audio whose name is taken by another transcript's, and embed it by that name", async () => {
+      let files: Map<string, string>;
+      ({ processor, files } = createProcessor({
+        "Voice/unprocessed/standup.m4a": "standup",
+        "Voice/audio/standup.wav": "yesterday's standup",
+        "Voice/audio/standup.transcription.json": JSON.stringify({
+          version: 1,
+          originalFileName: "standup.m4a",
+          originalFileHash: "yesterday",
+          recordedAt: "2024-03-08T09:05:00.000Z",
+          transcription: transcription("Yesterday"),
+        }),
+      }));
+
+      await processor.queueFiles();
+      await waitFor(() => isSettled(processor) && statuses(processor).length === 1);
+
+      expect(files.get("Voice/audio/standup.wav")).toBe("yesterday's standup");
+      expect(files.get("Voice/audio/standup-2.wav")).toBe("standup");
+      expect(files.get("Voice/standup.md")).toContain("![](./audio/standup-2.wav)");
+    });
+
+    it("should transcribe one file at a time with the whisper-cli backend", async () => {
+      let running = 0;
+      let mostRunning = 0;
+      mockTranscribe.mockImplementation(async () => {
+        mostRunning = Math.max(mostRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        running -= 1;
+
+        return transcription("Hello");
+      });
+
+      ({ processor } = createProcessor(
+        { "Voice/unprocessed/standup.m4a": "standup", "Voice/unprocessed/fish.m4a": "fish" },
+        createSettings({ transcriptionBackend: TranscriptionBackendType.WHISPER_CLI }),
+      ));
+
+      await processor.queueFiles();
+      await waitFor(() => mockTranscribe.mock.calls.length === 2 && isSettled(processor));
+
+      expect(mostRunning).toBe(1);
+    });
+
+    it("should find nothing to queue once everything has been transcribed", async () => {
+      ({ processor } = createProcessor({ "Voice/unprocessed/standup.m4a": "standup" }));
+
+      await processor.queueFiles();
+      await waitFor(() => isSettled(processor) && statuses(processor).length === 1);
+
+      await expect(processor.queueFiles()).resolves.toBe(0);
+      expect(mockTranscribe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("De-duplication", () => {
+    it("should only queue a file once at a time", async () => {
+      let getCandidate: (filepath: string) => ReturnType<TranscriptionProcessor["getTranscribedStatus"]>;
+      ({ processor, getCandidate } = createProcessor({ "Voice/unprocessed/standup.m4a": "standup" }));
+      processor.pause();
+
+      const candidate = await getCandidate("Voice/unprocessed/standup.m4a");
+
+      await expect(processor.queueFile(candidate)).resolves.toBe(true);
+      await expect(processor.queueFile(candidate)).resolves.toBe(false);
+
+      // The folder scan spots the same recording, but it's already on its way.
+      await expect(processor.queueFiles()).resolves.toBe(0);
+
+      processor.resume();
+      await waitFor(() => isSettled(processor));
+
+      expect(mockTranscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not queue a file again while it waits to be retried", async () => {
+      let getCandidate: (filepath: string) => ReturnType<TranscriptionProcessor["getTranscribedStatus"]>;
+      ({ processor, getCandidate } = createProcessor(
+        { "Voice/unprocessed/standup.m4a": "standup" },
+        createSettings({ retryBaseDelayMs: 200, retryMaxDelayMs: 200 }),
+      ));
+      mockTranscribe.mockRejectedValueOnce(new Error("Server went away"));
+
+      const candidate = await getCandidate("Voice/unprocessed/standup.m4a");
+      await processor.queueFile(candidate);
+      await waitFor(() => processor.state.items[candidate.hash]?.retryCount === 1);
+
+      await expect(processor.queueFile(candidate)).resolves.toBe(false);
+      await expect(processor.queueFiles()).resolves.toBe(0);
+
+      await waitFor(() => isSettled(processor));
+      expect(mockTranscribe).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Chunks", () => {
+    it("should only send the chunks which haven't come back yet when retrying", async () => {
+      ({ processor } = createProcessor({ "Voice/unprocessed/standup.m4a": "standup" }));
+      mockChunkCount = 3;
+      mockTranscribe
+        .mockResolvedValueOnce(transcription("One"))
+        .mockRejectedValueOnce(new Error("Server went away"))
+        .mockResolvedValueOnce(transcription("Two"))
+        .mockResolvedValueOnce(transcription("Three"));
+
+      await processor.queueFiles();
+      await waitFor(() => isSettled(processor) && statuses(processor).length === 1);
+
+      const chunks = mockTranscribe.mock.calls.map(([request]) => request.audioFile.filename);
+      expect(chunks).toEqual([
+        "standup.chunk-1.wav",
+        "standup.chunk-2.wav",
+        "standup.chunk-2.wav",
+        "standup.chunk-3.wav",
+      ]);
+      expect(Object.values(processor.state.items)[0]).toEqual(
+        expect.objectContaining({ status: VoxStatusItemStatus.COMPLETE, retryCount: 1 }),
+      );
+    });
+
+    it("should give up on the file once a chunk runs out of attempts", async () => {
+      ({ processor } = createProcessor(
+        { "Voice/unprocessed/standup.m4a": "standup" },
+        createSettings({ maxRetries: 2 }),
+      ));
+      mockChunkCount = 2;
+      mockTranscribe.mockResolvedValueOnce(transcription("One")).mockRejectedValue(new Error("Server went away"));
+
+      await processor.queueFiles();
+      await waitFor(() => isSettled(processor) && statuses(processor).length === 1);
+
+      expect(mockTranscribe).toHaveBeenCalledTimes(3);
+      expect(statuses(processor)).toEqual([VoxStatusItemStatus.FAILED]);
+    });
+  });
+
+  describe("retryFailed", () => {
+    it("should give the files which ran out of attempts a fresh set of retries", async () => {
+      ({ processor } = createProcessor(
+        { "Voice/unprocessed/standup.m4a": "standup", "Voice/unprocessed/fish.m4a": "fish" },
+        createSettings({ maxRetries: 2 }),
+      ));
+      mockTranscribe.mockRejectedValue(new Error("Server went away"));
+
+      await processor.queueFiles();
+      await waitFor(() => mockTranscribe.mock.calls.length === 4 && isSettled(processor));
+      expect(statuses(processor)).toEqual([VoxStatusItemStatus.FAILED, VoxStatusItemStatus.FAILED]);
+
+      mockTranscribe.mockImplementation(async () => transcription("Hello"));
+
+      expect(processor.retryFailed()).toBe(2);
+      Object.values(processor.state.items).forEach((item) => {
+        expect(item).toEqual(expect.objectContaining({ retryCount: 0, lastError: null }));
+      });
+
+      await waitFor(() => isSettled(processor));
+      expect(statuses(processor)).toEqual([VoxStatusItemStatus.COMPLETE, VoxStatusItemStatus.COMPLETE]);
+    });
+
+    it("should leave alone the files which haven't failed, or are already queued again", async () => {
+      ({ processor } = createProcessor(
+        { "Voice/unprocessed/standup.m4a": "standup" },
+        createSettings({ maxRetries: 1 }),
+      ));
+      mockTranscribe.mockRejectedValueOnce(new Error("Server went away"));
+
+      await processor.queueFiles();
+      await waitFor(() => isSettled(processor) && statuses(processor).length === 1);
+
+      processor.pause();
+      expect(processor.retryFailed()).toBe(1);
+      expect(processor.retryFailed()).toBe(0);
+
+      processor.resume();
+      await waitFor(() => isSettled(processor));
+
+      expect(processor.retryFailed()).toBe(0);
+      expect(mockTranscribe).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Settings Changes", () => {
+    /**
+     * What saving the settings does, once the debounce has passed.
+     */
+    const saveSettings = (settings = createSettings()) => {
+      processor.reset(settings);
+      return processor.queueFiles();
+    };
+
+    it("should keep a file queued from outside the watch folder, and transcribe it", async () => {
+      let getCandidate: (filepath: string) => ReturnType<TranscriptionProcessor["getTranscribedStatus"]>;
+      ({ processor, getCandidate } = createProcessor({ "Meetings/standup.m4a": "standup" }));
+      processor.pause();
+
+      // As queued from the file menu.
+      const candidate = await getCandidate("Meetings/standup.m4a");
+      await processor.queueFile(candidate);
+      await saveSettings();
+
+      processor.resume();
+      await waitFor(() => isSettled(processor));
+
+      expect(mockTranscribe).toHaveBeenCalledWith(
+        expect.objectContaining({ audioFile: expect.objectContaining({ filename: "standup.wav" }) }),
+      );
+      expect(processor.state.items[candidate.hash].status).toBe(VoxStatusItemStatus.COMPLETE);
+    });
+
+    it("should let a file waiting to be retried wait out its delay", async () => {
+      ({ processor } = createProcessor(
+        { "Voice/unprocessed/standup.m4a": "standup" },
+        createSettings({ retryBaseDelayMs: 200, retryMaxDelayMs: 200 }),
+      ));
+      mockTranscribe.mockRejectedValueOnce(new Error("Server went away"));
+
+      await processor.queueFiles();
+      await waitFor(() => Object.values(processor.state.items)[0]?.retryCount === 1);
+
+      await expect(saveSettings(createSettings({ retryBaseDelayMs: 200, retryMaxDelayMs: 200 }))).resolves.toBe(0);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(mockTranscribe).toHaveBeenCalledTimes(1);
+
+      await waitFor(() => isSettled(processor));
+      expect(mockTranscribe).toHaveBeenCalledTimes(2);
+    });
+
+    it("should drop files found in a watch folder which is no longer watched", async () => {
+      ({ processor } = createProcessor({ "Voice/unprocessed/standup.m4a": "standup" }));
+      processor.pause();
+
+      await processor.queueFiles();
+      await saveSettings(createSettings({ watchDirectory: "Recordings" }));
+
+      processor.resume();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(processor.state.items).toEqual({});
+      expect(mockTranscribe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Split Recordings", () => {
+    const seriesSidecar = (previousPart: string) => JSON.stringify({ version: 1, previousPart });
+
+    it("should link to the note of the part before, by the name it was written with", async () => {
+      let files: Map<string, string>;
+      ({ processor, files } = createProcessor({
+        "Voice/unprocessed/Meeting part 2.m4a": "part 2",
+        "Voice/unprocessed/Meeting part 2.series.json": seriesSidecar("Voice/unprocessed/Meeting part 1.m4a"),
+        "Voice/Meeting part 1 2.md": "---\noriginal_file_name: Meeting part 1.m4a\noriginal_file_hash: a1b2c3\n---\n",
+      }));
+
+      await processor.queueFiles();
+      await waitFor(() => isSettled(processor) && statuses(processor).length === 1);
+
+      expect(files.get("Voice/Meeting part 2.md")).toContain("Continued from [[Meeting part 1 2]]");
+    });
+
+    it("should link to the title the part before will get, when it's yet to be transcribed", async () => {
+      let files: Map<string, string>;
+      let getCandidate: (filepath: string) => ReturnType<TranscriptionProcessor["getTranscribedStatus"]>;
+      ({ processor, files, getCandidate } = createProcessor({
+        "Voice/unprocessed/Meeting part 1.m4a": "part 1",
+        "Voice/unprocessed/Meeting part 2.m4a": "part 2",
+        "Voice/unprocessed/Meeting part 2.series.json": seriesSidecar("Voice/unprocessed/Meeting part 1.m4a"),
+      }));
+
+      await processor.queueFile(await getCandidate("Voice/unprocessed/Meeting part 2.m4a"));
+      await waitFor(() => isSettled(processor) && files.has("Voice/Meeting part 2.md"));
+
+      expect(files.get("Voice/Meeting part 2.md")).toContain("Continued from [[Meeting part 1]]");
+    });
+  });
+
+  describe("Restoring", () => {
+    it("should transcribe a file from outside the watch folder which was still queued when the app closed", async () => {
+      const item = {
+        hash: "a1b2c3",
+        details: extractFileDetail("Meetings/standup.m4a"),
+        addedAt: new Date(),
+        finalizedAt: null,
+        status: VoxStatusItemStatus.QUEUED,
+        retryCount: 0,
+        lastRetryAt: null,
+        lastError: null,
+        progress: null,
+        chunk: null,
+      };
+
+      let files: Map<string, string>;
+      ({ processor, files } = createProcessor({
+        "Meetings/standup.m4a": "standup",
+        ".obsidian/plugins/vox/queue.json": JSON.stringify(serializeStatusMap({ [item.hash]: item })),
+      }));
+
+      await processor.restore();
+      await waitFor(() => isSettled(processor));
+
+      expect(mockTranscribe).toHaveBeenCalledTimes(1);
+      expect(processor.state.items[item.hash].status).toBe(VoxStatusItemStatus.COMPLETE);
+      expect(files.get("Voice/Meetings/standup.md")).toContain("original_file_hash: a1b2c3");
+    });
+  });
+
+  describe("Re-transcription", () => {
+    const note = (body: string) =>
+      `---\noriginal_file_name: standup.m4a\noriginal_file_hash: a1b2c3\n---\n${body}\n%%VOX transcript start%%\nOld transcript\n%%VOX transcript end%%\n`;
+
+    it("should stay queued when the settings change, and rebuild the note", async () => {
+      let files: Map<string, string>;
+      ({ processor, files } = createProcessor({
+        "Voice/standup.md": note("![](./audio/standup.wav)\n"),
+        "Voice/audio/standup.wav": "standup",
+      }));
+      processor.pause();
+
+      await processor.retranscribeNote("Voice/standup.md");
+      processor.reset(createSettings());
+      await processor.queueFiles();
+
+      processor.resume();
+      await waitFor(() => isSettled(processor));
+
+      expect(processor.state.items["a1b2c3"].status).toBe(VoxStatusItemStatus.COMPLETE);
+      expect(files.get("Voice/standup.md")).toContain("%%VOX transcript start%%\nHello\n%%VOX transcript end%%");
+    });
+
+    it("should find the audio of a note which doesn't embed it, by the transcription saved next to it", async () => {
+      let files: Map<string, string>;
+      ({ processor, files } = createProcessor({
+        "Meetings/standup.md": note("My notes from the standup."),
+        "Voice/audio/standup.wav": "standup",
+        "Voice/audio/standup.transcription.json": JSON.stringify({
+          version: 1,
+          originalFileName: "standup.m4a",
+          originalFileHash: "a1b2c3",
+          recordedAt: "2024-03-09T09:05:00.000Z",
+          transcription: transcription("Old transcript"),
+        }),
+        "Voice/audio/other.wav": "other",
+      }));
+
+      await processor.retranscribeNote("Meetings/standup.md");
+      await waitFor(() => isSettled(processor));
+
+      expect(mockTranscribe).toHaveBeenCalledWith(
+        expect.objectContaining({ audioFile: expect.objectContaining({ filename: "standup.wav" }) }),
+      );
+      expect(files.get("Meetings/standup.md")).toContain("My notes from the standup.");
+      expect(files.get("Meetings/standup.md")).toContain("%%VOX transcript start%%\nHello\n%%VOX transcript end%%");
+
+      // The audio stays where it was, with the new transcription beside it.
+      expect(files.get("Voice/audio/standup.wav")).toBe("standup");
+      expect(JSON.parse(files.get("Voice/audio/standup.transcription.json") ?? "")).toEqual(
+        expect.objectContaining({ transcription: transcription("Hello") }),
+      );
+      expect([...files.keys()].filter((file) => file.startsWith("Meetings/audio"))).toEqual([]);
+    });
+
+    it("should say so when the note's audio can't be found", async () => {
+      ({ processor } = createProcessor({ "Meetings/standup.md": note("My notes from the standup.") }));
+
+      await expect(processor.retranscribeNote("Meetings/standup.md")).rejects.toThrow(
+        "Couldn't find the audio linked in this note.",
+      );
+    });
+  });
+
+  describe("Regenerating Notes", () => {
+    it("should count the saved transcriptions it can't use", async () => {
+      const sidecar = JSON.stringify({
+        version: 1,
+        originalFileName: "standup.m4a",
+        originalFileHash: "a1b2c3",
+        recordedAt: "2024-03-09T09:05:00.000Z",
+        transcription: transcription("Hello"),
+      });
+      ({ processor } = createProcessor({
+        "Voice/audio/standup.wav": "standup",
+        "Voice/audio/standup.transcription.json": sidecar,
+        "Voice/audio/deleted.transcription.json": sidecar,
+      }));
+
+      await expect(processor.regenerateNotes()).resolves.toEqual({ regenerated: 1, skipped: 1 });
+    });
+  });
+
+  describe("Live Transcription", () => {
+    it("should keep apart the windows of a recording started while the last one's are in flight", async () => {
+      ({ processor } = createProcessor({}));
+      const sent: string[] = [];
+      mockTranscribe.mockImplementation(async ({ audioFile }: { audioFile: FileDetail }) => {
+        sent.push(audioFile.filepath);
+        return transcription("Hello");
+      });
+
+      const window = {
+        index: 0,
+        start: 0,
+        audio: { sampleRate: 16_000, channelData: [new Float32Array(1_600)] },
+        isComplete: false,
+      };
+
+      processor.startLiveTranscription();
+      processor.pushLiveWindow(window);
+      processor.startLiveTranscription();
+      processor.pushLiveWindow(window);
+
+      await waitFor(() => sent.length === 2);
+      expect(new Set(sent).size).toBe(2);
+    });
+  });
+
+  describe("Dictation", () => {
+    it("should keep its audio alongside, rather than in place of, audio of the same name", async () => {
+      let files: Map<string, string>;
+      ({ processor, files } = createProcessor({
+        "Voice/unprocessed/standup.m4a": "standup",
+        "Voice/unprocessed/standup.dictation.json": JSON.stringify({
+          version: 1,
+          notePath: "Daily.md",
+          anchor: "%%VOX dictation a1%%",
+          shouldEmbedAudio: true,
+        }),
+        "Daily.md": "Today: %%VOX dictation a1%%",
+        "Voice/audio/standup.wav": "another transcript's audio",
+      }));
+
+      await processor.queueFiles();
+      await waitFor(() => isSettled(processor) && statuses(processor).length === 1);
+
+      expect(files.get("Voice/audio/standup.wav")).toBe("another transcript's audio");
+      expect(files.get("Voice/audio/standup-2.wav")).toBe("standup");
+      expect(files.get("Daily.md")).toBe("Today: Hello\n\n![[Voice/audio/standup-2.wav]]");
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the raw transcription kept next to a note's audio
+ */
+
+import { DataAdapter } from "obsidian";
+import { RecordingMarkerType, TranscriptionRecord } from "../../src/types";
+import { extractFileDetail } from "../../src/utils/format";
+import {
+  getTranscriptionSidecarPath,
+  readTranscriptionSidecar,
+  writeTranscriptionSidecar,
+} from "../../src/utils/transcription";
+
+const createAdapter = (files: Record<string, string>) =>
+  ({
+    exists: jest.fn(async (path: string) => path in files),
+    read: jest.fn(async (path: string) => files[path]),
+    write: jest.fn(async (path: string, data: string) => {
+      files[path] = data;
+    }),
+  }) as unknown as DataAdapter;
+
+const record: TranscriptionRecord = {
+  originalFileName: "Standup 20240309-140507.webm",
+  originalFileHash: "5d41402abc4b2a76b9719d911017c592",
+  recordedAt: "2024-03-09T14:05:07.000+00:00",
+  transcribedAt: "2024-03-09T14:20:00.000+00:00",
+  markers: [{ time: 12, type: RecordingMarkerType.ACTION_ITEM }],
+  previousPart: "Standup part 1",
+  transcription: {
+    text: " Morning all.",
+    language: "en",
+    segments: [
+      {
+        id: 0,
+        start: 0,
+        end: 1.5,
+        text: " Morning all.",
+        tokens: [],
+        temperature: 0,
+        avg_logprob: -0.2,
+        no_speech_prob: 0,
+      },
+    ],
+  },
+};
+
+describe("Transcription Sidecar", () => {
+  const audioFile = extractFileDetail("Voice/audio/Standup 20240309-140507.wav");
+
+  it("should sit next to the processed audio", () => {
+    expect(getTranscriptionSidecarPath(audioFile)).toBe("Voice/audio/Standup 20240309-140507.transcription.json");
+  });
+
+  it("should read back the transcription written", async () => {
+    const adapter = createAdapter({});
+
+    await writeTranscriptionSidecar(adapter, audioFile, record);
+
+    expect(await readTranscriptionSidecar(adapter, audioFile)).toEqual(record);
+  });
+
+  it("should read nothing when the audio has no sidecar", async () => {
+    expect(await readTranscriptionSidecar(createAdapter({}), audioFile)).toBeNull();
+  });
+
+  it("should read nothing from a sidecar without segments", async () => {
+    const adapter = createAdapter({
+      [getTranscriptionSidecarPath(audioFile)]: JSON.stringify({ version: 1, ...record, transcription: { text: "" } }),
+    });
+
+    expect(await readTranscriptionSidecar(adapter, audioFile)).toBeNull();
+  });
+
+  it("should skip markers it doesn't recognise", async () => {
+    const adapter = createAdapter({
+      [getTranscriptionSidecarPath(audioFile)]: JSON.stringify({
+        version: 1,
+        ...record,
+        markers: [
+          { time: 5, type: "important" },
+          { time: 6, type: "unknown" },
+        ],
+      }),
+    });
+
+    expect((await readTranscriptionSidecar(adapter, audioFile))?.markers).toEqual([
+      { time: 5, type: RecordingMarkerType.IMPORTANT },
+    ]);
+  });
+
+  it("should read no previous part from a sidecar written without one", async () => {
+    const adapter = createAdapter({
+      [getTranscriptionSidecarPath(audioFile)]: JSON.stringify({ version: 1, ...record, previousPart: undefined }),
+    });
+
+    expect(await readTranscriptionSidecar(adapter, audioFile)).toEqual({ ...record, previousPart: null });
+  });
+
+  it("should read nothing from a corrupt sidecar", async () => {
+    const adapter = createAdapter({ [getTranscriptionSidecarPath(audioFile)]: "{ not json" });
+
+    expect(await readTranscriptionSidecar(adapter, audioFile)).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for parsing the whisper.cpp CLI's JSON output (`-oj`)
+ */
+
+import { WhisperCliOutput, parseWhisperCliOutput } from "../../src/TranscriptionProcessor/backends/WhisperCliBackend";
+
+describe("parseWhisperCliOutput", () => {
+  const output: WhisperCliOutput = {
+    params: { language: "auto", translate: false },
+    result: { language: "en" },
+    transcription: [
+      {
+        offsets: { from: 0, to: 4500 },
+        text: " Hello world.",
+        tokens: [
+          { text: "[_BEG_]", offsets: { from: 0, to: 0 }, id: 50364, p: 0.99 },
+          { text: " Hello", offsets: { from: 0, to: 800 }, id: 2425, p: 0.95 },
+          { text: " wor", offsets: { from: 800, to: 1200 }, id: 1002, p: 0.9 },
+          { text: "ld", offsets: { from: 1200, to: 1500 }, id: 1003, p: 0.7 },
+          { text: ".", offsets: { from: 1500, to: 1600 }, id: 13, p: 0.98 },
+        ],
+      },
+      {
+        offsets: { from: 4500, to: 9800 },
+        text: " Second segment.",
+      },
+    ],
+  };
+
+  it("should convert millisecond offsets to seconds", () => {
+    const result = parseWhisperCliOutput(output);
+
+    expect(result.segments?.[0].start).toBe(0);
+    expect(result.segments?.[0].end).toBe(4.5);
+    expect(result.segments?.[1].start).toBe(4.5);
+    expect(result.segments?.[1].end).toBe(9.8);
+    expect(result.duration).toBe(9.8);
+  });
+
+  it("should join segment text and use the detected language", () => {
+    const result = parseWhisperCliOutput(output);
+
+    expect(result.text).toBe(" Hello world. Second segment.");
+    expect(result.language).toBe("en");
+    expect(result.detected_language).toBe("en");
+    expect(result.task).toBe("transcribe");
+  });
+
+  it("should merge sub-word tokens into words and skip special tokens", () => {
+    const words = parseWhisperCliOutput(output).segments?.[0].words ?? [];
+
+    expect(words.map((w) => w.word)).toEqual(["Hello", "world."]);
+    expect(words[1].start).toBe(0.8);
+    expect(words[1].end).toBe(1.6);
+    expect(words[1].probability).toBe(0.7);
+  });
+
+  it("should leave words undefined when tokens are absent", () => {
+    const segment = parseWhisperCliOutput(output).segments?.[1];
+
+    expect(segment?.words).toBeUndefined();
+    expect(segment?.tokens).toEqual([]);
+    expect(segment?.avg_logprob).toBe(0);
+  });
+
+  it("should mark translations", () => {
+    const result = parseWhisperCliOutput({ ...output, params: { language: "de", translate: true }, result: undefined });
+
+    expect(result.task).toBe("translate");
+    expect(result.language).toBe("de");
+  });
+});